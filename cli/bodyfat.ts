@@ -0,0 +1,20 @@
+/****************************
+ * `bodyfat` command entry point
+ ***************************/
+/**
+ * Bundled for Node by `npm run build:cli` (see vite.cli.config.ts) into dist-cli/bodyfat.js. Only the process wiring
+ * lives here; the command itself is `runCli` in src/cli/bodyfatCli.ts.
+ */
+import { readFileSync } from 'node:fs';
+import { runCli } from '../src/cli/bodyfatCli';
+import { registerCustomMethods } from '../src/lib/bodyFat';
+import { CUSTOM_METHODS } from '../src/config/customMethods';
+
+// Same method set as the web app.
+registerCustomMethods(CUSTOM_METHODS);
+
+process.exitCode = runCli(process.argv.slice(2), {
+  readFile: path => readFileSync(path, 'utf8'),
+  stdout: text => process.stdout.write(`${text}\n`),
+  stderr: text => process.stderr.write(`${text}\n`),
+});
@@ -0,0 +1,138 @@
+/****************************
+ * Reference waitlist server
+ ***************************/
+/**
+ * Receives the sign-ups POSTed by the results call-to-action (`WaitlistSubmission` in src/lib/waitlist.ts) and keeps
+ * them in a JSON file. No dependencies beyond Node 18+:
+ *
+ *   npm run waitlist-server
+ *
+ * PORT (8787), WAITLIST_FILE (server/data/waitlist.json) and ALLOWED_ORIGIN (`*`, for CORS when the app is served
+ * from another origin) are read from the environment. Signing up again with the same email replaces the entry.
+ * `createWaitlistServer` is exported for the tests; the server only listens when this file is run directly.
+ */
+import { createServer } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_FILE = resolve(process.env.WAITLIST_FILE ?? resolve(dirname(fileURLToPath(import.meta.url)), 'data/waitlist.json'));
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN ?? '*';
+const MAX_BODY_BYTES = 64 * 1024;
+const NAME_MAX_LENGTH = 100;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/** Same checks as the client form; anything else in the body is stored as sent. */
+const validate = body => {
+  if (!body || typeof body !== 'object') throw new HttpError(400, 'Expected a JSON object');
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  const email = typeof body.email === 'string' ? body.email.trim() : '';
+  if (!name || name.length > NAME_MAX_LENGTH) throw new HttpError(400, 'Invalid name');
+  if (!EMAIL_PATTERN.test(email)) throw new HttpError(400, 'Invalid email');
+  if (body.consent !== true) throw new HttpError(400, 'Consent is required');
+  return { ...body, name, email };
+};
+
+/** The stored array as is. Anything else is left untouched on disk rather than overwritten with a fresh list. */
+const readEntries = async dataFile => {
+  let entries;
+  try {
+    entries = JSON.parse(await readFile(dataFile, 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+  if (!Array.isArray(entries)) throw new Error(`${dataFile} does not hold a JSON array`);
+  return entries;
+};
+
+/** Entries edited by hand may lack an email; they never match a sign-up and are kept as they are. */
+const hasEmail = (entry, key) => typeof entry?.email === 'string' && entry.email.toLowerCase() === key;
+
+/**
+ * Writes go through a temporary file and are queued, so concurrent sign-ups can't interleave or truncate the file.
+ * `id` and `receivedAt` are set here, after the submission, so a client can't choose them.
+ */
+const createStore = dataFile => {
+  let queue = Promise.resolve();
+  return submission => {
+    const task = queue.then(async () => {
+      const entries = await readEntries(dataFile);
+      const key = submission.email.toLowerCase();
+      const entry = { ...submission, id: randomUUID(), receivedAt: new Date().toISOString() };
+      const next = [...entries.filter(e => !hasEmail(e, key)), entry];
+      await mkdir(dirname(dataFile), { recursive: true });
+      await writeFile(`${dataFile}.tmp`, JSON.stringify(next, null, 2));
+      await rename(`${dataFile}.tmp`, dataFile);
+      return entries.length !== next.length - 1;
+    });
+    queue = task.catch(() => undefined);
+    return task;
+  };
+};
+
+const readBody = request => new Promise((resolveBody, reject) => {
+  let size = 0;
+  const chunks = [];
+  request.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Body too large'));
+      request.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  request.on('end', () => {
+    try {
+      resolveBody(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new HttpError(400, 'Body is not valid JSON'));
+    }
+  });
+  request.on('error', reject);
+});
+
+const send = (response, status, body, allowedOrigin) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+/** New sign-ups answer 201, a repeated email 200. */
+export const createWaitlistServer = ({ dataFile = DATA_FILE, allowedOrigin = ALLOWED_ORIGIN } = {}) => {
+  const store = createStore(dataFile);
+  return createServer(async (request, response) => {
+    const reply = (status, body) => send(response, status, body, allowedOrigin);
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+    if (pathname === '/health' && request.method === 'GET') return reply(200, { ok: true });
+    if (pathname !== '/api/waitlist') return reply(404, { error: 'Not found' });
+    if (request.method === 'OPTIONS') return reply(204);
+    if (request.method !== 'POST') return reply(405, { error: 'Method not allowed' });
+    try {
+      const replaced = await store(validate(await readBody(request)));
+      reply(replaced ? 200 : 201, { ok: true });
+    } catch (error) {
+      if (error instanceof HttpError) return reply(error.status, { error: error.message });
+      console.error(error);
+      reply(500, { error: 'Could not store the sign-up' });
+    }
+  });
+};
+
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  createWaitlistServer().listen(PORT, () => console.log(`Waitlist server listening on http://localhost:${PORT}/api/waitlist, storing to ${DATA_FILE}`));
+}
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createWaitlistServer } from './waitlist.mjs';
+
+let dir;
+let dataFile;
+let server;
+let url;
+
+const post = body => fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: typeof body === 'string' ? body : JSON.stringify(body) });
+const stored = async () => JSON.parse(await readFile(dataFile, 'utf8'));
+const signUp = { name: 'Ada', email: 'ada@example.com', consent: true, category: 'Average' };
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'waitlist-'));
+  dataFile = join(dir, 'waitlist.json');
+  server = createWaitlistServer({ dataFile });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${server.address().port}/api/waitlist`;
+});
+
+afterEach(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('waitlist server', () => {
+  it('rejects sign-ups the client form would not send', async () => {
+    expect((await post({ ...signUp, email: 'ada@' })).status).toBe(400);
+    expect((await post({ ...signUp, name: ' ' })).status).toBe(400);
+    expect((await post({ ...signUp, consent: 'yes' })).status).toBe(400);
+    expect((await post('{not json')).status).toBe(400);
+    await expect(readFile(dataFile)).rejects.toThrow();
+  });
+
+  it('keeps one entry per email, the latest sign-up winning', async () => {
+    expect((await post(signUp)).status).toBe(201);
+    expect((await post({ ...signUp, name: 'Grace', email: 'grace@example.com' })).status).toBe(201);
+    expect((await post({ ...signUp, email: ' ADA@example.com ', category: 'Athletic' })).status).toBe(200);
+
+    const entries = await stored();
+    expect(entries).toHaveLength(2);
+    expect(entries.map(e => [e.email, e.category])).toEqual([['grace@example.com', 'Average'], ['ADA@example.com', 'Athletic']]);
+  });
+
+  it('sets the id and the receipt time itself', async () => {
+    await post({ ...signUp, id: 'chosen', receivedAt: '2000-01-01T00:00:00.000Z' });
+    const [entry] = await stored();
+    expect(entry.id).not.toBe('chosen');
+    expect(Date.parse(entry.receivedAt)).toBeGreaterThan(Date.parse('2020-01-01'));
+  });
+
+  it('keeps hand-edited entries without an email and refuses to overwrite a file that is not a list', async () => {
+    await writeFile(dataFile, JSON.stringify([{ name: 'Imported' }]));
+    expect((await post(signUp)).status).toBe(201);
+    expect(await stored()).toHaveLength(2);
+
+    await writeFile(dataFile, '{"entries": []}');
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect((await post(signUp)).status).toBe(500);
+    expect(logged).toHaveBeenCalledOnce();
+    logged.mockRestore();
+    expect(await readFile(dataFile, 'utf8')).toBe('{"entries": []}');
+  });
+});
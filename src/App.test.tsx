@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import App from './App';
+import { LOCALE_STORAGE_KEY } from './i18n';
+import { en } from './i18n/en';
+import { analytics, ANALYTICS_CONSENT_STORAGE_KEY, noopSink } from './lib/analytics';
+
+/** Panels and wizard steps fade for 300 ms before the new content mounts. */
+const TRANSITION_MS = 300;
+
+const renderApp = (path = '/') => {
+  window.history.replaceState(null, '', path);
+  const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+  render(<App />);
+  return user;
+};
+
+const settle = () => act(() => { vi.advanceTimersByTime(TRANSITION_MS); });
+
+const desktopNav = () => within(screen.getAllByRole('navigation', { name: en.navAriaLabel })[0]);
+
+beforeEach(() => {
+  vi.useFakeTimers({ shouldAdvanceTime: true });
+  window.localStorage.setItem(LOCALE_STORAGE_KEY, 'en');
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('App routing', () => {
+  it('opens on the landing page and moves to the methods page from the header', async () => {
+    const user = renderApp();
+    expect(screen.getByRole('heading', { level: 1, name: new RegExp(en.heroTitleHighlight) })).toBeInTheDocument();
+
+    await user.click(desktopNav().getByRole('link', { name: en.navLabels.methods }));
+    expect(window.location.pathname).toBe('/methods');
+    expect(screen.getByRole('heading', { level: 1, name: en.methodsPageTitle })).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: en.methodFamilyTitles.tape })).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: en.methodNames.NAVY })).toBeInTheDocument();
+    expect(screen.getByText(en.methodNotes.NAVY)).toBeInTheDocument();
+    expect(desktopNav().getByRole('link', { name: en.navLabels.methods })).toHaveAttribute('aria-current', 'page');
+  });
+
+  it('starts the calculator from the hero and follows back/forward', async () => {
+    const user = renderApp();
+    await user.click(screen.getAllByRole('link', { name: en.heroStartButton })[0]);
+    expect(window.location.pathname).toBe('/calculator');
+    expect(screen.getByRole('heading', { name: en.welcomeTitle })).toBeInTheDocument();
+
+    act(() => {
+      window.history.replaceState(null, '', '/');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+    });
+    expect(screen.getByRole('heading', { level: 1, name: new RegExp(en.heroTitleHighlight) })).toBeInTheDocument();
+  });
+
+  it('opens the history panel on the history route and closes it when going to the calculator', async () => {
+    const user = renderApp('/history');
+    expect(screen.getByRole('heading', { name: en.historyTitle })).toBeInTheDocument();
+
+    await user.click(desktopNav().getByRole('link', { name: en.navLabels.calculator }));
+    settle();
+    expect(screen.queryByRole('heading', { name: en.historyTitle })).not.toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: en.welcomeTitle })).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: en.historyButton }));
+    settle();
+    expect(window.location.pathname).toBe('/history');
+
+    await user.click(screen.getByRole('button', { name: en.historyButton }));
+    settle();
+    expect(window.location.pathname).toBe('/calculator');
+    expect(screen.queryByRole('heading', { name: en.historyTitle })).not.toBeInTheDocument();
+  });
+
+  it('opens the mobile menu and closes it after navigating', async () => {
+    const user = renderApp();
+    const toggle = screen.getByRole('button', { name: en.navMenuOpen });
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+
+    await user.click(toggle);
+    expect(toggle).toHaveAttribute('aria-expanded', 'true');
+    expect(toggle).toHaveAccessibleName(en.navMenuClose);
+
+    await user.click(within(document.getElementById('mobile-menu')!).getByRole('link', { name: en.navLabels.methods }));
+    expect(window.location.pathname).toBe('/methods');
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+  });
+
+  it('sends unknown paths to the landing page', () => {
+    renderApp('/pricing');
+    expect(window.location.pathname).toBe('/');
+    expect(desktopNav().getByRole('link', { name: en.navLabels.landing })).toHaveAttribute('aria-current', 'page');
+  });
+});
+
+describe('analytics consent', () => {
+  afterEach(() => {
+    analytics.configure(noopSink);
+    analytics.setConsent(null);
+  });
+
+  it('shows no banner while analytics is the no-op default', () => {
+    renderApp();
+    expect(screen.queryByRole('dialog', { name: en.analyticsConsentTitle })).not.toBeInTheDocument();
+  });
+
+  it('asks once when a sink is configured and can be asked again from the footer', async () => {
+    analytics.configure({ send: () => {} });
+    const user = renderApp();
+    const banner = screen.getByRole('dialog', { name: en.analyticsConsentTitle });
+
+    await user.click(within(banner).getByLabelText(en.analyticsConsentMeasurements));
+    await user.click(within(banner).getByRole('button', { name: en.analyticsConsentAccept }));
+    expect(screen.queryByRole('dialog', { name: en.analyticsConsentTitle })).not.toBeInTheDocument();
+    expect(JSON.parse(window.localStorage.getItem(ANALYTICS_CONSENT_STORAGE_KEY) ?? 'null')).toEqual({ usage: true, measurements: true });
+
+    await user.click(screen.getByRole('button', { name: en.analyticsSettingsButton }));
+    await user.click(screen.getByRole('button', { name: en.analyticsConsentDecline }));
+    expect(analytics.getConsent()).toEqual({ usage: false, measurements: false });
+  });
+});
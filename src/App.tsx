@@ -1,12 +1,41 @@
 import React from 'react';
 import BodyFatEstimatorWizard from './components/BodyFatEstimator/BodyFatEstimatorWizard';
+import LocaleProvider from './i18n/LocaleProvider';
+import RouterProvider from './routing/RouterProvider';
+import { useRoute } from './hooks/useRoute';
+import Header from './components/Layout/Header';
+import Footer from './components/Layout/Footer';
+import UpdatePrompt from './components/Layout/UpdatePrompt';
+import ConsentBanner from './components/Layout/ConsentBanner';
+import LandingPage from './components/Landing/LandingPage';
+import MethodsPage from './components/Methods/MethodsPage';
 
-function App() {
-  return (
-    <div className="min-h-screen bg-[#0d1117] flex items-center justify-center p-4 sm:p-6 md:p-8">
+/* The calculator and history routes share one wizard instance, so moving between them keeps the typed inputs */
+function Page() {
+  const { route } = useRoute();
+  return route === 'landing' ? <LandingPage /> : route === 'methods' ? <MethodsPage /> : (
+    <div className="flex items-center justify-center p-4 sm:p-6 md:p-8">
       <BodyFatEstimatorWizard />
     </div>
   );
 }
 
-export default App;
\ No newline at end of file
+function App() {
+  return (
+    <LocaleProvider>
+      <RouterProvider>
+        <div className="min-h-screen bg-page flex flex-col">
+          <Header />
+          <main className="flex-grow">
+            <Page />
+          </main>
+          <Footer />
+        </div>
+        <UpdatePrompt />
+        <ConsentBanner />
+      </RouterProvider>
+    </LocaleProvider>
+  );
+}
+
+export default App;
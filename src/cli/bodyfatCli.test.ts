@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { BodyMeasurements, calculateBodyFat, getBfCategory } from '../lib/bodyFat';
+import { inToCm, lbsToKg } from '../lib/units';
+import { CLI_USAGE, runCli } from './bodyfatCli';
+
+const run = (args: string[], files: Record<string, string> = {}) => {
+  const out: string[] = [];
+  const err: string[] = [];
+  const code = runCli(args, {
+    readFile: path => { if (!(path in files)) throw new Error('ENOENT'); return files[path]; },
+    stdout: text => out.push(text),
+    stderr: text => err.push(text),
+  });
+  return { code, stdout: out.join('\n'), stderr: err.join('\n') };
+};
+
+const male: BodyMeasurements = { sex: 'male', age: 30, weightKg: 81, heightCm: 180, neckCm: 38, waistCm: 85, hipCm: null };
+const maleArgs = ['--sex', 'male', '--age', '30', '--weight', '81', '--height', '180', '--neck', '38', '--waist', '85'];
+
+describe('runCli', () => {
+  it('prints the same results and category as the wizard calculation', () => {
+    const { code, stdout } = run([...maleArgs, '--format', 'json']);
+    const expected = calculateBodyFat(male);
+    const output = JSON.parse(stdout);
+    expect(code).toBe(0);
+    expect(output.inputs).toEqual(male);
+    expect(output.consensus.value).toBeCloseTo(expected.consensus?.value as number, 2);
+    expect(output.category).toBe(getBfCategory(expected.consensus?.value ?? null, 'male'));
+  });
+
+  it('lists each method, the BMI, the consensus and the category in the table', () => {
+    const { stdout } = run(maleArgs);
+    expect(stdout).toMatch(/US Navy BF% \(Tape\)\s+16\.1/);
+    expect(stdout).toContain('BMI:       25.0');
+    expect(stdout).toMatch(/^Consensus: \d+\.\d% \(95% range /m);
+    expect(stdout).toMatch(/Category: {2}Average$/);
+  });
+
+  it('converts imperial values like the wizard and requires the hip for women', () => {
+    const imperial = ['--sex', 'female', '--age', '40', '--weight', '141.6', '--height', '65', '--neck', '12.6', '--waist', '30', '--units', 'imperial'];
+    expect(run(imperial)).toMatchObject({ code: 1, stderr: '--hip is required.' });
+    const { inputs } = JSON.parse(run([...imperial, '--hip=39.4', '--format=json']).stdout);
+    expect(inputs.weightKg).toBeCloseTo(lbsToKg(141.6), 6);
+    expect(inputs.hipCm).toBeCloseTo(inToCm(39.4), 6);
+  });
+
+  it('rejects values outside the wizard limits and unknown options', () => {
+    expect(run([...maleArgs.slice(0, -1), '500'])).toMatchObject({ code: 1, stderr: '--waist is out of range.' });
+    expect(run([...maleArgs, '--lang', 'en'])).toMatchObject({ code: 2, stderr: 'Unknown option --lang.' });
+    expect(run(['--help'])).toEqual({ code: 0, stdout: CLI_USAGE, stderr: '' });
+  });
+
+  it('applies the method settings from a file like the app does', () => {
+    const settings = { RFM: { enabled: false }, BMI_BF: { countsTowardAverage: false } };
+    const files = { 'settings.json': JSON.stringify(settings), 'bad.json': '{"RFM": {"enabled": "no"}}' };
+    const output = JSON.parse(run([...maleArgs, '--format', 'json', '--settings', 'settings.json'], files).stdout);
+    expect(output.consensus.value).toBeCloseTo(calculateBodyFat(male, settings).consensus?.value as number, 2);
+    expect(output.consensus.value).not.toBeCloseTo(calculateBodyFat(male).consensus?.value as number, 2);
+    expect(run([...maleArgs, '--settings', 'bad.json'], files)).toMatchObject({ code: 1, stderr: expect.stringContaining('bad.json must map method keys') });
+    expect(run([...maleArgs, '--settings', 'none.json'], files)).toMatchObject({ code: 1, stderr: 'Cannot read none.json.' });
+  });
+
+  it('calculates a CSV file in batch and reports the rows it could not use', () => {
+    const files = { 'clients.csv': 'name;sex;age;weight_kg;height_cm;neck_cm;waist_cm;hip_cm\nA;male;30;81;180;38;85;\nB;female;40;64;165;32;76;\n' };
+    const rows = JSON.parse(run(['--csv', 'clients.csv', '--format', 'json'], files).stdout);
+    expect(rows.map((r: { name: string; category: string | null }) => [r.name, r.category])).toEqual([['A', 'Average'], ['B', null]]);
+    expect(rows[1].issues).toEqual([{ field: 'hipCm', problem: 'missing' }]);
+    expect(run(['--csv', 'clients.csv', '--format', 'csv'], files).stdout.split('\n')[1]).toMatch(/^A,male,30,81,180,38,85,/);
+    expect(run(['--csv', 'missing.csv'])).toMatchObject({ code: 1, stderr: 'Cannot read missing.csv.' });
+  });
+});
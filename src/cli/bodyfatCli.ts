@@ -0,0 +1,196 @@
+import { en } from '../i18n/en';
+import { batchResultsToCsv, BatchRow, parseBatchCsv } from '../lib/batch';
+import { BodyFatResults, BodyMeasurements, calculateBodyFat, getBfCategory, getMethodDefinition, isMethodVisible, localizedText, MeasurementKey, MethodKey, MethodSettings, Sex, SkipReason } from '../lib/bodyFat';
+import { buildResultsExport } from '../lib/export';
+import { INPUT_LIMITS, isWithinLimits } from '../lib/inputLimits';
+import { inToCm, lbsToKg, UnitSystem } from '../lib/units';
+
+/****************************
+ * Command-line calculator
+ ***************************/
+/**
+ * Everything the `bodyfat` command does, free of Node APIs so it runs (and is tested) like the rest of `src`;
+ * `cli/bodyfat.ts` wires it to the process. Results come from the same `calculateBodyFat` and `getBfCategory`
+ * the wizard uses and batch files go through the coach-mode CSV reader. Method choices made in the app live in the
+ * browser, so the defaults apply unless a settings file is passed with `--settings`.
+ */
+export type CliIo = {
+  readFile: (path: string) => string;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+};
+
+type OutputFormat = 'table' | 'json' | 'csv';
+
+export const CLI_USAGE = `Usage:
+  bodyfat --sex male|female --age <years> --weight <w> --height <h> --neck <n> --waist <w> [--hip <h>] [options]
+  bodyfat --csv <file> [options]
+
+Options:
+  --units metric|imperial   Units of the measurements: kg and cm (default), or lb and in. Batch files are always metric.
+  --format table|json|csv   Output format (default: table). csv is only available with --csv.
+  --settings <file>         Method settings as JSON, e.g. {"RFM": {"enabled": false}, "BMI_BF": {"countsTowardAverage": false}}.
+                            Without it every method uses its default, so the consensus can differ from the web app
+                            when methods were switched off or left out of the average there.
+  --help                    Show this help.
+
+--hip is required for women. Batch files use the coach-mode columns:
+  name, sex, age, weight_kg, height_cm, neck_cm, waist_cm, hip_cm, skinfold_protocol, skinfold_<site>_mm`;
+
+const MEASUREMENT_FLAGS: Record<MeasurementKey, string> = { age: 'age', weightKg: 'weight', heightCm: 'height', neckCm: 'neck', waistCm: 'waist', hipCm: 'hip' };
+const VALUE_FLAGS = ['sex', 'units', 'format', 'csv', 'settings', ...Object.values(MEASUREMENT_FLAGS)];
+
+/** Bad input exits with 1, bad usage (unknown flags, missing values) with 2. */
+class CliError extends Error {
+  readonly exitCode: 1 | 2;
+
+  constructor(message: string, exitCode: 1 | 2 = 1) {
+    super(message);
+    this.exitCode = exitCode;
+  }
+}
+
+/** `--flag value` and `--flag=value`; `--help` is the only flag without a value. */
+const parseArgs = (args: readonly string[]): Record<string, string> => {
+  const options: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    const match = /^--([a-z]+)(?:=(.*))?$/.exec(args[i]);
+    if (!match) throw new CliError(`Unexpected argument "${args[i]}".`, 2);
+    const [, flag, inline] = match;
+    if (flag === 'help') { options.help = 'true'; continue; }
+    if (!VALUE_FLAGS.includes(flag)) throw new CliError(`Unknown option --${flag}.`, 2);
+    const value = inline ?? args[++i];
+    if (value === undefined) throw new CliError(`--${flag} needs a value.`, 2);
+    options[flag] = value;
+  }
+  return options;
+};
+
+const oneOf = <T extends string>(value: string | undefined, allowed: readonly T[], fallback: T, flag: string): T => {
+  if (value === undefined) return fallback;
+  if ((allowed as readonly string[]).includes(value)) return value as T;
+  throw new CliError(`--${flag} must be one of ${allowed.join(', ')}.`, 2);
+};
+
+/** Imperial values are converted the way the wizard converts them before anything is checked or calculated. */
+const TO_METRIC: Record<MeasurementKey, (v: number) => number> = { age: v => v, weightKg: lbsToKg, heightCm: inToCm, neckCm: inToCm, waistCm: inToCm, hipCm: inToCm };
+
+/** Measurements from the flags, in metric, checked against the same limits as the wizard's inputs. */
+const readMeasurements = (options: Record<string, string>, units: UnitSystem): BodyMeasurements => {
+  if (options.sex === undefined) throw new CliError('--sex is required.');
+  const sex = oneOf<Sex>(options.sex, ['male', 'female'], 'male', 'sex');
+  const values = {} as Record<MeasurementKey, number | null>;
+  const problems: string[] = [];
+  (Object.keys(MEASUREMENT_FLAGS) as MeasurementKey[]).forEach(key => {
+    const flag = MEASUREMENT_FLAGS[key];
+    const raw = options[flag];
+    values[key] = null;
+    if (raw === undefined) {
+      if (key !== 'hipCm' || sex === 'female') problems.push(`--${flag} is required.`);
+      return;
+    }
+    const n = Number(raw.replace(',', '.'));
+    if (raw.trim() === '' || isNaN(n)) { problems.push(`--${flag} must be a number.`); return; }
+    const metric = units === 'imperial' ? TO_METRIC[key](n) : n;
+    if (!isWithinLimits(metric, INPUT_LIMITS[key])) { problems.push(`--${flag} is out of range.`); return; }
+    values[key] = metric;
+  });
+  if (problems.length > 0) throw new CliError(problems.join('\n'));
+  const { age, weightKg, heightCm, neckCm, waistCm, hipCm } = values as Record<MeasurementKey, number>;
+  return { sex, age, weightKg, heightCm, neckCm, waistCm, hipCm: sex === 'female' ? hipCm : null };
+};
+
+const readInput = (io: CliIo, path: string): string => {
+  try {
+    return io.readFile(path);
+  } catch {
+    throw new CliError(`Cannot read ${path}.`);
+  }
+};
+
+const isFlagObject = (v: unknown): boolean => typeof v === 'object' && v !== null && !Array.isArray(v)
+  && Object.entries(v).every(([flag, value]) => (flag === 'enabled' || flag === 'countsTowardAverage') && typeof value === 'boolean');
+
+/** The same shape the app keeps per browser: method key → `{ enabled?, countsTowardAverage? }`. */
+const readSettings = (io: CliIo, path: string | undefined): MethodSettings => {
+  if (path === undefined) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readInput(io, path));
+  } catch (error) {
+    if (error instanceof CliError) throw error;
+    throw new CliError(`${path} is not valid JSON.`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed) || !Object.values(parsed).every(isFlagObject)) {
+    throw new CliError(`${path} must map method keys to {"enabled": true|false, "countsTowardAverage": true|false}.`);
+  }
+  return parsed as MethodSettings;
+};
+
+const methodLabel = (key: MethodKey): string => (en.methodNames as Partial<Record<MethodKey, string>>)[key] ?? localizedText(getMethodDefinition(key)?.labels?.name, 'en') ?? key;
+
+const SKIP_LABELS: Record<SkipReason, string> = { missingInput: 'missing input', nonPositiveInput: 'not applicable', waistNotAboveNeck: 'waist not above neck', disabled: 'disabled' };
+
+const fixed = (v: number | null | undefined, digits = 1): string => (v === null || v === undefined ? '-' : v.toFixed(digits));
+
+/** Plain aligned columns; the first row is the header. */
+const formatTable = (rows: string[][]): string => {
+  const widths = rows[0].map((_, i) => Math.max(...rows.map(row => row[i].length)));
+  const line = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+  return [line(rows[0]), widths.map(w => '-'.repeat(w)).join('  '), ...rows.slice(1).map(line)].join('\n');
+};
+
+const singleResultTable = (results: BodyFatResults, category: string): string => {
+  const methods = Object.values(results.methods).filter(isMethodVisible);
+  const table = formatTable([
+    ['Method', 'Body fat %', '± SE', 'Note'],
+    ...methods.map(r => [methodLabel(r.key), fixed(r.value), fixed(r.standardError), r.skippedReason ? SKIP_LABELS[r.skippedReason] : '']),
+  ]);
+  const consensus = results.consensus;
+  return [
+    table,
+    '',
+    `BMI:       ${fixed(results.bmi)}`,
+    `Consensus: ${consensus ? `${fixed(consensus.value)}% (95% range ${fixed(consensus.lower)}–${fixed(consensus.upper)}%)` : '-'}`,
+    `Category:  ${category}`,
+  ].join('\n');
+};
+
+const batchTable = (rows: BatchRow[]): string => formatTable([
+  ['Line', 'Name', 'Sex', 'BMI', 'Body fat %', 'Category', 'Issues'],
+  ...rows.map(row => [String(row.line), row.name, row.inputs?.sex ?? '', fixed(row.results?.bmi), fixed(row.results?.consensus?.value), row.results ? row.category : '', row.issues.map(issue => `${issue.field}:${issue.problem}`).join(' ')]),
+]);
+
+/** Runs the command and returns its exit code. Rows of a batch file with problems are reported in the output, not as a failure. */
+export const runCli = (args: readonly string[], io: CliIo): number => {
+  try {
+    const options = parseArgs(args);
+    if (options.help || args.length === 0) {
+      io.stdout(CLI_USAGE);
+      return options.help ? 0 : 2;
+    }
+    const units = oneOf<UnitSystem>(options.units, ['metric', 'imperial'], 'metric', 'units');
+    const format = oneOf<OutputFormat>(options.format, ['table', 'json', 'csv'], 'table', 'format');
+    const settings = readSettings(io, options.settings);
+
+    if (options.csv !== undefined) {
+      const { rows, missingColumns } = parseBatchCsv(readInput(io, options.csv), settings);
+      if (missingColumns.length > 0) throw new CliError(`Missing columns: ${missingColumns.join(', ')}.`);
+      if (format === 'csv') io.stdout(batchResultsToCsv(rows));
+      else if (format === 'json') io.stdout(JSON.stringify(rows.map(row => ({ line: row.line, name: row.name, category: row.results ? row.category : null, issues: row.issues, result: row.inputs && row.results ? buildResultsExport(row.inputs, row.results, 'metric') : null })), null, 2));
+      else io.stdout(batchTable(rows));
+      return 0;
+    }
+
+    if (format === 'csv') throw new CliError('--format csv is only available with --csv.');
+    const measurements = readMeasurements(options, units);
+    const results = calculateBodyFat(measurements, settings);
+    const category = getBfCategory(results.consensus?.value ?? null, measurements.sex);
+    io.stdout(format === 'json' ? JSON.stringify({ ...buildResultsExport(measurements, results, units), category }, null, 2) : singleResultTable(results, category));
+    return 0;
+  } catch (error) {
+    if (!(error instanceof CliError)) throw error;
+    io.stderr(error.message);
+    return error.exitCode;
+  }
+};
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { BODY_FAT_NORMS, getAgeNorms, NORM_POPULATIONS, NORM_RANGES, NormPopulation, NormRange, Sex } from '../../lib/bodyFat';
+import { useLocale } from '../../hooks/useLocale';
+import { PALETTE } from './palette';
+
+interface AgeNormsPanelProps {
+  sex: Sex;
+  age: number;
+  bfPercentage: number;
+}
+
+const RANGE_COLORS: Record<NormRange, string> = { underfat: PALETTE.WARNING_COLOR, healthy: PALETTE.SUCCESS_COLOR, overweight: PALETTE.WARNING_COLOR, obese: PALETTE.ERROR_COLOR };
+/** Percentiles marked on the scale; the rest of the table only feeds the interpolation. */
+const MARKED_PERCENTILES = [10, 50, 90];
+
+/** The consensus BF% against age-banded healthy ranges and the percentile distribution for the user's sex and age. */
+const AgeNormsPanel: React.FC<AgeNormsPanelProps> = ({ sex, age, bfPercentage }) => {
+  const { t, formatValue } = useLocale();
+  const [population, setPopulation] = useState<NormPopulation>('general');
+  const norms = getAgeNorms(bfPercentage, sex, age, population);
+  const { rangeBand, range, distribution } = norms;
+
+  const bandLabel = (band: { minAge: number; maxAge: number }) => `${band.minAge}–${band.maxAge}`;
+  const rangeGroup = t.normGroup(sex, bandLabel(rangeBand));
+  // Scale wide enough for the obese bound, the whole distribution and the user's own value.
+  const scaleMax = Math.ceil(Math.max(rangeBand.obeseFrom + 10, bfPercentage + 5, ...(distribution?.band.values ?? [])) / 5) * 5;
+  const position = (bf: number) => `${(Math.min(Math.max(bf, 0), scaleMax) / scaleMax) * 100}%`;
+  const segments: { range: NormRange; from: number; to: number }[] = [
+    { range: 'underfat', from: 0, to: rangeBand.healthyFrom },
+    { range: 'healthy', from: rangeBand.healthyFrom, to: rangeBand.overweightFrom },
+    { range: 'overweight', from: rangeBand.overweightFrom, to: rangeBand.obeseFrom },
+    { range: 'obese', from: rangeBand.obeseFrom, to: scaleMax },
+  ];
+
+  const percentile = distribution?.percentile;
+  const distributionGroup = distribution ? t.normGroup(sex, bandLabel(distribution.band)) : '';
+  const percentileText = !percentile ? null
+    : percentile.tail === 'below' ? t.normPercentileTailBelow(formatValue(100 - percentile.percentile, 0), distributionGroup)
+    : percentile.tail === 'above' ? t.normPercentileTailAbove(formatValue(percentile.percentile, 0), distributionGroup)
+    : t.normPercentileText(formatValue(100 - percentile.percentile, 0), distributionGroup);
+  const sources = [BODY_FAT_NORMS.populations[population].rangesSource, distribution && BODY_FAT_NORMS.populations[distribution.population].distributionSource].filter((s): s is string => !!s);
+
+  return (
+    <section className="mb-10 sm:mb-12">
+      <h2 className="text-2xl font-bold mb-2 text-center" style={{ color: PALETTE.ACCENT }}>{t.normsTitle}</h2>
+      <p className="text-center text-sm mb-6 sm:mb-8 max-w-2xl mx-auto" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.normsIntro}</p>
+
+      <div className="max-w-sm mx-auto mb-6">
+        <label htmlFor="normPopulationSelect" className="text-sm font-semibold mb-1 block" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.normPopulationLabel}</label>
+        <select id="normPopulationSelect" value={population} onChange={e => setPopulation(e.target.value as NormPopulation)} className={`px-3 py-2 rounded-lg outline-none text-fg border w-full border-line`} style={{ background: PALETTE.BACKGROUND }}>
+          {NORM_POPULATIONS.map(key => <option key={key} value={key}>{t.normPopulations[key]}</option>)}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-5 mb-6">
+        <div className="p-4 rounded-lg shadow border" style={{ background: PALETTE.CARD_BACKGROUND, borderColor: PALETTE.BORDER_COLOR, borderLeft: `4px solid ${RANGE_COLORS[range]}` }}>
+          <h3 className="text-sm font-semibold mb-2" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.normRangeTitle}</h3>
+          <p className="text-xl font-bold mb-2" style={{ color: RANGE_COLORS[range] }}>{t.normRanges[range]}</p>
+          <p className="text-xs" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.normHealthyRangeText(rangeGroup, formatValue(rangeBand.healthyFrom, 0), formatValue(rangeBand.overweightFrom, 0))}</p>
+        </div>
+        {percentile && (
+          <div className="p-4 rounded-lg shadow border" style={{ background: PALETTE.CARD_BACKGROUND, borderColor: PALETTE.BORDER_COLOR, borderLeft: `4px solid ${PALETTE.ACCENT}` }}>
+            <h3 className="text-sm font-semibold mb-2" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.normPercentileTitle}</h3>
+            <p className="text-xl font-bold mb-2" style={{ color: PALETTE.ACCENT }}>{percentile.tail === 'below' ? '< ' : percentile.tail === 'above' ? '> ' : ''}{t.normPercentileValue(formatValue(percentile.percentile, 0))}</p>
+            <p className="text-xs" style={{ color: PALETTE.TEXT_SECONDARY }}>{percentileText}</p>
+          </div>
+        )}
+      </div>
+
+      <div className="max-w-2xl mx-auto p-4 rounded-lg border" style={{ background: PALETTE.CARD_BACKGROUND, borderColor: PALETTE.BORDER_COLOR }}>
+        <div role="img" aria-label={t.normChartLabel(formatValue(bfPercentage), t.normRanges[range], rangeGroup)} className="relative pt-8 pb-10">
+          {/* Marker for the user's value */}
+          <div className="absolute top-0 -translate-x-1/2 flex flex-col items-center text-xs font-semibold" style={{ left: position(bfPercentage), color: PALETTE.TEXT_PRIMARY }}>
+            <span>{t.normYouMarker} · {formatValue(bfPercentage)}%</span>
+            <span aria-hidden="true" className="w-0 h-0 border-x-4 border-x-transparent border-t-[6px]" style={{ borderTopColor: PALETTE.TEXT_PRIMARY }} />
+          </div>
+          <div className="flex h-4 rounded overflow-hidden">
+            {segments.map(s => <div key={s.range} title={t.normRanges[s.range]} style={{ width: `${((s.to - s.from) / scaleMax) * 100}%`, background: RANGE_COLORS[s.range], opacity: s.range === range ? 1 : 0.45 }} />)}
+          </div>
+          {distribution && BODY_FAT_NORMS.percentiles.map((p, i) => MARKED_PERCENTILES.includes(p) && (
+            <div key={p} className="absolute -translate-x-1/2 flex flex-col items-center text-[10px]" style={{ left: position(distribution.band.values[i]), top: '3rem', color: PALETTE.TEXT_SECONDARY }}>
+              <span aria-hidden="true" className="w-px h-2" style={{ background: PALETTE.TEXT_SECONDARY }} />
+              <span>P{p} · {formatValue(distribution.band.values[i])}%</span>
+            </div>
+          ))}
+        </div>
+        <ul className="flex flex-wrap justify-center gap-x-4 gap-y-1 text-xs" style={{ color: PALETTE.TEXT_SECONDARY }}>
+          {NORM_RANGES.map(key => (
+            <li key={key} className="inline-flex items-center gap-1.5">
+              <span aria-hidden="true" className="inline-block h-2.5 w-2.5 rounded-full" style={{ background: RANGE_COLORS[key] }} />{t.normRanges[key]}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {norms.outsideAgeRange && <p className="text-xs text-center mt-4" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.normClosestBandNote}</p>}
+      {distribution && distribution.population !== population && <p className="text-xs text-center mt-2" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.normDistributionFallbackNote}</p>}
+      <p className="text-[10px] text-center mt-4 max-w-2xl mx-auto" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.normSourcesLabel}: {sources.join(' · ')}</p>
+    </section>
+  );
+};
+
+export default AgeNormsPanel;
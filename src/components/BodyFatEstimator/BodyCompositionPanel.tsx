@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { calculateBodyComposition, calculateTargetWeight, getBfCategory, getNextLeanerCategory, Sex, weeksToTarget } from '../../lib/bodyFat';
+import { kgToLbs, lbsToKg, UnitSystem } from '../../lib/units';
+import { useLocale } from '../../hooks/useLocale';
+import { PALETTE } from './palette';
+
+interface BodyCompositionPanelProps {
+  sex: Sex;
+  weightKg: number;
+  heightCm: number;
+  bfPercentage: number;
+  unitSystem: UnitSystem;
+}
+
+const WEEKLY_RATES: Record<UnitSystem, number[]> = { metric: [0.25, 0.5, 0.75, 1], imperial: [0.5, 1, 1.5, 2] };
+
+const BodyCompositionPanel: React.FC<BodyCompositionPanelProps> = ({ sex, weightKg, heightCm, bfPercentage, unitSystem }) => {
+  const { t, formatValue, parseState, formatForInput } = useLocale();
+  const isMetric = unitSystem === 'metric';
+  const massUnit = isMetric ? t.unitKg : t.unitLbs;
+  const toDisplayMass = (kg: number) => (isMetric ? kg : kgToLbs(kg));
+
+  const composition = calculateBodyComposition(weightKg, heightCm, bfPercentage);
+  const nextCategory = getNextLeanerCategory(bfPercentage, sex);
+  const [targetStr, setTargetStr] = useState<string>(() => formatForInput(nextCategory?.bfPercentage ?? Math.max(bfPercentage - 2, 3)));
+  const [weeklyRate, setWeeklyRate] = useState<number>(WEEKLY_RATES[unitSystem][1]);
+
+  if (!composition) return null;
+
+  const target = parseState(targetStr);
+  const targetError = target !== null && (target < 3 || target > 60) ? t.errorRange(formatForInput(3, 0), formatForInput(60, 0)) : '';
+  const targetWeightKg = target !== null && !targetError ? calculateTargetWeight(composition.leanMassKg, target) : null;
+  const weeklyRateKg = isMetric ? weeklyRate : lbsToKg(weeklyRate);
+  const weeks = targetWeightKg !== null ? weeksToTarget(weightKg, targetWeightKg, weeklyRateKg) : null;
+  const nextCategoryWeightKg = nextCategory ? calculateTargetWeight(composition.leanMassKg, nextCategory.bfPercentage) : null;
+
+  const cards = [
+    { key: 'fat', title: t.fatMassTitle, tooltip: t.fatMassTooltip, value: `${formatValue(toDisplayMass(composition.fatMassKg))} ${massUnit}` },
+    { key: 'lean', title: t.leanMassTitle, tooltip: t.leanMassTooltip, value: `${formatValue(toDisplayMass(composition.leanMassKg))} ${massUnit}` },
+    { key: 'ffmi', title: t.ffmiTitle, tooltip: t.ffmiTooltip, value: formatValue(composition.ffmi) },
+    { key: 'nffmi', title: t.normalizedFfmiTitle, tooltip: t.normalizedFfmiTooltip, value: formatValue(composition.normalizedFfmi) },
+  ];
+
+  return (
+    <section className="mb-10 sm:mb-12">
+      <h2 className="text-2xl font-bold mb-6 sm:mb-8 text-center" style={{ color: PALETTE.ACCENT }}>{t.compositionTitle}</h2>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 sm:gap-5 mb-6">
+        {cards.map(card => (
+          <div key={card.key} className={`p-4 rounded-lg shadow text-center border border-line`} style={{ background: PALETTE.CARD_BACKGROUND }} title={card.tooltip}>
+            <h3 className="text-xs sm:text-sm font-semibold mb-2 leading-tight flex flex-col justify-center h-10" style={{ color: PALETTE.TEXT_SECONDARY }}>{card.title}</h3>
+            <p className="text-lg sm:text-xl font-bold" style={{ color: PALETTE.ACCENT }}>{card.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-center text-sm mb-8" style={{ color: PALETTE.TEXT_SECONDARY }}>
+        {nextCategory && nextCategoryWeightKg !== null
+          ? t.nextCategoryText(t.categoryNames[nextCategory.category], formatValue(nextCategory.bfPercentage), `${formatValue(toDisplayMass(weightKg - nextCategoryWeightKg))} ${massUnit}`)
+          : t.leanestCategoryText}
+      </p>
+
+      <div className="max-w-2xl mx-auto p-6 rounded-lg border" style={{ background: PALETTE.CARD_BACKGROUND, borderColor: PALETTE.BORDER_COLOR }}>
+        <h3 className="text-xl font-semibold mb-4 text-center" style={{ color: PALETTE.ACCENT }}>{t.plannerTitle}</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+          <div>
+            <label htmlFor="targetBfInput" className="text-sm font-semibold mb-1 block" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.plannerTargetLabel}</label>
+            <input id="targetBfInput" type="text" inputMode="decimal" value={targetStr} onChange={e => setTargetStr(e.target.value)} className={`px-3 py-2 rounded-lg outline-none text-fg border w-full ${targetError ? `border-error` : `border-line focus:border-accent`}`} style={{ background: PALETTE.BACKGROUND }} />
+            {targetError && <p className="text-sm mt-1" style={{ color: PALETTE.ERROR_COLOR }}>{targetError}</p>}
+          </div>
+          <div>
+            <label htmlFor="weeklyRateSelect" className="text-sm font-semibold mb-1 block" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.plannerRateLabel}</label>
+            <select id="weeklyRateSelect" value={weeklyRate} onChange={e => setWeeklyRate(Number(e.target.value))} className={`px-3 py-2 rounded-lg outline-none text-fg border w-full border-line`} style={{ background: PALETTE.BACKGROUND }}>
+              {WEEKLY_RATES[unitSystem].map(rate => <option key={rate} value={rate}>{`${formatValue(rate, 2)} ${massUnit}${t.perWeekSuffix}`}</option>)}
+            </select>
+          </div>
+        </div>
+        {targetWeightKg !== null && target !== null && (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-center">
+            <div>
+              <p className="text-xs" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.plannerTargetWeight}</p>
+              <p className="text-lg font-bold" style={{ color: PALETTE.ACCENT }}>{formatValue(toDisplayMass(targetWeightKg))} {massUnit}</p>
+            </div>
+            <div>
+              <p className="text-xs" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.plannerChange}</p>
+              <p className="text-lg font-bold" style={{ color: PALETTE.TEXT_PRIMARY }}>{targetWeightKg < weightKg ? '−' : '+'}{formatValue(toDisplayMass(Math.abs(weightKg - targetWeightKg)))} {massUnit}</p>
+            </div>
+            <div>
+              <p className="text-xs" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.plannerTimeline}</p>
+              <p className="text-lg font-bold" style={{ color: PALETTE.TEXT_PRIMARY }}>{weeks !== null && targetWeightKg < weightKg ? t.plannerWeeks(weeks) : '-'}</p>
+            </div>
+          </div>
+        )}
+        {targetWeightKg !== null && target !== null && (
+          <p className="text-xs text-center mt-4" style={{ color: PALETTE.TEXT_SECONDARY }}>
+            {target >= bfPercentage ? t.plannerTargetNotLower : t.plannerTargetCategory(t.categoryNames[getBfCategory(target, sex)])}
+          </p>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default BodyCompositionPanel;
@@ -0,0 +1,407 @@
+import { afterEach, beforeEach, describe, expect, it, onTestFinished, vi } from 'vitest';
+import { act, cleanup, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import BodyFatEstimatorWizard from './BodyFatEstimatorWizard';
+import LocaleProvider from '../../i18n/LocaleProvider';
+import { LOCALE_STORAGE_KEY } from '../../i18n';
+import { en } from '../../i18n/en';
+import { createHistoryEntry, HISTORY_STORAGE_KEY } from '../../lib/history';
+import { BodyMeasurements, calculateBodyFat } from '../../lib/bodyFat';
+import { SKIP_LOADING_STORAGE_KEY } from '../../hooks/useSkipLoading';
+import { WIZARD_DRAFT_STORAGE_KEY } from '../../lib/wizardDraft';
+import { METHOD_SETTINGS_STORAGE_KEY } from '../../hooks/useMethodSettings';
+import { THEME_STORAGE_KEY } from '../../lib/theme';
+import { analytics, noopSink, TrackedEvent } from '../../lib/analytics';
+import { BRAND } from '../../config/brand';
+
+/** Step changes fade out for 300 ms; the loading step runs for 5 s; method cards appear every 250 ms. */
+const TRANSITION_MS = 300;
+const LOADING_MS = 5000;
+const REVEAL_MS = 250;
+
+const renderWizard = () => {
+  const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+  render(<LocaleProvider><BodyFatEstimatorWizard /></LocaleProvider>);
+  return user;
+};
+
+const settle = (ms = TRANSITION_MS) => act(() => { vi.advanceTimersByTime(ms); });
+
+const next = async (user: ReturnType<typeof userEvent.setup>) => {
+  await user.click(screen.getByRole('button', { name: new RegExp(en.nextButton) }));
+  settle();
+};
+
+const fillAndContinue = async (user: ReturnType<typeof userEvent.setup>, title: string, value: string) => {
+  expect(screen.getByRole('heading', { name: title })).toBeInTheDocument();
+  await user.type(screen.getByRole('textbox'), value);
+  await next(user);
+};
+
+const fillMaleMeasurements = async (user: ReturnType<typeof userEvent.setup>) => {
+  await user.click(screen.getByRole('button', { name: new RegExp(en.startButton) }));
+  settle();
+  await user.click(screen.getByRole('button', { name: en.genderMale }));
+  await next(user);
+  await fillAndContinue(user, en.step2Title, '30');
+  await fillAndContinue(user, en.step3Title, '81');
+  await fillAndContinue(user, en.step4Title, '180');
+  await fillAndContinue(user, en.step5Title, '38');
+  await fillAndContinue(user, en.step6Title, '85');
+};
+
+/** Marks the user as returning: one calculation is already in the history. */
+const saveEarlierCalculation = () => {
+  const measurements: BodyMeasurements = { sex: 'male', age: 30, weightKg: 81, heightCm: 180, neckCm: 38, waistCm: 85 };
+  window.localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify([createHistoryEntry(measurements, calculateBodyFat(measurements), 'Average', 'metric', new Date('2024-01-01'))]));
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ shouldAdvanceTime: true });
+  window.localStorage.setItem(LOCALE_STORAGE_KEY, 'en');
+  window.history.replaceState(null, '', '/');
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('BodyFatEstimatorWizard', () => {
+  it('walks the male path (no hip step) to the results and saves them', async () => {
+    const user = renderWizard();
+    await user.click(screen.getByRole('button', { name: new RegExp(en.startButton) }));
+    settle();
+
+    await user.click(screen.getByText(en.genderMale));
+    await next(user);
+    await fillAndContinue(user, en.step2Title, '30');
+    await fillAndContinue(user, en.step3Title, '81');
+    await fillAndContinue(user, en.step4Title, '180');
+    await fillAndContinue(user, en.step5Title, '38');
+    await fillAndContinue(user, en.step6Title, '85');
+
+    expect(screen.getByRole('heading', { name: en.step8Title })).toBeInTheDocument();
+    await next(user);
+    settle(LOADING_MS + TRANSITION_MS);
+
+    expect(screen.getByRole('heading', { name: en.resultsTitle })).toBeInTheDocument();
+    expect(screen.getByText(en.methodNames.NAVY)).toBeInTheDocument();
+    expect(screen.queryByText(en.methodNames.SKF_SIRI)).not.toBeInTheDocument();
+    expect(screen.getByText(en.consensusBfTitle)).toBeInTheDocument();
+
+    const saved = JSON.parse(window.localStorage.getItem(HISTORY_STORAGE_KEY) ?? '[]');
+    expect(saved).toHaveLength(1);
+    expect(saved[0].inputs).toMatchObject({ sex: 'male', age: 30, weightKg: 81, heightCm: 180, neckCm: 38, waistCm: 85 });
+  });
+
+  it('asks female users for the hip circumference', async () => {
+    const user = renderWizard();
+    await user.click(screen.getByRole('button', { name: new RegExp(en.startButton) }));
+    settle();
+
+    await user.click(screen.getByText(en.genderFemale));
+    await next(user);
+    await fillAndContinue(user, en.step2Title, '40');
+    await fillAndContinue(user, en.step3Title, '64');
+    await fillAndContinue(user, en.step4Title, '165');
+    await fillAndContinue(user, en.step5Title, '32');
+    await fillAndContinue(user, en.step6Title, '76');
+    await fillAndContinue(user, en.step7Title, '100');
+
+    await next(user);
+    settle(LOADING_MS + TRANSITION_MS);
+
+    expect(screen.getByRole('heading', { name: en.resultsTitle })).toBeInTheDocument();
+    const saved = JSON.parse(window.localStorage.getItem(HISTORY_STORAGE_KEY) ?? '[]');
+    expect(saved[0].inputs).toMatchObject({ sex: 'female', hipCm: 100 });
+  });
+
+  it('blocks the next step and shows the range error for out-of-range input', async () => {
+    const user = renderWizard();
+    await user.click(screen.getByRole('button', { name: new RegExp(en.startButton) }));
+    settle();
+    await user.click(screen.getByText(en.genderMale));
+    await next(user);
+
+    await user.type(screen.getByRole('textbox'), '150');
+    await next(user);
+
+    expect(screen.getByRole('heading', { name: en.step2Title })).toBeInTheDocument();
+    expect(screen.getAllByText(en.errorRange('15', '100')).length).toBeGreaterThan(0);
+  });
+
+  it('reveals the method results one by one before the consensus and category', async () => {
+    const user = renderWizard();
+    await fillMaleMeasurements(user);
+    await next(user);
+    settle(LOADING_MS + TRANSITION_MS);
+
+    expect(screen.queryByText(new RegExp(en.categoryResultTitle))).not.toBeInTheDocument();
+    for (let i = 0; i < 10; i++) settle(REVEAL_MS);
+    expect(screen.getByText(new RegExp(en.categoryResultTitle))).toBeInTheDocument();
+    expect(screen.getByText(/^Results ready\./)).toHaveAttribute('aria-live', 'polite');
+    expect(screen.getByRole('heading', { name: en.healthRiskTitle })).toBeInTheDocument();
+    expect(screen.getByText(en.healthIndicatorNeedsHip)).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: en.normsTitle })).toBeInTheDocument();
+    expect(screen.getByRole('combobox', { name: en.normPopulationLabel })).toHaveValue('general');
+    expect(screen.getByRole('heading', { name: en.nutritionTitle })).toBeInTheDocument();
+    expect(screen.getByRole('combobox', { name: en.activityLabel })).toHaveValue('moderate');
+  });
+
+  it('lets the loading step be skipped', async () => {
+    const user = renderWizard();
+    await fillMaleMeasurements(user);
+    await next(user);
+
+    expect(screen.getByRole('progressbar')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: new RegExp(en.skipLoadingButton) }));
+    settle();
+    expect(screen.getByRole('heading', { name: en.resultsTitle })).toBeInTheDocument();
+  });
+
+  it('skips the loading step entirely for returning users', async () => {
+    saveEarlierCalculation();
+    const user = renderWizard();
+    await fillMaleMeasurements(user);
+    await next(user);
+
+    expect(screen.queryByRole('progressbar')).not.toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: en.resultsTitle })).toBeInTheDocument();
+    expect(screen.getByRole('checkbox', { name: en.skipLoadingPreference })).toBeChecked();
+  });
+
+  it('respects an explicit choice to keep the loading step', async () => {
+    saveEarlierCalculation();
+    window.localStorage.setItem(SKIP_LOADING_STORAGE_KEY, 'false');
+    const user = renderWizard();
+    await fillMaleMeasurements(user);
+    await next(user);
+
+    expect(screen.getByRole('progressbar')).toBeInTheDocument();
+  });
+
+  it('selects the sex with the keyboard', async () => {
+    const user = renderWizard();
+    await user.click(screen.getByRole('button', { name: new RegExp(en.startButton) }));
+    settle();
+    settle(350);
+
+    expect(screen.getByRole('button', { name: en.genderMale })).toHaveFocus();
+    await user.keyboard('{Tab}{Enter}');
+    expect(screen.getByRole('button', { name: en.genderFemale })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('button', { name: en.genderMale })).toHaveAttribute('aria-pressed', 'false');
+  });
+
+  it('warns when the waist is not larger than the neck and continues on a second press', async () => {
+    const user = renderWizard();
+    await user.click(screen.getByRole('button', { name: new RegExp(en.startButton) }));
+    settle();
+    await user.click(screen.getByRole('button', { name: en.genderMale }));
+    await next(user);
+    await fillAndContinue(user, en.step2Title, '30');
+    await fillAndContinue(user, en.step3Title, '81');
+    await fillAndContinue(user, en.step4Title, '180');
+    await fillAndContinue(user, en.step5Title, '45');
+
+    expect(screen.getByText(en.measurementGuideTitle)).toBeInTheDocument();
+    await user.type(screen.getByRole('textbox'), '44');
+    await next(user);
+    expect(screen.getByRole('heading', { name: en.step6Title })).toBeInTheDocument();
+    expect(screen.getByRole('alert')).toHaveTextContent(en.plausibilityWarnings.waistNotAboveNeck);
+
+    await next(user);
+    expect(screen.getByRole('heading', { name: en.step8Title })).toBeInTheDocument();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('adds the visual estimate as its own method when a silhouette is picked', async () => {
+    const user = renderWizard();
+    await fillMaleMeasurements(user);
+
+    await user.click(screen.getByRole('button', { name: en.visualLevelLabel(18, 22) }));
+    await user.click(screen.getByRole('checkbox', { name: en.visualCountsToggle }));
+    await next(user);
+    settle(LOADING_MS + TRANSITION_MS);
+
+    expect(screen.getByText(en.methodNames.VISUAL)).toBeInTheDocument();
+    const saved = JSON.parse(window.localStorage.getItem(HISTORY_STORAGE_KEY) ?? '[]');
+    expect(saved[0].inputs.visual).toEqual({ level: 3, countsTowardAverage: false });
+    expect(saved[0].methods.VISUAL).toBe(20);
+  });
+
+  it('gives a result from the silhouette alone without a tape measure', async () => {
+    const user = renderWizard();
+    await user.click(screen.getByRole('button', { name: new RegExp(en.startButton) }));
+    settle();
+    await user.click(screen.getByRole('button', { name: en.genderFemale }));
+    await next(user);
+    await fillAndContinue(user, en.step2Title, '30');
+    await fillAndContinue(user, en.step3Title, '60');
+    await fillAndContinue(user, en.step4Title, '165');
+    await user.click(screen.getByRole('button', { name: en.noTapeButton }));
+    settle();
+
+    expect(screen.getByRole('heading', { name: en.step8Title })).toBeInTheDocument();
+    expect(screen.getByText(en.noTapeNotice)).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: new RegExp(en.nextButton) }));
+    expect(screen.getByRole('alert')).toHaveTextContent(en.errorVisualRequired);
+
+    await user.click(screen.getByRole('button', { name: en.visualLevelLabel(25, 29) }));
+    await next(user);
+    settle(LOADING_MS + TRANSITION_MS);
+
+    expect(screen.getByText(en.methodNames.VISUAL)).toBeInTheDocument();
+    const saved = JSON.parse(window.localStorage.getItem(HISTORY_STORAGE_KEY) ?? '[]');
+    expect(saved[0].inputs).toMatchObject({ neckCm: null, waistCm: null, hipCm: null, visual: { countsTowardAverage: true } });
+    expect(saved[0].methods).toMatchObject({ VISUAL: 27, NAVY: null });
+  });
+
+  it('resumes an interrupted session on the same step with the typed values', async () => {
+    const user = renderWizard();
+    await user.click(screen.getByRole('button', { name: new RegExp(en.startButton) }));
+    settle();
+    await user.click(screen.getByRole('button', { name: en.genderMale }));
+    await next(user);
+    await fillAndContinue(user, en.step2Title, '30');
+    await fillAndContinue(user, en.step3Title, '81');
+    cleanup();
+
+    renderWizard();
+    expect(screen.getByRole('heading', { name: en.step4Title })).toBeInTheDocument();
+    expect(screen.getByText(en.draftResumedText)).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: new RegExp(en.backButton) }));
+    settle();
+    expect(screen.getByRole('textbox')).toHaveValue('81');
+  });
+
+  it('forgets the session once the results are reached', async () => {
+    const user = renderWizard();
+    await fillMaleMeasurements(user);
+    expect(window.localStorage.getItem(WIZARD_DRAFT_STORAGE_KEY)).not.toBeNull();
+    await next(user);
+    settle(LOADING_MS + TRANSITION_MS);
+    expect(window.localStorage.getItem(WIZARD_DRAFT_STORAGE_KEY)).toBeNull();
+  });
+
+  it('leaves out methods switched off in the method settings', async () => {
+    window.localStorage.setItem(METHOD_SETTINGS_STORAGE_KEY, JSON.stringify({ NAVY: { enabled: false } }));
+    const user = renderWizard();
+    await fillMaleMeasurements(user);
+    await next(user);
+    settle(LOADING_MS + TRANSITION_MS);
+
+    expect(screen.getByText(en.methodNames.RFM)).toBeInTheDocument();
+    expect(screen.queryByText(en.methodNames.NAVY)).not.toBeInTheDocument();
+  });
+
+  it('switches a method off from the method settings panel', async () => {
+    const user = renderWizard();
+    await user.click(screen.getByRole('button', { name: en.methodSettingsButton }));
+    settle();
+
+    await user.click(screen.getByRole('checkbox', { name: `${en.methodNames.RFM}: ${en.methodEnabledLabel}` }));
+    expect(screen.getByRole('checkbox', { name: `${en.methodNames.RFM}: ${en.methodCountsLabel}` })).toBeDisabled();
+    expect(JSON.parse(window.localStorage.getItem(METHOD_SETTINGS_STORAGE_KEY) ?? '{}')).toEqual({ RFM: { enabled: false } });
+  });
+
+  it('links to the external waitlist form when the in-app sign-up is turned off', async () => {
+    const { waitlistEndpoint } = BRAND;
+    BRAND.waitlistEndpoint = undefined;
+    BRAND.links.waitlist = 'https://example.com/waitlist';
+    onTestFinished(() => { BRAND.waitlistEndpoint = waitlistEndpoint; delete BRAND.links.waitlist; });
+    const user = renderWizard();
+    await fillMaleMeasurements(user);
+    await next(user);
+    await user.click(screen.getByRole('button', { name: new RegExp(en.skipLoadingButton) }));
+    settle(TRANSITION_MS + REVEAL_MS * 20);
+
+    expect(screen.getByRole('link', { name: new RegExp(en.ctaButton) })).toHaveAttribute('href', 'https://example.com/waitlist');
+    expect(screen.queryByLabelText(en.waitlistEmailLabel)).not.toBeInTheDocument();
+  });
+
+  it('signs up for the waitlist from the results with the calculation attached', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 201 }));
+    vi.stubGlobal('fetch', fetchMock);
+    expect(BRAND.waitlistEndpoint).toBe('/api/waitlist');
+    const user = renderWizard();
+    await fillMaleMeasurements(user);
+    await next(user);
+    await user.click(screen.getByRole('button', { name: new RegExp(en.skipLoadingButton) }));
+    settle(TRANSITION_MS + REVEAL_MS * 20);
+
+    await user.click(screen.getByRole('button', { name: new RegExp(en.ctaButton) }));
+    expect(screen.getByText(en.waitlistConsentRequired)).toBeInTheDocument();
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await user.type(screen.getByLabelText(en.waitlistNameLabel), 'Ada');
+    await user.type(screen.getByLabelText(en.waitlistEmailLabel), 'ada@example.com');
+    await user.click(screen.getByLabelText(en.waitlistConsentLabel));
+    await user.click(screen.getByRole('button', { name: new RegExp(en.ctaButton) }));
+
+    expect(await screen.findByText(en.waitlistSuccessTitle)).toBeInTheDocument();
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body).toMatchObject({ name: 'Ada', email: 'ada@example.com', consent: true, category: 'Average', results: { inputs: { waistCm: 85 } } });
+  });
+
+  it('compares two saved measurements with the category transition and per-method changes', async () => {
+    const january: BodyMeasurements = { sex: 'male', age: 30, weightKg: 90, heightCm: 180, neckCm: 38, waistCm: 100 };
+    const april: BodyMeasurements = { ...january, weightKg: 84, waistCm: 88 };
+    const entries = [createHistoryEntry(january, calculateBodyFat(january), 'Obese', 'metric', new Date('2024-01-10')), createHistoryEntry(april, calculateBodyFat(april), 'Overweight', 'metric', new Date('2024-04-10'))];
+    window.localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(entries));
+    const user = renderWizard();
+    await user.click(screen.getByRole('button', { name: en.compareButton }));
+    settle();
+
+    expect(screen.getByText(en.compareNeedsBoth)).toBeInTheDocument();
+    await user.selectOptions(screen.getAllByRole('combobox', { name: en.compareLoadLabel })[0], entries[0].id);
+    // The "before" side now shows the picked entry, leaving only the "after" picker.
+    await user.selectOptions(screen.getByRole('combobox', { name: en.compareLoadLabel }), entries[1].id);
+
+    expect(screen.getByText(en.compareCategoryLeaner)).toBeInTheDocument();
+    expect(screen.getByRole('rowheader', { name: en.methodNames.NAVY })).toBeInTheDocument();
+    expect(screen.getByText(`-6.0 ${en.unitKg}`)).toBeInTheDocument();
+  });
+
+  it('reports step views, settled input errors and the completed calculation to analytics, without measurements', async () => {
+    const events: TrackedEvent[] = [];
+    analytics.configure({ send: event => { events.push(event); } });
+    analytics.setConsent({ usage: true, measurements: false });
+    try {
+      const user = renderWizard();
+      await user.click(screen.getByRole('button', { name: new RegExp(en.startButton) }));
+      settle();
+      await user.click(screen.getByRole('button', { name: en.genderMale }));
+      await next(user);
+      await user.type(screen.getByRole('textbox'), '150');
+      settle(1000);
+      await user.clear(screen.getByRole('textbox'));
+      await fillAndContinue(user, en.step2Title, '30');
+      await fillAndContinue(user, en.step3Title, '81');
+      await fillAndContinue(user, en.step4Title, '180');
+      await fillAndContinue(user, en.step5Title, '38');
+      await fillAndContinue(user, en.step6Title, '85');
+      await next(user);
+      settle(LOADING_MS + TRANSITION_MS);
+
+      expect(events.filter(e => e.type === 'step_view').map(e => e.type === 'step_view' && e.step)).toEqual(['welcome', 'sex', 'age', 'weight', 'height', 'neck', 'waist', 'skinfolds', 'loading', 'results']);
+      expect(events.filter(e => e.type === 'validation_error')).toEqual([expect.objectContaining({ step: 'age', field: 'age' })]);
+      const completed = events.find(e => e.type === 'calculation_completed');
+      expect(completed).toMatchObject({ category: 'Average', caliper: false, edited: false });
+      expect(completed).not.toHaveProperty('measurements');
+    } finally {
+      analytics.configure(noopSink);
+      analytics.setConsent(null);
+    }
+  });
+
+  it('starts dark without a saved choice and remembers switching to light', async () => {
+    const user = renderWizard();
+    expect(document.documentElement.dataset.theme).toBe('dark');
+
+    await user.click(screen.getByRole('button', { name: en.themeToLight }));
+    expect(document.documentElement.dataset.theme).toBe('light');
+    expect(window.localStorage.getItem(THEME_STORAGE_KEY)).toBe('light');
+    expect(screen.getByRole('button', { name: en.themeToDark })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,48 @@
+import React from 'react';
+import { BodyMeasurements, calculateHealthRisk, HealthIndicatorKey, RiskLevel } from '../../lib/bodyFat';
+import { useLocale } from '../../hooks/useLocale';
+import { PALETTE } from './palette';
+
+interface HealthRiskPanelProps {
+  measurements: BodyMeasurements;
+}
+
+const INDICATOR_ORDER: HealthIndicatorKey[] = ['WHTR', 'WHR', 'BRI'];
+const RISK_COLORS: Record<RiskLevel, string> = { low: PALETTE.WARNING_COLOR, healthy: PALETTE.SUCCESS_COLOR, increased: PALETTE.WARNING_COLOR, high: PALETTE.ERROR_COLOR };
+
+/** Waist-based indicators of central (visceral) fat, each coloured by its risk band for the user's sex. */
+const HealthRiskPanel: React.FC<HealthRiskPanelProps> = ({ measurements }) => {
+  const { t, formatValue } = useLocale();
+  const risk = calculateHealthRisk(measurements);
+
+  // Every indicator needs the waist; without it there is nothing to show.
+  if (risk.WHTR.value === null) return null;
+
+  return (
+    <section className="mb-10 sm:mb-12">
+      <h2 className="text-2xl font-bold mb-2 text-center" style={{ color: PALETTE.ACCENT }}>{t.healthRiskTitle}</h2>
+      <p className="text-center text-sm mb-6 sm:mb-8 max-w-2xl mx-auto" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.healthRiskIntro}</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-5">
+        {INDICATOR_ORDER.map(key => risk[key]).map(({ key, value, risk: level }) => (
+          <div key={key} className={`p-4 rounded-lg shadow border border-line`} style={{ background: PALETTE.CARD_BACKGROUND, borderLeft: `4px solid ${level ? RISK_COLORS[level] : PALETTE.BORDER_COLOR}` }}>
+            <div className="flex items-baseline justify-between gap-3 mb-2">
+              <h3 className="text-sm font-semibold" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.healthIndicatorNames[key]}</h3>
+              <p className="text-lg sm:text-xl font-bold" style={{ color: PALETTE.ACCENT }}>{formatValue(value, 2)}</p>
+            </div>
+            {level ? (
+              <p className="text-sm font-semibold mb-2 inline-flex items-center gap-2" style={{ color: RISK_COLORS[level] }}>
+                <span className="inline-block h-2.5 w-2.5 rounded-full" style={{ background: RISK_COLORS[level] }} aria-hidden="true" />
+                {t.riskLevels[level]}
+              </p>
+            ) : (
+              <p className="text-sm mb-2" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.healthIndicatorNeedsHip}</p>
+            )}
+            <p className="text-xs" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.healthIndicatorNotes[key]}</p>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default HealthRiskPanel;
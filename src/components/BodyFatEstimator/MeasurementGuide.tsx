@@ -0,0 +1,65 @@
+import React from 'react';
+import { Ruler } from 'lucide-react';
+import { Sex } from '../../lib/bodyFat';
+import { Translations } from '../../i18n';
+import { useLocale } from '../../hooks/useLocale';
+import { PALETTE } from './palette';
+
+export type MeasurementGuideSite = keyof Translations['measurementGuides'];
+
+interface MeasurementGuideProps {
+  site: MeasurementGuideSite;
+  sex: Sex;
+}
+
+/* Simplified front-view outlines (120×220 viewBox) and where the tape goes on each: height `y` and half-width `rx` of the loop */
+const OUTLINES: Record<Sex, string> = {
+  male: 'M50 30 L50 46 L24 56 L30 100 L38 120 L36 150 L40 215 M84 150 L80 215 M70 30 L70 46 L96 56 L90 100 L82 120 L84 150 M36 150 L60 160 L84 150 M60 160 L60 215',
+  female: 'M51 30 L51 46 L30 56 L34 90 L43 108 L30 145 L38 215 M90 145 L82 215 M69 30 L69 46 L90 56 L86 90 L77 108 L90 145 M30 145 L60 160 L90 145 M60 160 L60 215',
+};
+const TAPE_POSITIONS: Record<Sex, Record<MeasurementGuideSite, { y: number; rx: number }>> = {
+  male: { neck: { y: 40, rx: 12 }, waist: { y: 118, rx: 25 }, hip: { y: 147, rx: 27 } },
+  female: { neck: { y: 40, rx: 11 }, waist: { y: 108, rx: 20 }, hip: { y: 142, rx: 32 } },
+};
+
+const TapeIllustration: React.FC<MeasurementGuideProps & { label: string }> = ({ site, sex, label }) => {
+  const { y, rx } = TAPE_POSITIONS[sex][site];
+  return (
+    <svg viewBox="0 0 120 220" width={96} height={176} role="img" aria-label={label} className="flex-shrink-0 mx-auto">
+      <circle cx={60} cy={16} r={13} fill="none" stroke={PALETTE.TEXT_SECONDARY} strokeWidth={2} />
+      <path d={OUTLINES[sex]} fill="none" stroke={PALETTE.TEXT_SECONDARY} strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" />
+      {sex === 'male' && <circle cx={60} cy={118} r={1.5} fill={PALETTE.TEXT_SECONDARY} />}
+      <ellipse cx={60} cy={y} rx={rx} ry={4} fill="none" stroke={PALETTE.ACCENT} strokeWidth={2.5} strokeDasharray="4 3" />
+    </svg>
+  );
+};
+
+/** Collapsible "how to measure" panel for the tape steps: illustration, placement steps for the user's sex and common mistakes. */
+const MeasurementGuide: React.FC<MeasurementGuideProps> = ({ site, sex }) => {
+  const { t } = useLocale();
+  const guide = t.measurementGuides[site];
+  const siteLabels: Record<MeasurementGuideSite, string> = { neck: t.neckLabel, waist: t.waistLabel, hip: t.hipLabel };
+
+  return (
+    <details className="max-w-lg mx-auto mb-6 rounded-lg border" style={{ background: PALETTE.CARD_BACKGROUND, borderColor: PALETTE.BORDER_COLOR }}>
+      <summary className="cursor-pointer px-4 py-3 font-semibold inline-flex items-center gap-2" style={{ color: PALETTE.ACCENT }}>
+        <Ruler size={16} aria-hidden="true" /> {t.measurementGuideTitle}
+      </summary>
+      <div className="px-4 pb-4 flex flex-col sm:flex-row gap-4 text-sm text-left">
+        <TapeIllustration site={site} sex={sex} label={t.measurementGuideIllustration(siteLabels[site])} />
+        <div>
+          <p className="font-semibold mb-1" style={{ color: PALETTE.TEXT_PRIMARY }}>{t.measurementGuideStepsTitle}</p>
+          <ol className="list-decimal pl-5 space-y-1 mb-3" style={{ color: PALETTE.TEXT_SECONDARY }}>
+            {guide.steps[sex].map(step => <li key={step}>{step}</li>)}
+          </ol>
+          <p className="font-semibold mb-1" style={{ color: PALETTE.TEXT_PRIMARY }}>{t.measurementGuideMistakesTitle}</p>
+          <ul className="list-disc pl-5 space-y-1" style={{ color: PALETTE.TEXT_SECONDARY }}>
+            {guide.mistakes.map(mistake => <li key={mistake}>{mistake}</li>)}
+          </ul>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default MeasurementGuide;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { ACTIVITY_FACTORS, ActivityLevel, BMR_EQUATIONS, BmrEquation, calculateNutritionTargets, NUTRITION_GOALS, Sex } from '../../lib/bodyFat';
+import { useLocale } from '../../hooks/useLocale';
+import { PALETTE } from './palette';
+
+interface NutritionPanelProps {
+  sex: Sex;
+  age: number;
+  weightKg: number;
+  heightCm: number;
+  bfPercentage: number;
+}
+
+const ACTIVITY_LEVELS = Object.keys(ACTIVITY_FACTORS) as ActivityLevel[];
+
+/** BMR, TDEE and per-goal calorie/macro targets from the lean mass implied by the consensus estimate. */
+const NutritionPanel: React.FC<NutritionPanelProps> = ({ sex, age, weightKg, heightCm, bfPercentage }) => {
+  const { t, formatValue } = useLocale();
+  const [activity, setActivity] = useState<ActivityLevel>('moderate');
+  const [equation, setEquation] = useState<BmrEquation>('KATCH_MCARDLE');
+
+  const targets = calculateNutritionTargets({ sex, age, weightKg, heightCm, bfPercentage, activity, equation });
+  if (!targets) return null;
+
+  const kcal = (value: number) => t.kcalPerDay(formatValue(value, 0));
+  const grams = (value: number) => t.gramsValue(formatValue(value, 0));
+
+  return (
+    <section className="mb-10 sm:mb-12">
+      <h2 className="text-2xl font-bold mb-2 text-center" style={{ color: PALETTE.ACCENT }}>{t.nutritionTitle}</h2>
+      <p className="text-center text-sm mb-6 sm:mb-8 max-w-2xl mx-auto" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.nutritionIntro}</p>
+
+      <div className="max-w-2xl mx-auto grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+        <div>
+          <label htmlFor="activityLevelSelect" className="text-sm font-semibold mb-1 block" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.activityLabel}</label>
+          <select id="activityLevelSelect" value={activity} onChange={e => setActivity(e.target.value as ActivityLevel)} className={`px-3 py-2 rounded-lg outline-none text-fg border w-full border-line`} style={{ background: PALETTE.BACKGROUND }}>
+            {ACTIVITY_LEVELS.map(level => <option key={level} value={level}>{t.activityLevels[level]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="bmrEquationSelect" className="text-sm font-semibold mb-1 block" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.bmrEquationLabel}</label>
+          <select id="bmrEquationSelect" value={equation} onChange={e => setEquation(e.target.value as BmrEquation)} className={`px-3 py-2 rounded-lg outline-none text-fg border w-full border-line`} style={{ background: PALETTE.BACKGROUND }}>
+            {BMR_EQUATIONS.map(key => <option key={key} value={key}>{t.bmrEquationNames[key]}</option>)}
+          </select>
+          <p className="text-xs mt-1" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.bmrEquationNotes[equation]}</p>
+        </div>
+      </div>
+
+      <div className="max-w-2xl mx-auto p-4 rounded-lg border mb-6" style={{ background: PALETTE.CARD_BACKGROUND, borderColor: PALETTE.BORDER_COLOR }}>
+        <h3 className="text-sm font-semibold mb-2 text-center" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.bmrTitle}</h3>
+        <dl className="grid grid-cols-3 gap-2 text-center mb-4">
+          {BMR_EQUATIONS.map(key => (
+            <div key={key}>
+              <dt className="text-xs" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.bmrEquationNames[key]}</dt>
+              <dd className="font-bold" style={{ color: key === equation ? PALETTE.ACCENT : PALETTE.TEXT_PRIMARY }}>{kcal(targets.bmr[key])}</dd>
+            </div>
+          ))}
+        </dl>
+        <p className="text-center text-sm" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.tdeeTitle}</p>
+        <p className="text-center text-xl font-bold" style={{ color: PALETTE.ACCENT }}>{kcal(targets.tdee)}</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 sm:gap-5 mb-4">
+        {NUTRITION_GOALS.map(goal => {
+          const { kcal: goalKcal, adjustment, proteinG, fatG, carbsG } = targets.goals[goal];
+          const recommended = goal === targets.recommendedGoal;
+          return (
+            <div key={goal} className="p-4 rounded-lg shadow text-center border-2" style={{ background: PALETTE.CARD_BACKGROUND, borderColor: recommended ? PALETTE.ACCENT : PALETTE.BORDER_COLOR }}>
+              <h3 className="font-semibold mb-1" style={{ color: PALETTE.TEXT_PRIMARY }}>{t.goalNames[goal]}</h3>
+              {recommended && <p className="text-xs font-semibold mb-1" style={{ color: PALETTE.ACCENT }}>{t.goalRecommendedLabel}</p>}
+              <p className="text-lg font-bold" style={{ color: PALETTE.ACCENT }}>{kcal(goalKcal)}</p>
+              {adjustment !== 0 && <p className="text-xs mb-3" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.goalAdjustment(adjustment > 0 ? '+' : '−', formatValue(Math.abs(adjustment) * 100, 0))}</p>}
+              <dl className={`grid grid-cols-3 gap-1 text-xs ${adjustment === 0 ? 'mt-3' : ''}`}>
+                <div><dt style={{ color: PALETTE.TEXT_SECONDARY }}>{t.proteinLabel}</dt><dd className="font-semibold" style={{ color: PALETTE.TEXT_PRIMARY }}>{grams(proteinG)}</dd></div>
+                <div><dt style={{ color: PALETTE.TEXT_SECONDARY }}>{t.carbsLabel}</dt><dd className="font-semibold" style={{ color: PALETTE.TEXT_PRIMARY }}>{grams(carbsG)}</dd></div>
+                <div><dt style={{ color: PALETTE.TEXT_SECONDARY }}>{t.fatLabel}</dt><dd className="font-semibold" style={{ color: PALETTE.TEXT_PRIMARY }}>{grams(fatG)}</dd></div>
+              </dl>
+            </div>
+          );
+        })}
+      </div>
+
+      {targets.recommendedGoal && targets.category !== 'Unknown' && (
+        <p className="text-center text-sm" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.goalRecommendation(t.categoryNames[targets.category], t.goalNames[targets.recommendedGoal])}</p>
+      )}
+    </section>
+  );
+};
+
+export default NutritionPanel;
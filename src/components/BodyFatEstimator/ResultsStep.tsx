@@ -0,0 +1,255 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceArea, ErrorBar, Cell, Label, TooltipProps } from 'recharts';
+import { ValueType, NameType } from 'recharts/types/component/DefaultTooltipContent';
+import { AlertTriangle, Check, FileDown, FileJson, FileSpreadsheet, History, Link2, Loader2, Mail } from 'lucide-react';
+import { BfCategory, BodyFatResults, BodyMeasurements, getBfCategory, isCountedInAverage, isMethodVisible, MethodKey, MethodSettings, Z_95 } from '../../lib/bodyFat';
+import { UnitSystem } from '../../lib/units';
+import { useLocale } from '../../hooks/useLocale';
+import { usePrefersReducedMotion } from '../../hooks/usePrefersReducedMotion';
+import { analytics } from '../../lib/analytics';
+import { BRAND } from '../../config/brand';
+import { buildShareUrl } from '../../lib/shareLink';
+import { buildResultsExport, downloadFile, exportFileName, resultsToCsv, resultsToJson } from '../../lib/export';
+import { downloadElementAsPdf } from '../../lib/reportPdf';
+import ResultsReport from '../Report/ResultsReport';
+import { PALETTE } from './palette';
+import BodyCompositionPanel from './BodyCompositionPanel';
+import AgeNormsPanel from './AgeNormsPanel';
+import WaitlistForm from './WaitlistForm';
+import HealthRiskPanel from './HealthRiskPanel';
+import NutritionPanel from './NutritionPanel';
+
+interface ResultsStepProps {
+  measurements: BodyMeasurements;
+  results: BodyFatResults;
+  unitSystem: UnitSystem;
+  methodSettings: MethodSettings;
+  /* Forces the chart to repaint on resize */
+  chartKey: number;
+  /* The calculation replaced an edited history entry instead of adding a new one */
+  edited: boolean;
+  skipLoading: boolean;
+  onSkipLoadingChange: (skip: boolean) => void;
+  onReset: () => void;
+  onOpenHistory: () => void;
+}
+
+/* Delay between method cards appearing */
+const REVEAL_INTERVAL_MS = 250;
+/* The waitlist is offered to the categories that have something to gain from coaching */
+const CTA_CATEGORIES: BfCategory[] = ['Average', 'Overweight', 'Obese'];
+const CATEGORY_COLORS: Partial<Record<BfCategory, string>> = { 'Contest Prep': PALETTE.ACCENT, Athletic: PALETTE.SUCCESS_COLOR, Average: PALETTE.WARNING_COLOR, Overweight: PALETTE.ERROR_COLOR, Obese: PALETTE.ERROR_COLOR };
+const SECONDARY_BUTTON = 'bg-card hover:bg-card-hover text-fg font-semibold rounded-lg transition duration-200 ease-in-out shadow-md border border-line inline-flex items-center';
+
+type ChartDatum = { name: string; 'BF%': number; error: number; outlier: boolean; counted: boolean; key: MethodKey };
+
+const BarTooltip = ({ active, payload }: TooltipProps<ValueType, NameType>) => {
+  const { t, formatValue } = useLocale();
+  if (!active || !payload?.length) return null;
+  const data = payload[0].payload as ChartDatum;
+  return (
+    <div className="p-3 rounded border text-base" style={{ background: PALETTE.CARD_BACKGROUND, borderColor: PALETTE.BORDER_COLOR, color: PALETTE.TEXT_PRIMARY }}>
+      <p className="font-bold mb-1" style={{ color: PALETTE.ACCENT }}>{data.name}</p>
+      <p style={{ color: PALETTE.TEXT_PRIMARY }}>{`${t.bfShort}: ${formatValue(data['BF%'])}% ± ${formatValue(data.error)}`}</p>
+      {data.outlier && <p className="text-sm" style={{ color: PALETTE.WARNING_COLOR }}>{t.outlierLabel}</p>}
+    </div>
+  );
+};
+
+/** Last wizard step: the method cards revealed one by one, the consensus and its category, the detail panels, the comparison chart, the waitlist offer and the share and export actions. */
+const ResultsStep: React.FC<ResultsStepProps> = ({ measurements, results, unitSystem, methodSettings, chartKey, edited, skipLoading, onSkipLoadingChange, onReset, onOpenHistory }) => {
+  const { t, formatValue, methodName, methodNote } = useLocale();
+  const prefersReducedMotion = usePrefersReducedMotion();
+  const [revealedCount, setRevealedCount] = useState<number>(0);
+  const [hoveredNoteKey, setHoveredNoteKey] = useState<MethodKey | null>(null);
+  const [shareStatus, setShareStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const [reportStatus, setReportStatus] = useState<'idle' | 'generating' | 'failed'>('idle');
+  /* Off-screen print layout captured for the PDF export */
+  const reportRef = useRef<HTMLDivElement>(null);
+  const reportDateRef = useRef<Date>(new Date());
+
+  const visibleMethodKeys = useMemo<MethodKey[]>(() => Object.values(results.methods).filter(isMethodVisible).map(r => r.key), [results]);
+  const allRevealed = revealedCount >= visibleMethodKeys.length;
+  const consensus = results.consensus;
+  const avgBf = consensus?.value ?? null;
+  const userCategory = getBfCategory(avgBf, measurements.sex);
+  /* Categories at either end of the consensus range; when they differ the result is on a boundary */
+  const categoryLow = consensus ? getBfCategory(consensus.lower, measurements.sex) : userCategory;
+  const categoryHigh = consensus ? getBfCategory(consensus.upper, measurements.sex) : userCategory;
+  const categoryColor = CATEGORY_COLORS[userCategory] ?? PALETTE.TEXT_SECONDARY;
+  const showCTA = avgBf !== null && CTA_CATEGORIES.includes(userCategory) && !!(BRAND.waitlistEndpoint || BRAND.links.waitlist);
+
+  const { chartData, yAxisMax } = useMemo(() => {
+    const outliers = consensus?.outliers ?? [];
+    const data: ChartDatum[] = Object.values(results.methods).filter(r => r.value !== null).map(r => ({ name: methodName(r.key), 'BF%': r.value as number, error: r.standardError !== null ? Z_95 * r.standardError : 0, outlier: outliers.includes(r.key), counted: isCountedInAverage(r.key, measurements, methodSettings), key: r.key }));
+    const maxBf = Math.max(0, ...data.map(d => d['BF%'] + d.error), consensus?.upper ?? 0);
+    return { chartData: data, yAxisMax: data.length > 0 ? Math.max(25, Math.ceil(maxBf / 5) * 5 + 5) : 25 };
+  }, [results, consensus, measurements, methodSettings, methodName]);
+
+  /* Reveal the method cards one at a time (all at once with reduced motion) */
+  useEffect(() => {
+    if (revealedCount >= visibleMethodKeys.length) return;
+    if (prefersReducedMotion) { setRevealedCount(visibleMethodKeys.length); return; }
+    const revealTimeout = setTimeout(() => setRevealedCount(count => count + 1), REVEAL_INTERVAL_MS);
+    return () => clearTimeout(revealTimeout);
+  }, [revealedCount, visibleMethodKeys, prefersReducedMotion]);
+  /* The report only mounts while generating; capture it once it's in the DOM */
+  useEffect(() => {
+    if (reportStatus !== 'generating' || !reportRef.current) return;
+    downloadElementAsPdf(reportRef.current, `${exportFileName('bodyfat-report', reportDateRef.current)}.pdf`).then(() => setReportStatus('idle'), () => setReportStatus('failed'));
+  }, [reportStatus]);
+
+  const handleExportPdf = () => { if (reportStatus === 'generating') return; analytics.track({ type: 'cta_click', cta: 'export_pdf' }); reportDateRef.current = new Date(); setReportStatus('generating'); };
+  const handleExportData = (format: 'csv' | 'json') => {
+    analytics.track({ type: 'cta_click', cta: format === 'csv' ? 'export_csv' : 'export_json' });
+    const data = buildResultsExport(measurements, results, unitSystem);
+    const name = exportFileName('bodyfat-results');
+    if (format === 'csv') downloadFile(resultsToCsv(data), `${name}.csv`, 'text/csv;charset=utf-8');
+    else downloadFile(resultsToJson(data), `${name}.json`, 'application/json');
+  };
+  const handleCopyShareLink = () => {
+    analytics.track({ type: 'cta_click', cta: 'share_link' });
+    const url = buildShareUrl({ inputs: measurements, unitSystem });
+    const done = (status: 'copied' | 'failed') => { setShareStatus(status); setTimeout(() => setShareStatus('idle'), 2500); };
+    if (!navigator.clipboard) { done('failed'); return; }
+    navigator.clipboard.writeText(url).then(() => done('copied'), () => done('failed'));
+  };
+
+  const lastRevealed = revealedCount > 0 ? visibleMethodKeys[revealedCount - 1] : null;
+  const spinner = <Loader2 className="h-6 w-6 mx-auto animate-spin motion-reduce:animate-none" style={{ color: PALETTE.TEXT_SECONDARY }} aria-hidden="true" />;
+
+  return (
+    <div className="py-8">
+      <section className="mb-10 sm:mb-12">
+        <h2 className="text-3xl font-bold mb-6 sm:mb-8 text-center" style={{ color: PALETTE.ACCENT }}>{t.resultsTitle}</h2>
+        <p className="text-center text-sm mb-6 max-w-2xl mx-auto" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.disclaimer}</p>
+        <p className="sr-only" aria-live="polite">{allRevealed ? t.resultsAnnouncement(formatValue(avgBf), t.categoryNames[userCategory]) : lastRevealed ? t.methodResultAnnouncement(methodName(lastRevealed), formatValue(results.methods[lastRevealed].value)) : t.resultsCalculating}</p>
+        {/* BMI and the method cards, then the consensus centred below */}
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-6 gap-4 sm:gap-5 mb-4" aria-busy={!allRevealed}>
+          <div className="p-4 rounded-lg shadow text-center border border-line" style={{ background: PALETTE.CARD_BACKGROUND }} title={t.bmiValueTooltip}>
+            <h3 className="text-xs sm:text-sm font-semibold mb-2 leading-tight flex flex-col justify-center h-12" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.bmiValueTitle}</h3>
+            <p className="text-lg sm:text-xl font-bold" style={{ color: PALETTE.ACCENT }}>{formatValue(results.bmi)}</p>
+          </div>
+          {visibleMethodKeys.map((key, index) => {
+            const { value, standardError } = results.methods[key];
+            const isOutlier = consensus?.outliers.includes(key) ?? false;
+            const note = isOutlier ? `${methodNote(key)} ${t.outlierNote}` : methodNote(key);
+            return (
+              <div key={key} className="p-4 rounded-lg shadow text-center border border-line relative group/note" style={{ background: PALETTE.CARD_BACKGROUND }} tabIndex={0} aria-describedby={hoveredNoteKey === key ? `note-${key}` : undefined}
+                onMouseEnter={() => setHoveredNoteKey(key)} onMouseLeave={() => setHoveredNoteKey(null)} onFocus={() => setHoveredNoteKey(key)} onBlur={() => setHoveredNoteKey(null)}>
+                <h3 className="text-xs sm:text-sm font-semibold mb-2 leading-tight flex flex-col justify-center h-12 items-center" style={{ color: PALETTE.TEXT_SECONDARY }}><span>{methodName(key)}</span></h3>
+                {index < revealedCount ? (
+                  <>
+                    <p className="text-lg sm:text-xl font-bold inline-flex items-center gap-1" style={{ color: isOutlier ? PALETTE.WARNING_COLOR : PALETTE.ACCENT }}>{formatValue(value)}% {isOutlier && <AlertTriangle size={14} aria-label={t.outlierLabel} />}</p>
+                    {standardError !== null && <p className="text-xs mt-1" style={{ color: PALETTE.TEXT_SECONDARY }} title={t.standardErrorTooltip}>±{formatValue(standardError)}</p>}
+                    {!isCountedInAverage(key, measurements, methodSettings) && <p className="text-xs mt-1" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.excludedFromAverageLabel}</p>}
+                  </>
+                ) : spinner}
+                {hoveredNoteKey === key && <p id={`note-${key}`} role="tooltip" className="text-xs mt-2 px-2 py-1 absolute left-1/2 -translate-x-1/2 bottom-full mb-1 z-10 w-max max-w-xs rounded bg-card border border-line shadow-lg" style={{ color: PALETTE.TEXT_SECONDARY }}>{note}</p>}
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex justify-center">
+          <div className="p-4 rounded-lg shadow text-center border border-line w-full sm:w-1/3 md:w-1/4 lg:w-1/7" style={{ background: PALETTE.CARD_BACKGROUND }} title={t.consensusBfTooltip}>
+            <h3 className="text-xs sm:text-sm font-semibold mb-2 leading-tight flex flex-col justify-center h-12" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.consensusBfTitle}</h3>
+            {allRevealed ? (
+              <>
+                <p className="text-lg sm:text-xl font-bold" style={{ color: PALETTE.ERROR_COLOR }}>{formatValue(avgBf)}%</p>
+                {consensus && <p className="text-xs mt-1" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.confidenceInterval(formatValue(consensus.lower), formatValue(consensus.upper))}</p>}
+              </>
+            ) : spinner}
+          </div>
+        </div>
+      </section>
+
+      {allRevealed && userCategory !== 'Unknown' && (
+        <section className="mb-10 sm:mb-12 text-center p-6 rounded-lg border" style={{ borderColor: categoryColor, background: PALETTE.CARD_BACKGROUND }}>
+          <h3 className="text-xl font-semibold mb-2" style={{ color: categoryColor }}>{t.categoryResultTitle} {t.categoryNames[userCategory]}</h3>
+          {categoryLow !== categoryHigh && <p className="text-sm mb-2" style={{ color: PALETTE.TEXT_PRIMARY }}>{t.categoryRange(t.categoryNames[categoryLow], t.categoryNames[categoryHigh])}</p>}
+          <p style={{ color: PALETTE.TEXT_SECONDARY }}>{t.categoryMessages[userCategory]}</p>
+        </section>
+      )}
+      {allRevealed && avgBf !== null && (
+        <>
+          <AgeNormsPanel sex={measurements.sex} age={measurements.age} bfPercentage={avgBf} />
+          <BodyCompositionPanel sex={measurements.sex} weightKg={measurements.weightKg} heightCm={measurements.heightCm} bfPercentage={avgBf} unitSystem={unitSystem} />
+        </>
+      )}
+      {allRevealed && <HealthRiskPanel measurements={measurements} />}
+      {allRevealed && avgBf !== null && <NutritionPanel sex={measurements.sex} age={measurements.age} weightKg={measurements.weightKg} heightCm={measurements.heightCm} bfPercentage={avgBf} />}
+
+      <section className="mb-12">
+        <h2 className="text-2xl font-bold mb-6 sm:mb-8 text-center" style={{ color: PALETTE.ACCENT }}>{t.resultsComparisonTitle}</h2>
+        {chartData.length > 0 ? (
+          <div style={{ width: '100%', height: 400 }}>
+            <ResponsiveContainer key={chartKey}>
+              <BarChart data={chartData} margin={{ top: 5, right: 30, left: 0, bottom: 70 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={PALETTE.GRID_COLOR} />
+                <XAxis dataKey="name" stroke={PALETTE.TEXT_SECONDARY} tick={{ fontSize: 11, fill: PALETTE.TEXT_SECONDARY }} angle={-45} textAnchor="end" height={80} interval={0} />
+                <YAxis stroke={PALETTE.TEXT_SECONDARY} tick={{ fontSize: 11, fill: PALETTE.TEXT_SECONDARY }} unit="%" domain={[0, yAxisMax]} allowDataOverflow={true} />
+                <Tooltip content={<BarTooltip />} cursor={{ fill: 'rgb(var(--color-fg) / 0.1)' }} />
+                {consensus && <ReferenceArea y1={consensus.lower} y2={consensus.upper} fill={PALETTE.ERROR_COLOR} fillOpacity={0.08} />}
+                <Bar dataKey="BF%" fill={PALETTE.ACCENT} name={t.bfShort}>
+                  {chartData.map(d => <Cell key={d.key} fill={d.outlier ? PALETTE.WARNING_COLOR : PALETTE.ACCENT} fillOpacity={d.counted ? 1 : 0.45} />)}
+                  <ErrorBar dataKey="error" width={6} strokeWidth={1.5} stroke={PALETTE.TEXT_PRIMARY} direction="y" />
+                </Bar>
+                {consensus && (
+                  <ReferenceLine y={consensus.value} stroke={PALETTE.ERROR_COLOR} strokeDasharray="5 5" strokeWidth={2}>
+                    <Label value={`${t.chartAverageLabel}: ${formatValue(consensus.value)}%`} position="insideTopRight" fill={PALETTE.ERROR_COLOR} fontSize={12} fontWeight="bold" />
+                  </ReferenceLine>
+                )}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <p style={{ color: PALETTE.TEXT_SECONDARY }} className="text-center py-10">{t.noChartData}</p>
+        )}
+      </section>
+
+      {showCTA && (
+        <section className="mb-12 text-center p-8 rounded-lg border" style={{ borderColor: PALETTE.ACCENT, background: PALETTE.CARD_BACKGROUND }}>
+          <h3 className="text-2xl font-semibold mb-4" style={{ color: PALETTE.ACCENT }}>{t.ctaTitle}</h3>
+          <p className="mb-3 text-lg" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.ctaTextP1}</p>
+          <p className="mb-6 text-lg" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.ctaTextP2}</p>
+          {BRAND.waitlistEndpoint ? (
+            <WaitlistForm endpoint={BRAND.waitlistEndpoint} category={userCategory} measurements={measurements} results={results} unitSystem={unitSystem} />
+          ) : (
+            <a href={BRAND.links.waitlist} target="_blank" rel="noopener noreferrer" onClick={() => analytics.track({ type: 'cta_click', cta: 'waitlist_signup' })} className="inline-flex items-center px-8 py-3 text-lg bg-accent hover:bg-accent-hover text-on-accent font-bold rounded-lg transition duration-200 ease-in-out shadow-md">
+              <Mail className="mr-2 h-5 w-5" /> {t.ctaButton}
+            </a>
+          )}
+        </section>
+      )}
+
+      <p className="text-center text-sm mb-4" style={{ color: PALETTE.TEXT_SECONDARY }}>{edited ? t.historyUpdated : t.historySaved}</p>
+      <label className="flex justify-center items-center gap-2 text-sm mb-6 cursor-pointer" style={{ color: PALETTE.TEXT_SECONDARY }}>
+        <input type="checkbox" checked={skipLoading} onChange={e => onSkipLoadingChange(e.target.checked)} className="h-4 w-4 accent-accent" /> {t.skipLoadingPreference}
+      </label>
+      <div className="flex flex-wrap justify-center gap-4">
+        <button onClick={onReset} className={`px-8 py-3 text-lg ${SECONDARY_BUTTON}`}>{t.calculateAgainButton}</button>
+        <button onClick={onOpenHistory} className={`px-8 py-3 text-lg ${SECONDARY_BUTTON}`}><History className="mr-2 h-5 w-5" /> {t.historyButton}</button>
+        <button onClick={handleCopyShareLink} className={`px-8 py-3 text-lg ${SECONDARY_BUTTON}`}>
+          {shareStatus === 'copied' ? <Check className="mr-2 h-5 w-5" /> : <Link2 className="mr-2 h-5 w-5" />} {shareStatus === 'copied' ? t.shareLinkCopied : t.shareLinkButton}
+        </button>
+      </div>
+      {shareStatus === 'failed' && <p className="text-center text-sm mt-4" style={{ color: PALETTE.ERROR_COLOR }}>{t.shareLinkFailed}</p>}
+      <div className="flex flex-wrap justify-center gap-3 mt-6">
+        <button onClick={handleExportPdf} disabled={reportStatus === 'generating'} className={`px-5 py-2 text-base ${SECONDARY_BUTTON} disabled:opacity-60`}>
+          {reportStatus === 'generating' ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <FileDown className="mr-2 h-5 w-5" />} {reportStatus === 'generating' ? t.exportPdfGenerating : t.exportPdfButton}
+        </button>
+        <button onClick={() => handleExportData('csv')} className={`px-5 py-2 text-base ${SECONDARY_BUTTON}`}><FileSpreadsheet className="mr-2 h-5 w-5" /> {t.exportCsvButton}</button>
+        <button onClick={() => handleExportData('json')} className={`px-5 py-2 text-base ${SECONDARY_BUTTON}`}><FileJson className="mr-2 h-5 w-5" /> {t.exportJsonButton}</button>
+      </div>
+      {reportStatus === 'failed' && <p className="text-center text-sm mt-4" style={{ color: PALETTE.ERROR_COLOR }}>{t.exportPdfFailed}</p>}
+
+      {reportStatus === 'generating' && (
+        <div aria-hidden="true" style={{ position: 'fixed', left: -10000, top: 0 }}>
+          <ResultsReport ref={reportRef} measurements={measurements} results={results} unitSystem={unitSystem} date={reportDateRef.current} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResultsStep;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Sex, VISUAL_LEVELS, VisualEstimate } from '../../lib/bodyFat';
+import { useLocale } from '../../hooks/useLocale';
+import { PALETTE } from './palette';
+
+interface VisualEstimatePickerProps {
+  sex: Sex;
+  value: VisualEstimate | null;
+  onChange: (value: VisualEstimate | null) => void;
+}
+
+/* Half-widths (leanest → heaviest silhouette) of the front-view outline in a 100×170 viewBox, drawn in the same line style as the sex icons */
+const WIDTHS: Record<Sex, Record<'neck' | 'shoulder' | 'chest' | 'waist' | 'hip', [number, number]>> = {
+  male: { neck: [5, 7], shoulder: [29, 31], chest: [23, 29], waist: [15, 30], hip: [18, 28] },
+  female: { neck: [4, 6], shoulder: [23, 26], chest: [19, 26], waist: [12, 26], hip: [22, 34] },
+};
+
+const outline = (sex: Sex, t: number): string => {
+  const w = (part: keyof typeof WIDTHS.male) => WIDTHS[sex][part][0] + (WIDTHS[sex][part][1] - WIDTHS[sex][part][0]) * t;
+  const nk = w('neck'), sh = w('shoulder'), ch = w('chest'), wa = w('waist'), hi = w('hip');
+  const belly = Math.max(ch, wa + 4 * t), hips = Math.max(hi, wa);
+  const L = (d: number) => (50 - d).toFixed(1), R = (d: number) => (50 + d).toFixed(1);
+  return [
+    `M${L(nk)} 24 L${L(nk)} 31 Q${L(sh)} 32 ${L(sh)} 40 Q${L(ch)} 46 ${L(ch)} 58 Q${L(belly)} 72 ${L(wa)} 85 Q${L(hips)} 94 ${L(hi)} 108`,
+    `L${L(hi - 6)} 165 L${L(3)} 165 L50 124 L${R(3)} 165 L${R(hi - 6)} 165`,
+    `L${R(hi)} 108 Q${R(hips)} 94 ${R(wa)} 85 Q${R(belly)} 72 ${R(ch)} 58 Q${R(ch)} 46 ${R(sh)} 40 Q${R(sh)} 32 ${R(nk)} 31 L${R(nk)} 24`,
+    `M${L(sh)} 40 L${L(sh + 4 + 4 * t)} 100 M${R(sh)} 40 L${R(sh + 4 + 4 * t)} 100`,
+  ].join(' ');
+};
+
+const Silhouette: React.FC<{ sex: Sex; level: number; color: string }> = ({ sex, level, color }) => {
+  const t = level / (VISUAL_LEVELS[sex].length - 1);
+  return (
+    <svg width={56} height={96} viewBox="0 0 100 170" fill="none" stroke={color} strokeWidth={3} strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
+      <circle cx={50} cy={13} r={10} />
+      <path d={outline(sex, t)} />
+      {t < 0.2 && <path d="M50 62 L50 84 M43 68 L57 68 M43 76 L57 76" strokeWidth={1.5} />}
+    </svg>
+  );
+};
+
+/** Optional visual method: the user picks the closest reference silhouette and decides whether it counts toward the consensus. */
+const VisualEstimatePicker: React.FC<VisualEstimatePickerProps> = ({ sex, value, onChange }) => {
+  const { t } = useLocale();
+  const levels = VISUAL_LEVELS[sex];
+  const optionClass = (selected: boolean) => `p-2 rounded-lg border-2 transition duration-200 ease-in-out motion-reduce:transition-none focus:outline-none focus-visible:ring-2 focus-visible:ring-accent flex flex-col items-center ${selected ? 'border-accent' : 'border-line hover:border-accent-hover'}`;
+
+  return (
+    <section className="mt-10 pt-8 border-t" style={{ borderColor: PALETTE.BORDER_COLOR }}>
+      <h3 className="text-xl font-bold mb-2 text-center" style={{ color: PALETTE.ACCENT }}>{t.visualTitle}</h3>
+      <p className="text-sm text-center mb-6" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.visualIntro}</p>
+      <div className="flex flex-wrap justify-center gap-3 mb-4" role="group" aria-label={t.visualTitle}>
+        {levels.map((range, level) => {
+          const selected = value?.level === level;
+          return (
+            <button key={level} type="button" aria-pressed={selected} aria-label={t.visualLevelLabel(range.low, range.high)} onClick={() => onChange({ level, countsTowardAverage: value?.countsTowardAverage ?? true })} className={optionClass(selected)} style={{ background: PALETTE.CARD_BACKGROUND }}>
+              <Silhouette sex={sex} level={level} color={selected ? PALETTE.ACCENT : PALETTE.TEXT_SECONDARY} />
+              <span className="mt-1 text-xs font-semibold" style={{ color: selected ? PALETTE.ACCENT : PALETTE.TEXT_SECONDARY }}>{t.visualLevelLabel(range.low, range.high)}</span>
+            </button>
+          );
+        })}
+        <button type="button" aria-pressed={value === null} onClick={() => onChange(null)} className={`${optionClass(value === null)} justify-center px-4 text-sm font-semibold`} style={{ background: PALETTE.CARD_BACKGROUND, color: value === null ? PALETTE.ACCENT : PALETTE.TEXT_SECONDARY }}>
+          {t.visualNone}
+        </button>
+      </div>
+      {value && (
+        <label className="flex justify-center items-center gap-2 text-sm cursor-pointer" style={{ color: PALETTE.TEXT_SECONDARY }}>
+          <input type="checkbox" checked={value.countsTowardAverage} onChange={e => onChange({ ...value, countsTowardAverage: e.target.checked })} className="h-4 w-4 accent-accent" />
+          {t.visualCountsToggle}
+        </label>
+      )}
+    </section>
+  );
+};
+
+export default VisualEstimatePicker;
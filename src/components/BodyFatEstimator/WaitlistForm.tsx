@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { CheckCircle2, Loader2, Mail, RotateCcw } from 'lucide-react';
+import { BfCategory, BodyFatResults, BodyMeasurements } from '../../lib/bodyFat';
+import { UnitSystem } from '../../lib/units';
+import { buildWaitlistSubmission, submitWaitlist, validateWaitlistForm, WaitlistErrors, WaitlistForm as WaitlistFormValues } from '../../lib/waitlist';
+import { analytics } from '../../lib/analytics';
+import { useLocale } from '../../hooks/useLocale';
+import { PALETTE } from './palette';
+
+interface WaitlistFormProps {
+  endpoint: string;
+  category: BfCategory;
+  measurements: BodyMeasurements;
+  results: BodyFatResults;
+  unitSystem: UnitSystem;
+}
+
+type SubmitStatus = 'idle' | 'submitting' | 'success' | 'failed';
+
+const EMPTY_FORM: WaitlistFormValues = { name: '', email: '', consent: false };
+
+/** In-app waitlist sign-up sent with the calculation, replacing the external form link. */
+const WaitlistForm: React.FC<WaitlistFormProps> = ({ endpoint, category, measurements, results, unitSystem }) => {
+  const { t, locale } = useLocale();
+  const [form, setForm] = useState<WaitlistFormValues>(EMPTY_FORM);
+  const [errors, setErrors] = useState<WaitlistErrors>({});
+  const [status, setStatus] = useState<SubmitStatus>('idle');
+
+  const update = <K extends keyof WaitlistFormValues>(key: K, value: WaitlistFormValues[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+    if (errors[key]) setErrors(prev => ({ ...prev, [key]: undefined }));
+  };
+
+  const send = async () => {
+    setStatus('submitting');
+    try {
+      await submitWaitlist(endpoint, buildWaitlistSubmission(form, category, measurements, results, unitSystem, locale));
+      setStatus('success');
+    } catch {
+      setStatus('failed');
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (status === 'submitting') return;
+    const found = validateWaitlistForm(form, t);
+    setErrors(found);
+    if (Object.keys(found).length > 0) return;
+    analytics.track({ type: 'cta_click', cta: 'waitlist_signup' });
+    void send();
+  };
+
+  if (status === 'success') {
+    return (
+      <div role="status" className="flex flex-col items-center gap-2">
+        <CheckCircle2 size={36} style={{ color: PALETTE.SUCCESS_COLOR }} aria-hidden="true" />
+        <p className="text-lg font-semibold" style={{ color: PALETTE.TEXT_PRIMARY }}>{t.waitlistSuccessTitle}</p>
+        <p className="text-sm" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.waitlistSuccessText(form.email.trim())}</p>
+      </div>
+    );
+  }
+
+  const inputClass = (hasError: boolean) => `px-3 py-2 rounded-lg outline-none text-fg border w-full ${hasError ? 'border-error ring-1 ring-error' : 'border-line focus:border-accent'}`;
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="max-w-md mx-auto text-left space-y-4">
+      <div>
+        <label htmlFor="waitlistName" className="text-sm font-semibold mb-1 block" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.waitlistNameLabel}</label>
+        <input id="waitlistName" type="text" autoComplete="name" value={form.name} onChange={e => update('name', e.target.value)} aria-invalid={!!errors.name} className={inputClass(!!errors.name)} style={{ background: PALETTE.BACKGROUND }} />
+        {errors.name && <p className="text-sm mt-1" style={{ color: PALETTE.ERROR_COLOR }}>{errors.name}</p>}
+      </div>
+      <div>
+        <label htmlFor="waitlistEmail" className="text-sm font-semibold mb-1 block" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.waitlistEmailLabel}</label>
+        <input id="waitlistEmail" type="email" autoComplete="email" inputMode="email" value={form.email} onChange={e => update('email', e.target.value)} aria-invalid={!!errors.email} className={inputClass(!!errors.email)} style={{ background: PALETTE.BACKGROUND }} />
+        {errors.email && <p className="text-sm mt-1" style={{ color: PALETTE.ERROR_COLOR }}>{errors.email}</p>}
+      </div>
+      <div>
+        <label className="flex items-start gap-2 text-sm cursor-pointer" style={{ color: PALETTE.TEXT_SECONDARY }}>
+          <input type="checkbox" checked={form.consent} onChange={e => update('consent', e.target.checked)} aria-invalid={!!errors.consent} className="mt-0.5 h-4 w-4 accent-accent" />
+          {t.waitlistConsentLabel}
+        </label>
+        {errors.consent && <p className="text-sm mt-1" style={{ color: PALETTE.ERROR_COLOR }}>{errors.consent}</p>}
+      </div>
+      {status === 'failed' && <p role="alert" className="text-sm" style={{ color: PALETTE.ERROR_COLOR }}>{t.waitlistFailed}</p>}
+      <div className="text-center">
+        <button type="submit" disabled={status === 'submitting'} className="inline-flex items-center px-8 py-3 text-lg bg-accent hover:bg-accent-hover text-on-accent font-bold rounded-lg transition duration-200 ease-in-out shadow-md disabled:opacity-60 disabled:cursor-wait">
+          {status === 'submitting' ? <Loader2 className="mr-2 h-5 w-5 animate-spin motion-reduce:animate-none" aria-hidden="true" /> : status === 'failed' ? <RotateCcw className="mr-2 h-5 w-5" aria-hidden="true" /> : <Mail className="mr-2 h-5 w-5" aria-hidden="true" />}
+          {status === 'submitting' ? t.waitlistSubmitting : status === 'failed' ? t.waitlistRetry : t.ctaButton}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default WaitlistForm;
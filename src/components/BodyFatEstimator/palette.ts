@@ -0,0 +1,10 @@
+import { themeColor } from '../../lib/theme';
+
+/****************************
+ * Renk Paleti
+ ***************************/
+/** Inline-style colours resolving to the active theme's CSS variables (see src/index.css); prefer the Tailwind tokens in class names. */
+export const PALETTE = { BACKGROUND: themeColor('background'), CARD_BACKGROUND: themeColor('card'), TEXT_PRIMARY: themeColor('fg'), TEXT_SECONDARY: themeColor('muted'), ACCENT: themeColor('accent'), ACCENT_HOVER: themeColor('accent-hover'), ON_ACCENT: themeColor('on-accent'), GRID_COLOR: themeColor('grid'), BORDER_COLOR: themeColor('line'), ERROR_COLOR: themeColor('error'), INFO_ICON_COLOR: themeColor('muted'), SUCCESS_COLOR: themeColor('success'), WARNING_COLOR: themeColor('warning'), CHART_COLORS: [themeColor('accent'), themeColor('accent-hover'), themeColor('muted'), themeColor('fg'), themeColor('error'), themeColor('warning'), themeColor('success')] };
+
+/** Light, print-friendly colours for exported reports; fixed hex so the PDF looks the same whichever theme is on. */
+export const REPORT_PALETTE = { BACKGROUND: "#ffffff", TEXT_PRIMARY: "#1a1a1a", TEXT_SECONDARY: "#555555", ACCENT: "#8a6d3b", BORDER_COLOR: "#d0d0d0", GRID_COLOR: "#e5e5e5", ERROR_COLOR: "#c62828", WARNING_COLOR: "#b8860b", BAR_COLOR: "#c2a57a" };
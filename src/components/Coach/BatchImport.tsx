@@ -0,0 +1,148 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, FileSpreadsheet, Upload, UserPlus } from 'lucide-react';
+import { getMethodKeys, MethodKey, MethodSettings } from '../../lib/bodyFat';
+import { BATCH_TEMPLATE_CSV, BatchField, BatchIssue, BatchRow, batchResultsToCsv, parseBatchCsv } from '../../lib/batch';
+import { downloadFile, exportFileName } from '../../lib/export';
+import { createHistoryEntry, HistoryEntry } from '../../lib/history';
+import { UnitSystem } from '../../lib/units';
+import { PALETTE } from '../BodyFatEstimator/palette';
+import { useLocale } from '../../hooks/useLocale';
+
+interface BatchImportProps {
+  unitSystem: UnitSystem;
+  methodSettings: MethodSettings;
+  onSaveToClients: (items: { name: string; entry: HistoryEntry }[]) => void;
+}
+
+type SortKey = 'line' | 'name' | 'age' | 'consensus' | MethodKey;
+
+const buttonClass = 'px-5 py-2 text-base bg-card hover:bg-card-hover text-fg font-semibold rounded-lg transition duration-200 ease-in-out shadow-md border border-line inline-flex items-center disabled:opacity-60';
+
+const sortValue = (row: BatchRow, key: SortKey): number | string | null => {
+  switch (key) {
+    case 'line': return row.line;
+    case 'name': return row.name.toLocaleLowerCase();
+    case 'age': return row.inputs?.age ?? null;
+    case 'consensus': return row.results?.consensus?.value ?? null;
+    default: return row.results?.methods[key].value ?? null;
+  }
+};
+
+/** Missing values always sort last, whatever the direction. */
+const compareRows = (key: SortKey, direction: 1 | -1) => (a: BatchRow, b: BatchRow): number => {
+  const va = sortValue(a, key);
+  const vb = sortValue(b, key);
+  if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+  return (va < vb ? -1 : va > vb ? 1 : 0) * direction;
+};
+
+const BatchImport: React.FC<BatchImportProps> = ({ unitSystem, methodSettings, onSaveToClients }) => {
+  const { t, formatValue, methodName } = useLocale();
+  const [fileName, setFileName] = useState<string>('');
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [missingColumns, setMissingColumns] = useState<string[]>([]);
+  const [sort, setSort] = useState<{ key: SortKey; direction: 1 | -1 }>({ key: 'line', direction: 1 });
+  const [savedCount, setSavedCount] = useState<number | null>(null);
+
+  const methodKeys = useMemo(() => getMethodKeys().filter(key => rows.some(r => r.results?.methods[key]?.value != null)), [rows]);
+  const sortedRows = useMemo(() => [...rows].sort(compareRows(sort.key, sort.direction)), [rows, sort]);
+  const validRows = rows.filter(r => r.results !== null);
+
+  const fieldLabels: Record<BatchField, string> = {
+    name: t.batchNameColumn, sex: t.coachSexLabel, skinfoldProtocol: t.coachCaliperLabel,
+    age: t.ageLabel, weightKg: t.weightLabel, heightCm: t.heightLabel, neckCm: t.neckLabel, waistCm: t.waistLabel, hipCm: t.hipLabel,
+    ...t.skinfoldSites,
+  };
+  const describeIssue = (issue: BatchIssue) => `${fieldLabels[issue.field]}: ${t.batchProblems[issue.problem]}`;
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      const parsed = parseBatchCsv(text, methodSettings);
+      setFileName(file.name);
+      setRows(parsed.rows);
+      setMissingColumns(parsed.missingColumns);
+      setSavedCount(null);
+    });
+  };
+  const handleSort = (key: SortKey) => setSort(prev => ({ key, direction: prev.key === key ? (prev.direction === 1 ? -1 : 1) : 1 }));
+  const handleExport = () => downloadFile(batchResultsToCsv(sortedRows), `${exportFileName('bodyfat-batch')}.csv`, 'text/csv;charset=utf-8');
+  const handleSave = () => {
+    onSaveToClients(validRows.map(row => ({ name: row.name, entry: createHistoryEntry(row.inputs!, row.results!, row.category, unitSystem) })));
+    setSavedCount(validRows.length);
+  };
+
+  const header = (key: SortKey, label: string) => (
+    <th className="px-3 py-2 text-left whitespace-nowrap" aria-sort={sort.key === key ? (sort.direction === 1 ? 'ascending' : 'descending') : 'none'}>
+      <button onClick={() => handleSort(key)} className="inline-flex items-center gap-1 font-semibold" style={{ color: sort.key === key ? PALETTE.ACCENT : PALETTE.TEXT_SECONDARY }}>
+        {label} {sort.key === key && (sort.direction === 1 ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <div>
+      <p className="text-sm mb-4 max-w-3xl" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.batchIntro}</p>
+      <div className="flex flex-wrap gap-3 mb-6">
+        <label className={`${buttonClass} cursor-pointer`}>
+          <Upload className="mr-2 h-5 w-5" /> {t.batchChooseFile}
+          <input type="file" accept=".csv,text/csv" onChange={handleFile} className="sr-only" />
+        </label>
+        <button onClick={() => downloadFile(BATCH_TEMPLATE_CSV, 'bodyfat-batch-template.csv', 'text/csv;charset=utf-8')} className={buttonClass}>
+          <FileSpreadsheet className="mr-2 h-5 w-5" /> {t.batchDownloadTemplate}
+        </button>
+        {validRows.length > 0 && (
+          <>
+            <button onClick={handleExport} className={buttonClass}><FileSpreadsheet className="mr-2 h-5 w-5" /> {t.batchExportCsv}</button>
+            <button onClick={handleSave} disabled={savedCount !== null} className={buttonClass}><UserPlus className="mr-2 h-5 w-5" /> {t.batchSaveToClients}</button>
+          </>
+        )}
+      </div>
+
+      {missingColumns.length > 0 && <p className="mb-4" style={{ color: PALETTE.ERROR_COLOR }}>{t.batchMissingColumns(missingColumns.join(', '))}</p>}
+      {fileName && missingColumns.length === 0 && <p className="mb-2 text-sm" style={{ color: PALETTE.TEXT_SECONDARY }}>{fileName}: {t.batchSummary(validRows.length, rows.length)}</p>}
+      {savedCount !== null && <p className="mb-2 text-sm" style={{ color: PALETTE.SUCCESS_COLOR }}>{t.batchSaved(savedCount)}</p>}
+
+      {rows.length > 0 && (
+        <div className="overflow-x-auto rounded-lg border" style={{ borderColor: PALETTE.BORDER_COLOR }}>
+          <table className="min-w-full text-sm">
+            <thead style={{ background: PALETTE.CARD_BACKGROUND }}>
+              <tr>
+                {header('line', '#')}
+                {header('name', t.batchNameColumn)}
+                <th className="px-3 py-2 text-left font-semibold" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.coachSexLabel}</th>
+                {header('age', t.ageLabel)}
+                {header('consensus', t.consensusBfTitle)}
+                <th className="px-3 py-2 text-left font-semibold" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.categoryResultTitle}</th>
+                {methodKeys.map(key => <React.Fragment key={key}>{header(key, methodName(key))}</React.Fragment>)}
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRows.map(row => (
+                <tr key={row.line} className="border-t" style={{ borderColor: PALETTE.BORDER_COLOR }}>
+                  <td className="px-3 py-2" style={{ color: PALETTE.TEXT_SECONDARY }}>{row.line}</td>
+                  <td className="px-3 py-2 font-semibold">{row.name || '-'}</td>
+                  {row.results ? (
+                    <>
+                      <td className="px-3 py-2">{row.inputs?.sex === 'male' ? t.genderMale : t.genderFemale}</td>
+                      <td className="px-3 py-2">{row.inputs?.age}</td>
+                      <td className="px-3 py-2 font-bold" style={{ color: PALETTE.ERROR_COLOR }}>{formatValue(row.results.consensus?.value)}%</td>
+                      <td className="px-3 py-2">{t.categoryNames[row.category]}</td>
+                      {methodKeys.map(key => <td key={key} className="px-3 py-2" style={{ color: PALETTE.ACCENT }}>{formatValue(row.results?.methods[key]?.value)}</td>)}
+                    </>
+                  ) : (
+                    <td colSpan={4 + methodKeys.length} className="px-3 py-2" style={{ color: PALETTE.ERROR_COLOR }}>{row.issues.map(describeIssue).join('; ')}</td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchImport;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { BodyMeasurements, calculateBodyFat, getBfCategory, MethodKey, MethodSettings } from '../../lib/bodyFat';
+import { ClientProfile } from '../../lib/clients';
+import { createHistoryEntry, HistoryEntry } from '../../lib/history';
+import { UnitSystem } from '../../lib/units';
+import { PALETTE } from '../BodyFatEstimator/palette';
+import { useLocale } from '../../hooks/useLocale';
+import HistoryTrendChart from '../History/HistoryTrendChart';
+import CompactMeasurementForm from './CompactMeasurementForm';
+
+interface ClientPanelProps {
+  clients: ClientProfile[];
+  unitSystem: UnitSystem;
+  methodSettings: MethodSettings;
+  chartKey: number;
+  onAddClient: (name: string) => ClientProfile;
+  onRenameClient: (id: string, name: string) => void;
+  onDeleteClient: (id: string) => void;
+  onAddEntry: (clientId: string, entry: HistoryEntry) => void;
+  onDeleteEntry: (clientId: string, entryId: string) => void;
+}
+
+const iconButtonClass = 'p-2 rounded-md border hover:bg-line transition';
+
+const ClientPanel: React.FC<ClientPanelProps> = ({ clients, unitSystem, methodSettings, chartKey, onAddClient, onRenameClient, onDeleteClient, onAddEntry, onDeleteEntry }) => {
+  const { t, formatValue, formatDate, methodName } = useLocale();
+  const [newName, setNewName] = useState<string>('');
+  const [selectedId, setSelectedId] = useState<string | null>(clients[0]?.id ?? null);
+  const selected = clients.find(c => c.id === selectedId) ?? null;
+  const latest = selected && selected.history.length > 0 ? selected.history[selected.history.length - 1] : null;
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    setSelectedId(onAddClient(newName).id);
+    setNewName('');
+  };
+  const handleRename = (client: ClientProfile) => {
+    const name = window.prompt(t.coachRenamePrompt, client.name);
+    if (name && name.trim()) onRenameClient(client.id, name);
+  };
+  const handleDelete = (client: ClientProfile) => {
+    if (!window.confirm(t.coachDeleteClientConfirm(client.name))) return;
+    onDeleteClient(client.id);
+    if (client.id === selectedId) setSelectedId(null);
+  };
+  const handleSubmit = (inputs: BodyMeasurements) => {
+    if (!selected) return;
+    const results = calculateBodyFat(inputs, methodSettings);
+    onAddEntry(selected.id, createHistoryEntry(inputs, results, getBfCategory(results.consensus?.value ?? null, inputs.sex), unitSystem));
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      <aside className="lg:col-span-1">
+        <form onSubmit={handleAdd} className="flex gap-2 mb-4">
+          <input type="text" value={newName} onChange={e => setNewName(e.target.value)} placeholder={t.coachNewClientPlaceholder} aria-label={t.coachNewClientPlaceholder} className={`px-3 py-2 rounded-lg outline-none text-fg border flex-1 min-w-0 border-line focus:border-accent`} style={{ background: PALETTE.CARD_BACKGROUND }} />
+          <button type="submit" title={t.coachAddClient} aria-label={t.coachAddClient} className="px-3 rounded-lg" style={{ background: PALETTE.ACCENT, color: PALETTE.ON_ACCENT }}><Plus size={18} /></button>
+        </form>
+        {clients.length === 0 ? (
+          <p className="text-sm" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.coachNoClients}</p>
+        ) : (
+          <ul className="space-y-2">
+            {clients.map(client => (
+              <li key={client.id} className="flex items-center gap-2">
+                <button onClick={() => setSelectedId(client.id)} aria-pressed={client.id === selectedId} className="flex-1 text-left px-3 py-2 rounded-lg border transition truncate" style={{ background: client.id === selectedId ? PALETTE.ACCENT : PALETTE.CARD_BACKGROUND, color: client.id === selectedId ? PALETTE.ON_ACCENT : PALETTE.TEXT_PRIMARY, borderColor: PALETTE.BORDER_COLOR }}>
+                  {client.name} <span className="text-xs opacity-75">({client.history.length})</span>
+                </button>
+                <button onClick={() => handleRename(client)} title={t.coachRename} aria-label={t.coachRename} className={iconButtonClass} style={{ borderColor: PALETTE.BORDER_COLOR, color: PALETTE.TEXT_SECONDARY }}><Pencil size={14} /></button>
+                <button onClick={() => handleDelete(client)} title={t.coachDeleteClient} aria-label={t.coachDeleteClient} className={iconButtonClass} style={{ borderColor: PALETTE.BORDER_COLOR, color: PALETTE.ERROR_COLOR }}><Trash2 size={14} /></button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </aside>
+
+      <section className="lg:col-span-3">
+        {!selected ? (
+          <p className="text-center py-10" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.coachSelectClient}</p>
+        ) : (
+          <>
+            <h3 className="text-2xl font-bold mb-4" style={{ color: PALETTE.ACCENT }}>{selected.name}</h3>
+            <CompactMeasurementForm key={selected.id} unitSystem={unitSystem} onSubmit={handleSubmit} />
+
+            {latest && (
+              <div className="mt-6 p-5 rounded-lg border" style={{ background: PALETTE.CARD_BACKGROUND, borderColor: PALETTE.BORDER_COLOR }}>
+                <p className="text-sm mb-2" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.coachLatestResult} · {formatDate(latest.date)}</p>
+                <p className="text-xl font-bold mb-3">
+                  <span style={{ color: PALETTE.ERROR_COLOR }}>{t.consensusBfTitle}: {formatValue(latest.averageBf)}%</span>
+                  <span className="ml-3 text-base" style={{ color: PALETTE.TEXT_PRIMARY }}>{t.categoryNames[latest.category]}</span>
+                </p>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+                  {(Object.entries(latest.methods) as [MethodKey, number | null][]).filter(([, v]) => v !== null).map(([key, v]) => (
+                    <div key={key}>
+                      <p className="text-xs" style={{ color: PALETTE.TEXT_SECONDARY }}>{methodName(key)}</p>
+                      <p className="font-semibold" style={{ color: PALETTE.ACCENT }}>{formatValue(v)}%</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {selected.history.length > 0 && (
+              <div className="mt-8">
+                <h4 className="text-xl font-bold mb-4 text-center" style={{ color: PALETTE.ACCENT }}>{t.historyTrendTitle}</h4>
+                <HistoryTrendChart entries={selected.history} unitSystem={unitSystem} chartKey={chartKey} />
+                <ul className="mt-4 space-y-2 text-sm">
+                  {[...selected.history].reverse().map(entry => (
+                    <li key={entry.id} className="flex items-center justify-between p-3 rounded-lg border" style={{ background: PALETTE.CARD_BACKGROUND, borderColor: PALETTE.BORDER_COLOR }}>
+                      <span>{formatDate(entry.date)}</span>
+                      <span className="font-semibold" style={{ color: PALETTE.ACCENT }}>{formatValue(entry.averageBf)}%</span>
+                      <span>{t.categoryNames[entry.category]}</span>
+                      <button onClick={() => { if (window.confirm(t.historyDeleteConfirm)) onDeleteEntry(selected.id, entry.id); }} title={t.historyDelete} aria-label={t.historyDelete} className={iconButtonClass} style={{ borderColor: PALETTE.BORDER_COLOR, color: PALETTE.ERROR_COLOR }}><Trash2 size={14} /></button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ClientPanel;
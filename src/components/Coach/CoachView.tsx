@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { ArrowLeft } from 'lucide-react';
+import { MethodSettings } from '../../lib/bodyFat';
+import { UnitSystem } from '../../lib/units';
+import { PALETTE } from '../BodyFatEstimator/palette';
+import { useLocale } from '../../hooks/useLocale';
+import { useClientProfiles } from '../../hooks/useClientProfiles';
+import ClientPanel from './ClientPanel';
+import BatchImport from './BatchImport';
+
+interface CoachViewProps {
+  methodSettings: MethodSettings;
+  chartKey: number;
+  onClose: () => void;
+}
+
+type CoachTab = 'clients' | 'batch';
+
+const CoachView: React.FC<CoachViewProps> = ({ methodSettings, chartKey, onClose }) => {
+  const { t } = useLocale();
+  const [tab, setTab] = useState<CoachTab>('clients');
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>('metric');
+  const { clients, addClient, renameClient, deleteClient, addClientEntry, deleteClientEntry, importEntries } = useClientProfiles();
+
+  const toggleButton = (active: boolean) => ({ background: active ? PALETTE.ACCENT : PALETTE.CARD_BACKGROUND, color: active ? PALETTE.ON_ACCENT : PALETTE.TEXT_PRIMARY });
+
+  return (
+    <div className="py-8">
+      <h2 className="text-3xl font-bold mb-6 text-center" style={{ color: PALETTE.ACCENT }}>{t.coachTitle}</h2>
+
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+        <div className="flex rounded-lg overflow-hidden border" role="tablist" style={{ borderColor: PALETTE.BORDER_COLOR }}>
+          {(['clients', 'batch'] as CoachTab[]).map(key => (
+            <button key={key} role="tab" aria-selected={tab === key} onClick={() => setTab(key)} className="px-4 py-2 font-semibold transition" style={toggleButton(tab === key)}>
+              {key === 'clients' ? t.coachClientsTab : t.coachBatchTab}
+            </button>
+          ))}
+        </div>
+        {tab === 'clients' && (
+          <div className="flex rounded-lg overflow-hidden border text-sm" role="group" style={{ borderColor: PALETTE.BORDER_COLOR }}>
+            {(['metric', 'imperial'] as UnitSystem[]).map(system => (
+              <button key={system} aria-pressed={unitSystem === system} onClick={() => setUnitSystem(system)} className="px-3 py-2 font-semibold transition" style={toggleButton(unitSystem === system)}>
+                {system === 'metric' ? `${t.unitKg} / ${t.unitCm}` : `${t.unitLbs} / ${t.unitIn}`}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="mb-12">
+        {tab === 'clients' ? (
+          <ClientPanel clients={clients} unitSystem={unitSystem} methodSettings={methodSettings} chartKey={chartKey} onAddClient={addClient} onRenameClient={renameClient} onDeleteClient={deleteClient} onAddEntry={addClientEntry} onDeleteEntry={deleteClientEntry} />
+        ) : (
+          <BatchImport unitSystem={unitSystem} methodSettings={methodSettings} onSaveToClients={importEntries} />
+        )}
+      </div>
+
+      <div className="text-center">
+        <button onClick={onClose} className="px-8 py-3 text-lg bg-card hover:bg-card-hover text-fg font-semibold rounded-lg transition duration-200 ease-in-out shadow-md border border-line inline-flex items-center">
+          <ArrowLeft className="mr-2 h-6 w-6" /> {t.historyBack}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CoachView;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { BodyMeasurements, MeasurementKey, Sex, SKINFOLD_SITES, SkinfoldProtocol, SkinfoldSite } from '../../lib/bodyFat';
+import { cmToIn, inToCm, kgToLbs, lbsToKg, UnitSystem } from '../../lib/units';
+import { INPUT_LIMITS, isWithinLimits, SKINFOLD_LIMITS } from '../../lib/inputLimits';
+import { PALETTE } from '../BodyFatEstimator/palette';
+import { useLocale } from '../../hooks/useLocale';
+
+interface CompactMeasurementFormProps {
+  unitSystem: UnitSystem;
+  onSubmit: (inputs: BodyMeasurements) => void;
+  /** Prefix of the input ids, for pages showing more than one form. */
+  idPrefix?: string;
+}
+
+type FieldValues = Record<MeasurementKey, string>;
+
+const EMPTY_FIELDS: FieldValues = { age: '', weightKg: '', heightCm: '', neckCm: '', waistCm: '', hipCm: '' };
+const PROTOCOLS: SkinfoldProtocol[] = ['JP3', 'JP7', 'DW'];
+
+/** All wizard inputs on one page. Lengths are entered in cm or inches (height included) depending on `unitSystem`. */
+const CompactMeasurementForm: React.FC<CompactMeasurementFormProps> = ({ unitSystem, onSubmit, idPrefix = 'coach' }) => {
+  const { t, parseState, formatForInput } = useLocale();
+  const [sex, setSex] = useState<Sex>('male');
+  const [fields, setFields] = useState<FieldValues>(EMPTY_FIELDS);
+  const [protocol, setProtocol] = useState<SkinfoldProtocol | null>(null);
+  const [sites, setSites] = useState<Partial<Record<SkinfoldSite, string>>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const isMetric = unitSystem === 'metric';
+
+  const toMetric = (key: MeasurementKey, v: number) => (isMetric || key === 'age' ? v : key === 'weightKg' ? lbsToKg(v) : inToCm(v));
+  const toDisplay = (key: MeasurementKey, v: number) => (isMetric || key === 'age' ? v : key === 'weightKg' ? kgToLbs(v) : cmToIn(v));
+  const unitFor = (key: MeasurementKey) => (key === 'age' ? '' : key === 'weightKg' ? (isMetric ? t.unitKg : t.unitLbs) : isMetric ? t.unitCm : t.unitIn);
+  const labels: Record<MeasurementKey, string> = { age: t.ageLabel, weightKg: t.weightLabel, heightCm: t.heightLabel, neckCm: t.neckLabel, waistCm: t.waistLabel, hipCm: t.hipLabel };
+  const visibleKeys = (Object.keys(EMPTY_FIELDS) as MeasurementKey[]).filter(key => key !== 'hipCm' || sex === 'female');
+  const siteList = protocol ? SKINFOLD_SITES[protocol][sex] : [];
+
+  const rangeError = (limits: [number, number], convert: (v: number) => number) => t.errorRange(formatForInput(convert(limits[0]), 0), formatForInput(convert(limits[1]), 0));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const nextErrors: Record<string, string> = {};
+    const values = {} as Record<MeasurementKey, number | null>;
+    visibleKeys.forEach(key => {
+      const v = parseState(fields[key]);
+      values[key] = null;
+      if (fields[key].trim() === '') nextErrors[key] = t.coachFieldRequired;
+      else if (v === null) nextErrors[key] = t.errorInvalidNumber;
+      else if (!isWithinLimits(toMetric(key, v), INPUT_LIMITS[key])) nextErrors[key] = rangeError(INPUT_LIMITS[key], m => toDisplay(key, m));
+      else values[key] = toMetric(key, v);
+    });
+    const skinfoldSites: Partial<Record<SkinfoldSite, number>> = {};
+    siteList.forEach(site => {
+      const v = parseState(sites[site] ?? '');
+      if (v === null) nextErrors[site] = t.errorSkinfoldRequired;
+      else if (!isWithinLimits(v, SKINFOLD_LIMITS)) nextErrors[site] = rangeError(SKINFOLD_LIMITS, m => m);
+      else skinfoldSites[site] = v;
+    });
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) return;
+
+    const { age, weightKg, heightCm, neckCm, waistCm, hipCm } = values;
+    if (age === null || weightKg === null || heightCm === null) return;
+    onSubmit({ sex, age, weightKg, heightCm, neckCm, waistCm, hipCm: sex === 'female' ? hipCm : null, skinfolds: protocol ? { protocol, sites: skinfoldSites } : null });
+    setFields(EMPTY_FIELDS);
+    setSites({});
+  };
+
+  const inputClass = (hasError: boolean) => `px-3 py-2 rounded-lg outline-none text-fg border w-full ${hasError ? `border-error` : `border-line focus:border-accent`}`;
+  const labelClass = 'text-xs font-semibold mb-1 block';
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="p-5 rounded-lg border" style={{ background: PALETTE.CARD_BACKGROUND, borderColor: PALETTE.BORDER_COLOR }}>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-4">
+        <div>
+          <label htmlFor={`${idPrefix}-sex`} className={labelClass} style={{ color: PALETTE.TEXT_SECONDARY }}>{t.coachSexLabel}</label>
+          <select id={`${idPrefix}-sex`} value={sex} onChange={e => setSex(e.target.value as Sex)} className={inputClass(false)} style={{ background: PALETTE.BACKGROUND }}>
+            <option value="male">{t.genderMale}</option>
+            <option value="female">{t.genderFemale}</option>
+          </select>
+        </div>
+        {visibleKeys.map(key => (
+          <div key={key}>
+            <label htmlFor={`${idPrefix}-${key}`} className={labelClass} style={{ color: PALETTE.TEXT_SECONDARY }}>{labels[key]}{unitFor(key) && ` (${unitFor(key)})`}</label>
+            <input id={`${idPrefix}-${key}`} type="text" inputMode="decimal" value={fields[key]} onChange={e => setFields(prev => ({ ...prev, [key]: e.target.value }))} className={inputClass(!!errors[key])} style={{ background: PALETTE.BACKGROUND }} />
+            {errors[key] && <p className="text-xs mt-1" style={{ color: PALETTE.ERROR_COLOR }}>{errors[key]}</p>}
+          </div>
+        ))}
+        <div>
+          <label htmlFor={`${idPrefix}-protocol`} className={labelClass} style={{ color: PALETTE.TEXT_SECONDARY }}>{t.coachCaliperLabel}</label>
+          <select id={`${idPrefix}-protocol`} value={protocol ?? ''} onChange={e => setProtocol((e.target.value || null) as SkinfoldProtocol | null)} className={inputClass(false)} style={{ background: PALETTE.BACKGROUND }}>
+            <option value="">{t.caliperNone}</option>
+            {PROTOCOLS.map(p => <option key={p} value={p}>{t.caliperProtocols[p]}</option>)}
+          </select>
+        </div>
+        {siteList.map(site => (
+          <div key={site}>
+            <label htmlFor={`${idPrefix}-skf-${site}`} className={labelClass} style={{ color: PALETTE.TEXT_SECONDARY }}>{t.skinfoldSites[site]} ({t.unitMm})</label>
+            <input id={`${idPrefix}-skf-${site}`} type="text" inputMode="decimal" value={sites[site] ?? ''} onChange={e => setSites(prev => ({ ...prev, [site]: e.target.value }))} className={inputClass(!!errors[site])} style={{ background: PALETTE.BACKGROUND }} />
+            {errors[site] && <p className="text-xs mt-1" style={{ color: PALETTE.ERROR_COLOR }}>{errors[site]}</p>}
+          </div>
+        ))}
+      </div>
+      <div className="text-right">
+        <button type="submit" className="px-6 py-2 font-bold rounded-lg transition duration-200 ease-in-out shadow-md" style={{ background: PALETTE.ACCENT, color: PALETTE.ON_ACCENT }}>{t.coachCalculate}</button>
+      </div>
+    </form>
+  );
+};
+
+export default CompactMeasurementForm;
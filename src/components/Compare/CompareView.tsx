@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, ArrowRight } from 'lucide-react';
+import { MethodSettings } from '../../lib/bodyFat';
+import { compareSessions, toComparedSession } from '../../lib/comparison';
+import { HistoryEntry } from '../../lib/history';
+import { kgToLbs, UnitSystem } from '../../lib/units';
+import { PALETTE } from '../BodyFatEstimator/palette';
+import { useLocale } from '../../hooks/useLocale';
+import { useClientProfiles } from '../../hooks/useClientProfiles';
+import SessionPicker, { PickedSession, SessionSourceGroup } from './SessionPicker';
+import ComparisonChart from './ComparisonChart';
+
+interface CompareViewProps {
+  historyEntries: HistoryEntry[];
+  unitSystem: UnitSystem;
+  methodSettings: MethodSettings;
+  chartKey: number;
+  onClose: () => void;
+}
+
+/** Colour for a change where going down is the good direction (BF%, fat mass); `invert` for lean mass. */
+const deltaColor = (delta: number | null, invert = false): string => {
+  if (delta === null || Math.abs(delta) < 0.05) return PALETTE.TEXT_PRIMARY;
+  return (delta < 0) !== invert ? PALETTE.SUCCESS_COLOR : PALETTE.WARNING_COLOR;
+};
+
+/** Two check-ins side by side: per-method deltas, where the weight change went and the category transition. */
+const CompareView: React.FC<CompareViewProps> = ({ historyEntries, unitSystem, methodSettings, chartKey, onClose }) => {
+  const { t, formatValue, methodName } = useLocale();
+  const { clients } = useClientProfiles();
+  const [before, setBefore] = useState<PickedSession | null>(null);
+  const [after, setAfter] = useState<PickedSession | null>(null);
+  const isMetric = unitSystem === 'metric';
+  const massUnit = isMetric ? t.unitKg : t.unitLbs;
+
+  const groups: SessionSourceGroup[] = [
+    { label: t.compareHistoryGroup, entries: historyEntries },
+    ...clients.map(client => ({ label: t.compareClientGroup(client.name), entries: client.history })),
+  ];
+
+  const comparison = useMemo(
+    () => (before && after ? compareSessions(toComparedSession(before.inputs, methodSettings), toComparedSession(after.inputs, methodSettings)) : null),
+    [before, after, methodSettings],
+  );
+
+  const signed = (v: number | null) => (v === null ? '–' : `${v > 0 ? '+' : ''}${formatValue(v)}`);
+  const mass = (kg: number | null) => (kg === null ? null : isMetric ? kg : kgToLbs(kg));
+  const categoryText = comparison && (comparison.category.direction === 'leaner' ? t.compareCategoryLeaner : comparison.category.direction === 'higher' ? t.compareCategoryHigher : comparison.category.direction === 'same' ? t.compareCategorySame : null);
+
+  return (
+    <div className="py-8">
+      <h2 className="text-3xl font-bold mb-4 text-center" style={{ color: PALETTE.ACCENT }}>{t.compareTitle}</h2>
+      <p className="text-center text-sm mb-8 max-w-2xl mx-auto" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.compareIntro}</p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-10">
+        <SessionPicker id="compare-before" title={t.compareBefore} groups={groups} unitSystem={unitSystem} session={before} onChange={setBefore} />
+        <SessionPicker id="compare-after" title={t.compareAfter} groups={groups} unitSystem={unitSystem} session={after} onChange={setAfter} />
+      </div>
+
+      {!comparison ? (
+        <p className="text-center py-6" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.compareNeedsBoth}</p>
+      ) : (
+        <>
+          {comparison.sexChanged && <p role="alert" className="max-w-2xl mx-auto mb-8 p-4 rounded-lg border text-sm" style={{ background: PALETTE.CARD_BACKGROUND, borderColor: PALETTE.WARNING_COLOR }}>{t.compareSexMismatch}</p>}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-5 mb-10">
+            <section className="p-4 rounded-lg shadow border" style={{ background: PALETTE.CARD_BACKGROUND, borderColor: PALETTE.BORDER_COLOR }}>
+              <h3 className="text-sm font-semibold mb-3" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.compareCategoryTitle}</h3>
+              <p className="text-xl font-bold mb-2 flex items-center gap-2 flex-wrap">
+                <span>{t.categoryNames[comparison.category.before]}</span>
+                <ArrowRight size={18} aria-hidden="true" style={{ color: PALETTE.TEXT_SECONDARY }} />
+                <span style={{ color: PALETTE.ACCENT }}>{t.categoryNames[comparison.category.after]}</span>
+              </p>
+              {categoryText && <p className="text-xs" style={{ color: PALETTE.TEXT_SECONDARY }}>{categoryText}</p>}
+            </section>
+            <section className="p-4 rounded-lg shadow border" style={{ background: PALETTE.CARD_BACKGROUND, borderColor: PALETTE.BORDER_COLOR }}>
+              <h3 className="text-sm font-semibold mb-3" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.compareMassTitle}</h3>
+              <dl className="grid grid-cols-3 gap-2 mb-2">
+                {[
+                  { label: t.compareWeightChange, value: mass(comparison.mass.weightKg), color: PALETTE.TEXT_PRIMARY },
+                  { label: t.compareFatChange, value: mass(comparison.mass.fatKg), color: deltaColor(comparison.mass.fatKg) },
+                  { label: t.compareLeanChange, value: mass(comparison.mass.leanKg), color: deltaColor(comparison.mass.leanKg, true) },
+                ].map(item => (
+                  <div key={item.label}>
+                    <dt className="text-xs" style={{ color: PALETTE.TEXT_SECONDARY }}>{item.label}</dt>
+                    <dd className="text-lg font-bold" style={{ color: item.color }}>{signed(item.value)} {massUnit}</dd>
+                  </div>
+                ))}
+              </dl>
+              <p className="text-xs" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.compareMassNote}</p>
+            </section>
+          </div>
+
+          <section className="mb-10 max-w-3xl mx-auto">
+            <h3 className="text-2xl font-bold mb-4 text-center" style={{ color: PALETTE.ACCENT }}>{t.compareMethodsTitle}</h3>
+            <div className="overflow-x-auto rounded-lg border" style={{ borderColor: PALETTE.BORDER_COLOR }}>
+              <table className="w-full text-sm">
+                <thead style={{ background: PALETTE.CARD_BACKGROUND, color: PALETTE.TEXT_SECONDARY }}>
+                  <tr>
+                    <th scope="col" className="text-left p-3">{t.compareMethodColumn}</th>
+                    <th scope="col" className="text-right p-3">{t.compareBefore}</th>
+                    <th scope="col" className="text-right p-3">{t.compareAfter}</th>
+                    <th scope="col" className="text-right p-3">{t.compareDeltaColumn}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...comparison.methods.map(m => ({ ...m, label: methodName(m.key) })), { ...comparison.consensus, key: 'consensus', label: t.consensusBfTitle }].map(row => (
+                    <tr key={row.key} className={`border-t ${row.key === 'consensus' ? 'font-bold' : ''}`} style={{ borderColor: PALETTE.BORDER_COLOR }}>
+                      <th scope="row" className={`text-left p-3 ${row.key === 'consensus' ? '' : 'font-normal'}`}>{row.label}</th>
+                      <td className="text-right p-3">{row.before === null ? '–' : `${formatValue(row.before)}%`}</td>
+                      <td className="text-right p-3">{row.after === null ? '–' : `${formatValue(row.after)}%`}</td>
+                      <td className="text-right p-3" style={{ color: deltaColor(row.delta) }}>{signed(row.delta)}{row.delta === null ? '' : ` ${t.comparePointsUnit}`}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          <section className="mb-12">
+            <h3 className="text-2xl font-bold mb-6 text-center" style={{ color: PALETTE.ACCENT }}>{t.compareChartTitle}</h3>
+            <ComparisonChart comparison={comparison} chartKey={chartKey} />
+          </section>
+        </>
+      )}
+
+      <div className="text-center">
+        <button onClick={onClose} className="px-8 py-3 text-lg bg-card hover:bg-card-hover text-fg font-semibold rounded-lg transition duration-200 ease-in-out shadow-md border border-line inline-flex items-center">
+          <ArrowLeft className="mr-2 h-6 w-6" /> {t.historyBack}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
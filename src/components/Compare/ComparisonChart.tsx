@@ -0,0 +1,43 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { SessionComparison } from '../../lib/comparison';
+import { PALETTE } from '../BodyFatEstimator/palette';
+import { useLocale } from '../../hooks/useLocale';
+
+interface ComparisonChartProps {
+  comparison: SessionComparison;
+  /** Changing this forces Recharts to re-measure, same as the results chart. */
+  chartKey: number;
+}
+
+/** Grouped bars per method (and the consensus), styled like the results chart. */
+const ComparisonChart: React.FC<ComparisonChartProps> = ({ comparison, chartKey }) => {
+  const { t, formatValue, methodName } = useLocale();
+  const data = [
+    ...comparison.methods.map(m => ({ name: methodName(m.key), before: m.before, after: m.after })),
+    { name: t.consensusBfTitle, before: comparison.consensus.before, after: comparison.consensus.after },
+  ];
+
+  return (
+    <div style={{ width: '100%', height: 450 }}>
+      <ResponsiveContainer key={chartKey}>
+        <BarChart data={data} margin={{ top: 5, right: 30, left: 0, bottom: 70 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke={PALETTE.GRID_COLOR} />
+          <XAxis dataKey="name" stroke={PALETTE.TEXT_SECONDARY} tick={{ fontSize: 11, fill: PALETTE.TEXT_SECONDARY }} angle={-45} textAnchor="end" height={80} interval={0} />
+          <YAxis stroke={PALETTE.TEXT_SECONDARY} tick={{ fontSize: 11, fill: PALETTE.TEXT_SECONDARY }} unit="%" domain={[0, 'auto']} />
+          <Tooltip
+            cursor={{ fill: 'rgb(var(--color-fg) / 0.1)' }}
+            contentStyle={{ background: PALETTE.CARD_BACKGROUND, borderColor: PALETTE.BORDER_COLOR, color: PALETTE.TEXT_PRIMARY }}
+            labelStyle={{ color: PALETTE.ACCENT, fontWeight: 'bold' }}
+            formatter={(value: number, name: string) => [`${formatValue(value)}%`, name]}
+          />
+          <Legend verticalAlign="top" wrapperStyle={{ color: PALETTE.TEXT_SECONDARY, fontSize: 12, paddingBottom: 8 }} />
+          <Bar dataKey="before" name={t.compareBefore} fill={PALETTE.CHART_COLORS[2]} />
+          <Bar dataKey="after" name={t.compareAfter} fill={PALETTE.ACCENT} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default ComparisonChart;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { BodyMeasurements } from '../../lib/bodyFat';
+import { HistoryEntry } from '../../lib/history';
+import { cmToIn, kgToLbs, UnitSystem } from '../../lib/units';
+import { PALETTE } from '../BodyFatEstimator/palette';
+import { useLocale } from '../../hooks/useLocale';
+import CompactMeasurementForm from '../Coach/CompactMeasurementForm';
+
+/** Inputs for one side of the comparison, loaded from a saved entry (`date` set) or typed in. */
+export type PickedSession = { inputs: BodyMeasurements; date: string | null };
+
+export type SessionSourceGroup = { label: string; entries: HistoryEntry[] };
+
+interface SessionPickerProps {
+  id: string;
+  title: string;
+  groups: SessionSourceGroup[];
+  unitSystem: UnitSystem;
+  session: PickedSession | null;
+  onChange: (session: PickedSession | null) => void;
+}
+
+const SessionPicker: React.FC<SessionPickerProps> = ({ id, title, groups, unitSystem, session, onChange }) => {
+  const { t, formatValue, formatDate } = useLocale();
+  const isMetric = unitSystem === 'metric';
+  const available = groups.filter(group => group.entries.length > 0);
+  const waistCm = session?.inputs.waistCm ?? null;
+
+  const handleSelect = (entryId: string) => {
+    const entry = available.flatMap(group => group.entries).find(e => e.id === entryId);
+    if (entry) onChange({ inputs: entry.inputs, date: entry.date });
+  };
+
+  return (
+    <section className="p-5 rounded-lg border" style={{ background: PALETTE.CARD_BACKGROUND, borderColor: PALETTE.BORDER_COLOR }}>
+      <h3 className="text-xl font-bold mb-4" style={{ color: PALETTE.ACCENT }}>{title}</h3>
+      {session ? (
+        <div className="flex items-start justify-between gap-4">
+          <div className="text-sm space-y-1">
+            <p className="font-semibold">{session.date ? formatDate(session.date) : t.compareEnteredLabel}</p>
+            <p style={{ color: PALETTE.TEXT_SECONDARY }}>
+              {session.inputs.sex === 'male' ? t.genderMale : t.genderFemale} · {session.inputs.age} · {formatValue(isMetric ? session.inputs.weightKg : kgToLbs(session.inputs.weightKg))} {isMetric ? t.unitKg : t.unitLbs}
+              {waistCm !== null && <> · {t.waistLabel} {formatValue(isMetric ? waistCm : cmToIn(waistCm))} {isMetric ? t.unitCm : t.unitIn}</>}
+            </p>
+          </div>
+          <button onClick={() => onChange(null)} className="px-3 py-1 text-sm rounded-md border hover:bg-line transition" style={{ borderColor: PALETTE.BORDER_COLOR, color: PALETTE.TEXT_SECONDARY }}>{t.compareChange}</button>
+        </div>
+      ) : (
+        <>
+          {available.length > 0 && (
+            <div className="mb-4">
+              <label htmlFor={`${id}-source`} className="text-xs font-semibold mb-1 block" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.compareLoadLabel}</label>
+              <select id={`${id}-source`} value="" onChange={e => handleSelect(e.target.value)} className="px-3 py-2 rounded-lg outline-none text-fg border w-full border-line focus:border-accent" style={{ background: PALETTE.BACKGROUND }}>
+                <option value="">{t.compareLoadPlaceholder}</option>
+                {available.map(group => (
+                  <optgroup key={group.label} label={group.label}>
+                    {[...group.entries].reverse().map(entry => <option key={entry.id} value={entry.id}>{formatDate(entry.date)} · {formatValue(entry.averageBf)}%</option>)}
+                  </optgroup>
+                ))}
+              </select>
+              <p className="text-xs mt-4" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.compareOrEnter}</p>
+            </div>
+          )}
+          <CompactMeasurementForm idPrefix={id} unitSystem={unitSystem} onSubmit={inputs => onChange({ inputs, date: null })} />
+        </>
+      )}
+    </section>
+  );
+};
+
+export default SessionPicker;
@@ -9,14 +9,14 @@ interface FeatureCardProps {
 
 const FeatureCard: React.FC<FeatureCardProps> = ({ icon: Icon, title, description }) => {
   return (
-    <div className="p-6 rounded-xl border border-gray-100 bg-white shadow-sm hover:shadow-md transition-shadow duration-300 h-full">
-      <div className="w-12 h-12 bg-indigo-100 rounded-lg flex items-center justify-center mb-4">
-        <Icon className="h-6 w-6 text-indigo-600" />
+    <div className="p-6 rounded-xl border border-line bg-card shadow-sm hover:shadow-md transition-shadow duration-300 h-full">
+      <div className="w-12 h-12 bg-background rounded-lg flex items-center justify-center mb-4">
+        <Icon className="h-6 w-6 text-accent" aria-hidden="true" />
       </div>
-      <h3 className="text-lg font-semibold text-gray-900 mb-2">{title}</h3>
-      <p className="text-gray-600">{description}</p>
+      <h3 className="text-lg font-semibold text-fg mb-2">{title}</h3>
+      <p className="text-muted">{description}</p>
     </div>
   );
 };
 
-export default FeatureCard;
\ No newline at end of file
+export default FeatureCard;
@@ -1,61 +1,34 @@
 import React from 'react';
-import { Zap, Layout, Code, Shield, RefreshCw, Users } from 'lucide-react';
+import { FileDown, Layers, LineChart, LucideIcon, ShieldCheck, Sigma, Users } from 'lucide-react';
+import { useLocale } from '../../hooks/useLocale';
+import { Translations } from '../../i18n';
 import FeatureCard from './FeatureCard';
 
-const features = [
-  {
-    icon: Zap,
-    title: 'Lightning Fast',
-    description: 'Optimized performance ensures your application runs smoothly with minimal load times.',
-  },
-  {
-    icon: Layout,
-    title: 'Responsive Design',
-    description: 'Layouts that adapt perfectly to any device size from mobile to desktop.',
-  },
-  {
-    icon: Code,
-    title: 'Clean Code',
-    description: 'Well-structured codebase that follows best practices for maintainability.',
-  },
-  {
-    icon: Shield,
-    title: 'Secure by Default',
-    description: 'Built with security in mind to protect your data and user information.',
-  },
-  {
-    icon: RefreshCw,
-    title: 'Easy Updates',
-    description: 'Simple update process to keep your application current with the latest features.',
-  },
-  {
-    icon: Users,
-    title: 'User-Centric',
-    description: 'Designed with users in mind, creating intuitive and enjoyable experiences.',
-  },
-];
+type FeatureKey = keyof Translations['landingFeatures'];
+
+const FEATURE_ICONS: Record<FeatureKey, LucideIcon> = {
+  methods: Layers,
+  consensus: Sigma,
+  tracking: LineChart,
+  coach: Users,
+  export: FileDown,
+  privacy: ShieldCheck,
+};
 
 const FeaturesSection: React.FC = () => {
+  const { t } = useLocale();
+
   return (
-    <section className="py-16 md:py-24 bg-gray-50" id="features">
+    <section className="py-16 md:py-24 bg-background" id="features">
       <div className="container mx-auto px-4 sm:px-6 lg:px-8">
         <div className="max-w-3xl mx-auto text-center mb-16">
-          <h2 className="text-3xl md:text-4xl font-bold text-gray-900">
-            Powerful Features
-          </h2>
-          <p className="mt-4 text-xl text-gray-600">
-            Everything you need to build modern web applications
-          </p>
+          <h2 className="text-3xl md:text-4xl font-bold text-fg">{t.featuresTitle}</h2>
+          <p className="mt-4 text-xl text-muted">{t.featuresSubtitle}</p>
         </div>
-        
+
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8">
-          {features.map((feature, index) => (
-            <FeatureCard
-              key={index}
-              icon={feature.icon}
-              title={feature.title}
-              description={feature.description}
-            />
+          {(Object.keys(FEATURE_ICONS) as FeatureKey[]).map(key => (
+            <FeatureCard key={key} icon={FEATURE_ICONS[key]} title={t.landingFeatures[key].title} description={t.landingFeatures[key].text} />
           ))}
         </div>
       </div>
@@ -63,4 +36,4 @@ const FeaturesSection: React.FC = () => {
   );
 };
 
-export default FeaturesSection;
\ No newline at end of file
+export default FeaturesSection;
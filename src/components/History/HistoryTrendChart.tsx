@@ -0,0 +1,61 @@
+import React, { useMemo } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { getLeanMassKg, HistoryEntry } from '../../lib/history';
+import { cmToIn, kgToLbs, UnitSystem } from '../../lib/units';
+import { PALETTE } from '../BodyFatEstimator/palette';
+import { useLocale } from '../../hooks/useLocale';
+
+interface HistoryTrendChartProps {
+  entries: HistoryEntry[];
+  unitSystem: UnitSystem;
+  /** Changing this forces Recharts to re-measure, same as the results chart. */
+  chartKey: number;
+}
+
+const HistoryTrendChart: React.FC<HistoryTrendChartProps> = ({ entries, unitSystem, chartKey }) => {
+  const { t, formatValue, formatDate } = useLocale();
+  const isMetric = unitSystem === 'metric';
+  const massUnit = isMetric ? t.unitKg : t.unitLbs;
+  const lengthUnit = isMetric ? t.unitCm : t.unitIn;
+
+  const data = useMemo(() => entries.map(entry => {
+    const leanMassKg = getLeanMassKg(entry);
+    const waistCm = entry.inputs.waistCm ?? null;
+    return {
+      date: formatDate(entry.date),
+      averageBf: entry.averageBf,
+      weight: isMetric ? entry.inputs.weightKg : kgToLbs(entry.inputs.weightKg),
+      waist: waistCm === null ? null : (isMetric ? waistCm : cmToIn(waistCm)),
+      leanMass: leanMassKg === null ? null : (isMetric ? leanMassKg : kgToLbs(leanMassKg)),
+    };
+  }), [entries, isMetric, formatDate]);
+
+  if (entries.length < 2) {
+    return <p style={{ color: PALETTE.TEXT_SECONDARY }} className="text-center py-10">{t.historyTrendNeedsMore}</p>;
+  }
+
+  return (
+    <div style={{ width: '100%', height: 400 }}>
+      <ResponsiveContainer key={chartKey}>
+        <LineChart data={data} margin={{ top: 5, right: 10, left: 0, bottom: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke={PALETTE.GRID_COLOR} />
+          <XAxis dataKey="date" stroke={PALETTE.TEXT_SECONDARY} tick={{ fontSize: 11, fill: PALETTE.TEXT_SECONDARY }} />
+          <YAxis yAxisId="bf" stroke={PALETTE.TEXT_SECONDARY} tick={{ fontSize: 11, fill: PALETTE.TEXT_SECONDARY }} unit="%" domain={[0, 'auto']} />
+          <YAxis yAxisId="abs" orientation="right" stroke={PALETTE.TEXT_SECONDARY} tick={{ fontSize: 11, fill: PALETTE.TEXT_SECONDARY }} domain={['auto', 'auto']} />
+          <Tooltip
+            contentStyle={{ background: PALETTE.CARD_BACKGROUND, borderColor: PALETTE.BORDER_COLOR, color: PALETTE.TEXT_PRIMARY }}
+            labelStyle={{ color: PALETTE.ACCENT, fontWeight: 'bold' }}
+            formatter={(value: number, name: string) => [formatValue(value), name]}
+          />
+          <Legend wrapperStyle={{ color: PALETTE.TEXT_SECONDARY, fontSize: 12 }} />
+          <Line yAxisId="bf" type="monotone" dataKey="averageBf" name={`${t.historySeries.averageBf} (%)`} stroke={PALETTE.CHART_COLORS[0]} strokeWidth={2} connectNulls />
+          <Line yAxisId="abs" type="monotone" dataKey="weight" name={`${t.historySeries.weight} (${massUnit})`} stroke={PALETTE.CHART_COLORS[3]} connectNulls />
+          <Line yAxisId="abs" type="monotone" dataKey="waist" name={`${t.historySeries.waist} (${lengthUnit})`} stroke={PALETTE.CHART_COLORS[5]} connectNulls />
+          <Line yAxisId="abs" type="monotone" dataKey="leanMass" name={`${t.historySeries.leanMass} (${massUnit})`} stroke={PALETTE.CHART_COLORS[6]} connectNulls />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default HistoryTrendChart;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { ArrowLeft, Pencil, Trash2 } from 'lucide-react';
+import { HistoryEntry } from '../../lib/history';
+import { cmToIn, kgToLbs, UnitSystem } from '../../lib/units';
+import { PALETTE } from '../BodyFatEstimator/palette';
+import { useLocale } from '../../hooks/useLocale';
+import HistoryTrendChart from './HistoryTrendChart';
+
+interface HistoryViewProps {
+  entries: HistoryEntry[];
+  unitSystem: UnitSystem;
+  chartKey: number;
+  onEdit: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const HistoryView: React.FC<HistoryViewProps> = ({ entries, unitSystem, chartKey, onEdit, onDelete, onClose }) => {
+  const { t, formatValue, formatDate } = useLocale();
+  const isMetric = unitSystem === 'metric';
+  const newestFirst = [...entries].reverse();
+
+  const handleDelete = (id: string) => {
+    if (window.confirm(t.historyDeleteConfirm)) onDelete(id);
+  };
+
+  return (
+    <div className="py-8">
+      <h2 className="text-3xl font-bold mb-8 text-center" style={{ color: PALETTE.ACCENT }}>{t.historyTitle}</h2>
+
+      {entries.length === 0 ? (
+        <p className="text-center py-10" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.historyEmpty}</p>
+      ) : (
+        <>
+          <section className="mb-12">
+            <h3 className="text-2xl font-bold mb-6 text-center" style={{ color: PALETTE.ACCENT }}>{t.historyTrendTitle}</h3>
+            <HistoryTrendChart entries={entries} unitSystem={unitSystem} chartKey={chartKey} />
+          </section>
+
+          <section className="mb-12 space-y-3 max-w-3xl mx-auto">
+            {newestFirst.map(entry => {
+              const weight = isMetric ? entry.inputs.weightKg : kgToLbs(entry.inputs.weightKg);
+              const waistCm = entry.inputs.waistCm ?? null;
+              const waist = waistCm === null ? null : (isMetric ? waistCm : cmToIn(waistCm));
+              return (
+                <div key={entry.id} className="flex items-center justify-between gap-4 p-4 rounded-lg border" style={{ background: PALETTE.CARD_BACKGROUND, borderColor: PALETTE.BORDER_COLOR }}>
+                  <div className="flex-1 grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+                    <div>
+                      <p style={{ color: PALETTE.TEXT_SECONDARY }}>{t.historyDate}</p>
+                      <p className="font-semibold">{formatDate(entry.date)}</p>
+                    </div>
+                    <div>
+                      <p style={{ color: PALETTE.TEXT_SECONDARY }}>{t.averageBfTitle}</p>
+                      <p className="font-semibold" style={{ color: PALETTE.ACCENT }}>{formatValue(entry.averageBf)}%</p>
+                    </div>
+                    <div>
+                      <p style={{ color: PALETTE.TEXT_SECONDARY }}>{t.historySeries.weight} / {t.historySeries.waist}</p>
+                      <p className="font-semibold">{formatValue(weight)} {isMetric ? t.unitKg : t.unitLbs} / {formatValue(waist)} {isMetric ? t.unitCm : t.unitIn}</p>
+                    </div>
+                    <div>
+                      <p style={{ color: PALETTE.TEXT_SECONDARY }}>{t.categoryResultTitle}</p>
+                      <p className="font-semibold">{t.categoryNames[entry.category]}</p>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <button onClick={() => onEdit(entry)} title={t.historyEdit} aria-label={t.historyEdit} className="p-2 rounded-md border hover:bg-line transition" style={{ borderColor: PALETTE.BORDER_COLOR, color: PALETTE.TEXT_SECONDARY }}>
+                      <Pencil size={16} />
+                    </button>
+                    <button onClick={() => handleDelete(entry.id)} title={t.historyDelete} aria-label={t.historyDelete} className="p-2 rounded-md border hover:bg-line transition" style={{ borderColor: PALETTE.BORDER_COLOR, color: PALETTE.ERROR_COLOR }}>
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </section>
+        </>
+      )}
+
+      <div className="text-center">
+        <button onClick={onClose} className="px-8 py-3 text-lg bg-card hover:bg-card-hover text-fg font-semibold rounded-lg transition duration-200 ease-in-out shadow-md border border-line inline-flex items-center">
+          <ArrowLeft className="mr-2 h-6 w-6" /> {t.historyBack}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryView;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { analytics } from '../../lib/analytics';
+import { useLocale } from '../../hooks/useLocale';
+import Hero from '../Hero/Hero';
+import FeaturesSection from '../Features/FeaturesSection';
+import RouteLink from '../Layout/RouteLink';
+
+const LandingPage: React.FC = () => {
+  const { t } = useLocale();
+
+  return (
+    <>
+      <Hero />
+
+      <section className="py-16 md:py-24">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          <h2 className="text-3xl md:text-4xl font-bold text-fg text-center mb-12">{t.howItWorksTitle}</h2>
+          <ol className="grid grid-cols-1 md:grid-cols-3 gap-8 max-w-5xl mx-auto">
+            {t.howItWorksSteps.map((step, index) => (
+              <li key={step.title} className="text-center">
+                <span className="mx-auto mb-4 w-10 h-10 rounded-full bg-accent text-on-accent font-bold flex items-center justify-center" aria-hidden="true">{index + 1}</span>
+                <h3 className="text-lg font-semibold text-fg mb-2">{step.title}</h3>
+                <p className="text-muted">{step.text}</p>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </section>
+
+      <FeaturesSection />
+
+      <section className="py-16 md:py-24 text-center">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 max-w-3xl">
+          <h2 className="text-3xl font-bold text-fg mb-4">{t.landingCtaTitle}</h2>
+          <p className="text-lg text-muted mb-8">{t.landingCtaText}</p>
+          <RouteLink to="calculator" onClick={() => analytics.track({ type: 'cta_click', cta: 'start_calculator' })} className="inline-block px-8 py-3 bg-accent text-on-accent font-bold rounded-lg hover:bg-accent-hover transition-colors duration-200 shadow-md">
+            {t.heroStartButton}
+          </RouteLink>
+        </div>
+      </section>
+    </>
+  );
+};
+
+export default LandingPage;
@@ -0,0 +1,29 @@
+import React, { useState } from 'react';
+import { useLocale } from '../../hooks/useLocale';
+import { useAnalyticsConsent } from '../../hooks/useAnalyticsConsent';
+
+/** Asks once whether anonymous usage events may be sent; shown only when an analytics sink is configured. */
+const ConsentBanner: React.FC = () => {
+  const { t } = useLocale();
+  const { consent, active, setConsent } = useAnalyticsConsent();
+  const [shareMeasurements, setShareMeasurements] = useState<boolean>(false);
+
+  if (!active || consent !== null) return null;
+
+  return (
+    <section role="dialog" aria-labelledby="consent-title" aria-describedby="consent-text" className="fixed bottom-4 left-4 right-4 sm:left-auto z-50 sm:max-w-md p-4 rounded-lg border border-line bg-card text-fg shadow-lg text-sm">
+      <h2 id="consent-title" className="font-semibold mb-1">{t.analyticsConsentTitle}</h2>
+      <p id="consent-text" className="text-muted mb-3">{t.analyticsConsentText}</p>
+      <label className="flex items-start gap-2 mb-4 cursor-pointer text-muted">
+        <input type="checkbox" checked={shareMeasurements} onChange={e => setShareMeasurements(e.target.checked)} className="mt-0.5 h-4 w-4 accent-accent" />
+        {t.analyticsConsentMeasurements}
+      </label>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={() => setConsent({ usage: false, measurements: false })} className="px-3 py-1.5 rounded-lg border border-line hover:bg-card-hover font-semibold">{t.analyticsConsentDecline}</button>
+        <button type="button" onClick={() => setConsent({ usage: true, measurements: shareMeasurements })} className="px-3 py-1.5 rounded-lg bg-accent hover:bg-accent-hover text-on-accent font-semibold">{t.analyticsConsentAccept}</button>
+      </div>
+    </section>
+  );
+};
+
+export default ConsentBanner;
@@ -1,97 +1,93 @@
 import React from 'react';
-import { Menu, X, ChevronDown } from 'lucide-react';
+import { Menu, Moon, Sun, X } from 'lucide-react';
+import { LOCALES, SUPPORTED_LOCALES } from '../../i18n';
+import { WIZARD_ROUTES } from '../../lib/routes';
+import { useLocale } from '../../hooks/useLocale';
 import { useNavigation } from '../../hooks/useNavigation';
+import { useRoute } from '../../hooks/useRoute';
+import { useTheme } from '../../hooks/useTheme';
 import Logo from './Logo';
+import RouteLink from './RouteLink';
+
+/* Theme and language switches for pages without the wizard; the wizard has its own, which also convert typed decimals */
+const SiteControls: React.FC = () => {
+  const { t, locale, setLocale } = useLocale();
+  const { theme, toggleTheme } = useTheme();
+
+  return (
+    <div className="flex items-center gap-2">
+      <button type="button" onClick={toggleTheme} title={theme === 'dark' ? t.themeToLight : t.themeToDark} aria-label={theme === 'dark' ? t.themeToLight : t.themeToDark} className="w-7 h-7 flex items-center justify-center rounded-full bg-card border border-line text-muted hover:bg-line transition">
+        {theme === 'dark' ? <Sun size={16} /> : <Moon size={16} />}
+      </button>
+      <div className="flex rounded-full overflow-hidden text-xs font-semibold border border-line" role="group" aria-label={t.languageLabel}>
+        {SUPPORTED_LOCALES.map(l => (
+          <button key={l} type="button" onClick={() => setLocale(l)} aria-pressed={locale === l} className={`px-2 h-7 transition ${locale === l ? 'bg-accent text-on-accent' : 'bg-card text-muted'}`}>{LOCALES[l].label}</button>
+        ))}
+      </div>
+    </div>
+  );
+};
 
 const Header: React.FC = () => {
-  const { isOpen, toggleNav } = useNavigation();
-  
+  const { t } = useLocale();
+  const { route } = useRoute();
+  const { items, isOpen, toggleNav, closeNav } = useNavigation();
+  const showControls = !WIZARD_ROUTES.includes(route);
+
   return (
-    <header className="fixed top-0 left-0 right-0 z-50 bg-white/80 backdrop-blur-md border-b border-gray-100 transition-all duration-300">
+    <header className="sticky top-0 z-40 bg-page/90 backdrop-blur-md border-b border-line">
       <div className="container mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex items-center justify-between h-16">
           <div className="flex items-center">
-            <Logo />
-            <nav className="hidden md:block ml-10">
+            <RouteLink to="landing" aria-label={t.navLabels.landing}>
+              <Logo />
+            </RouteLink>
+            <nav className="hidden md:block ml-10" aria-label={t.navAriaLabel}>
               <ul className="flex space-x-8">
-                {['Home', 'Features', 'Pricing', 'About'].map((item) => (
-                  <li key={item}>
-                    <a 
-                      href={`#${item.toLowerCase()}`}
-                      className="text-gray-700 hover:text-indigo-600 font-medium transition-colors duration-200 text-sm"
-                    >
-                      {item}
-                    </a>
+                {items.map(item => (
+                  <li key={item.route}>
+                    <RouteLink to={item.route} aria-current={item.current ? 'page' : undefined} className={`font-medium text-sm transition-colors duration-200 ${item.current ? 'text-accent' : 'text-fg hover:text-accent'}`}>
+                      {item.label}
+                    </RouteLink>
                   </li>
                 ))}
-                <li className="relative group">
-                  <button className="flex items-center text-gray-700 hover:text-indigo-600 font-medium transition-colors duration-200 text-sm">
-                    Resources
-                    <ChevronDown className="ml-1 h-4 w-4 group-hover:rotate-180 transition-transform duration-200" />
-                  </button>
-                  <div className="absolute left-0 mt-2 w-48 rounded-md shadow-lg py-1 bg-white ring-1 ring-black ring-opacity-5 opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200">
-                    {['Documentation', 'Tutorials', 'Blog', 'Support'].map((item) => (
-                      <a 
-                        key={item}
-                        href={`#${item.toLowerCase()}`}
-                        className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
-                      >
-                        {item}
-                      </a>
-                    ))}
-                  </div>
-                </li>
               </ul>
             </nav>
           </div>
           <div className="flex items-center space-x-4">
-            <button className="hidden md:block bg-white text-indigo-600 border border-indigo-600 rounded-md px-4 py-2 text-sm font-medium hover:bg-indigo-50 transition-colors duration-200">
-              Sign In
-            </button>
-            <button className="hidden md:block bg-indigo-600 text-white rounded-md px-4 py-2 text-sm font-medium hover:bg-indigo-700 transition-colors duration-200">
-              Get Started
-            </button>
-            <button 
+            {showControls && <SiteControls />}
+            <button
+              type="button"
               onClick={toggleNav}
-              className="md:hidden flex items-center justify-center"
-              aria-label="Toggle navigation menu"
+              className="md:hidden flex items-center justify-center text-fg"
+              aria-label={isOpen ? t.navMenuClose : t.navMenuOpen}
+              aria-expanded={isOpen}
+              aria-controls="mobile-menu"
             >
-              {isOpen ? (
-                <X className="h-6 w-6 text-gray-700" />
-              ) : (
-                <Menu className="h-6 w-6 text-gray-700" />
-              )}
+              {isOpen ? <X className="h-6 w-6" /> : <Menu className="h-6 w-6" />}
             </button>
           </div>
         </div>
       </div>
-      
+
       {/* Mobile menu */}
-      <div className={`md:hidden ${isOpen ? 'block' : 'hidden'}`}>
-        <div className="px-2 pt-2 pb-3 space-y-1 sm:px-3 bg-white shadow-lg">
-          {['Home', 'Features', 'Pricing', 'About', 'Resources'].map((item) => (
-            <a
-              key={item}
-              href={`#${item.toLowerCase()}`}
-              className="block px-3 py-2 rounded-md text-base font-medium text-gray-700 hover:text-indigo-600 hover:bg-gray-50"
+      <nav id="mobile-menu" aria-label={t.navAriaLabel} className={`md:hidden ${isOpen ? 'block' : 'hidden'}`}>
+        <div className="px-2 pt-2 pb-3 space-y-1 sm:px-3 bg-card border-b border-line shadow-lg">
+          {items.map(item => (
+            <RouteLink
+              key={item.route}
+              to={item.route}
+              onClick={closeNav}
+              aria-current={item.current ? 'page' : undefined}
+              className={`block px-3 py-2 rounded-md text-base font-medium hover:bg-card-hover ${item.current ? 'text-accent' : 'text-fg'}`}
             >
-              {item}
-            </a>
+              {item.label}
+            </RouteLink>
           ))}
-          <div className="pt-4 pb-3 border-t border-gray-200">
-            <div className="flex items-center px-5 space-x-2">
-              <button className="flex-1 text-center bg-white text-indigo-600 border border-indigo-600 rounded-md px-4 py-2 text-sm font-medium hover:bg-indigo-50 transition-colors duration-200">
-                Sign In
-              </button>
-              <button className="flex-1 text-center bg-indigo-600 text-white rounded-md px-4 py-2 text-sm font-medium hover:bg-indigo-700 transition-colors duration-200">
-                Get Started
-              </button>
-            </div>
-          </div>
         </div>
-      </div>
+      </nav>
     </header>
   );
 };
 
-export default Header;
\ No newline at end of file
+export default Header;
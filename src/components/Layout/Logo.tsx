@@ -1,13 +1,15 @@
 import React from 'react';
-import { Zap } from 'lucide-react';
+import { Activity } from 'lucide-react';
+import { BRAND } from '../../config/brand';
 
+/** Brand logo (see `BRAND.logo`) or the default mark, followed by the brand name. */
 const Logo: React.FC = () => {
   return (
-    <div className="flex items-center space-x-2">
-      <Zap className="h-8 w-8 text-indigo-600" />
-      <span className="font-bold text-xl text-gray-900">Bolt</span>
-    </div>
+    <span className="flex items-center space-x-2">
+      {BRAND.logo ? <img src={BRAND.logo} alt="" className="h-8 w-auto" /> : <Activity className="h-8 w-8 text-accent" aria-hidden="true" />}
+      <span className="font-bold text-xl text-fg">{BRAND.name}</span>
+    </span>
   );
 };
 
-export default Logo;
\ No newline at end of file
+export default Logo;
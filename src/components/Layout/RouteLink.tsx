@@ -0,0 +1,23 @@
+import React from 'react';
+import { ROUTE_PATHS, RouteId } from '../../lib/routes';
+import { useRoute } from '../../hooks/useRoute';
+
+interface RouteLinkProps extends Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
+  to: RouteId;
+}
+
+/** A real link to a route (so it can be opened in a new tab) that navigates in place on a plain click. */
+const RouteLink: React.FC<RouteLinkProps> = ({ to, onClick, children, ...rest }) => {
+  const { navigate } = useRoute();
+
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    e.preventDefault();
+    navigate(to);
+  };
+
+  return <a href={ROUTE_PATHS[to]} onClick={handleClick} {...rest}>{children}</a>;
+};
+
+export default RouteLink;
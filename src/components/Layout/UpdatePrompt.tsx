@@ -0,0 +1,27 @@
+import React from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { useLocale } from '../../hooks/useLocale';
+import { useServiceWorkerUpdate } from '../../hooks/useServiceWorkerUpdate';
+import { PALETTE } from '../BodyFatEstimator/palette';
+
+/** Bottom toast offering to reload into a newly installed version of the app. In-progress wizard input survives the reload. */
+const UpdatePrompt: React.FC = () => {
+  const { t } = useLocale();
+  const { updateAvailable, applyUpdate, dismissUpdate } = useServiceWorkerUpdate();
+
+  if (!updateAvailable) return null;
+
+  return (
+    <div role="status" className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-md p-4 rounded-lg border shadow-lg flex items-center gap-3 text-sm" style={{ background: PALETTE.CARD_BACKGROUND, borderColor: PALETTE.ACCENT, color: PALETTE.TEXT_PRIMARY }}>
+      <p className="flex-grow">{t.updateAvailableText}</p>
+      <button type="button" onClick={applyUpdate} className="px-3 py-1.5 rounded-lg font-semibold inline-flex items-center gap-1 bg-[#c2a57a] hover:bg-[#d1b891] text-[#003153]">
+        <RefreshCw size={14} aria-hidden="true" /> {t.updateReloadButton}
+      </button>
+      <button type="button" onClick={dismissUpdate} aria-label={t.updateDismissButton} title={t.updateDismissButton} className="p-1 rounded hover:bg-[#333366]" style={{ color: PALETTE.TEXT_SECONDARY }}>
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default UpdatePrompt;
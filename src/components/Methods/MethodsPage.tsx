@@ -0,0 +1,70 @@
+import React from 'react';
+import { getMethodDefinition, getMethodKeys, getRequiredInputs, MeasurementKey, METHOD_KEYS, MethodFamily, MethodKey } from '../../lib/bodyFat';
+import { analytics } from '../../lib/analytics';
+import { useLocale } from '../../hooks/useLocale';
+import RouteLink from '../Layout/RouteLink';
+
+const FAMILY_ORDER: readonly MethodFamily[] = ['bmi', 'tape', 'caliper', 'visual', 'custom'];
+
+/** Explains every registered method (custom ones included), grouped by the inputs they share, from the translated names and notes. */
+const MethodsPage: React.FC = () => {
+  const { t, methodName, methodNote } = useLocale();
+  const inputLabels: Record<MeasurementKey, string> = { age: t.ageLabel, weightKg: t.weightLabel, heightCm: t.heightLabel, neckCm: t.neckLabel, waistCm: t.waistLabel, hipCm: t.hipLabel };
+  const listInputs = (keys: readonly MeasurementKey[]) => keys.map(key => inputLabels[key]).join(', ');
+
+  const methodsByFamily = FAMILY_ORDER
+    .map(family => ({ family, keys: getMethodKeys().filter(key => getMethodDefinition(key)?.family === family) }))
+    .filter(group => group.keys.length > 0);
+
+  const inputsText = (key: MethodKey): string | null => {
+    const male = getRequiredInputs(key, 'male');
+    const female = getRequiredInputs(key, 'female');
+    if (male.length === 0 && female.length === 0) return null;
+    return male.join() === female.join() ? t.methodsInputs(listInputs(male)) : t.methodsInputsBySex(listInputs(male), listInputs(female));
+  };
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-12 md:py-16 max-w-4xl">
+      <h1 className="text-4xl font-bold text-accent text-center mb-4">{t.methodsPageTitle}</h1>
+      <p className="text-center text-muted mb-12 max-w-2xl mx-auto">{t.methodsPageIntro}</p>
+
+      {methodsByFamily.map(({ family, keys }) => (
+        <section key={family} className="mb-12" aria-labelledby={`family-${family}`}>
+          <h2 id={`family-${family}`} className="text-2xl font-bold text-fg mb-2">{t.methodFamilyTitles[family]}</h2>
+          <p className="text-muted mb-6">{t.methodFamilyNotes[family]}</p>
+          <ul className="space-y-3">
+            {keys.map(key => {
+              const inputs = inputsText(key);
+              return (
+                <li key={key} className="p-4 rounded-lg border border-line bg-card">
+                  <h3 className="font-semibold text-fg">
+                    {methodName(key)}
+                    {!(key in METHOD_KEYS) && <span className="ml-2 text-xs px-2 py-0.5 rounded-full border border-accent text-accent">{t.methodCustomBadge}</span>}
+                    {getMethodDefinition(key)?.enabledByDefault === false && <span className="ml-2 text-xs px-2 py-0.5 rounded-full border border-line text-muted">{t.methodsOffByDefault}</span>}
+                  </h3>
+                  {methodNote(key) && <p className="text-sm text-muted mt-1">{methodNote(key)}</p>}
+                  {inputs && <p className="text-xs text-muted mt-2">{inputs}</p>}
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      ))}
+
+      <section className="mb-12 p-6 rounded-lg border border-accent bg-card">
+        <h2 className="text-2xl font-bold text-accent mb-2">{t.methodsConsensusTitle}</h2>
+        <p className="text-muted">{t.methodsConsensusText}</p>
+      </section>
+
+      <p className="text-xs text-muted text-center mb-8">{t.disclaimer}</p>
+
+      <div className="text-center">
+        <RouteLink to="calculator" onClick={() => analytics.track({ type: 'cta_click', cta: 'start_calculator' })} className="inline-block px-8 py-3 bg-accent text-on-accent font-bold rounded-lg hover:bg-accent-hover transition-colors duration-200 shadow-md">
+          {t.heroStartButton}
+        </RouteLink>
+      </div>
+    </div>
+  );
+};
+
+export default MethodsPage;
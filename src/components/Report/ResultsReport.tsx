@@ -0,0 +1,149 @@
+import React, { forwardRef } from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, ErrorBar, ReferenceArea, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { BodyFatResults, BodyMeasurements, getBfCategory, isMethodVisible, SkinfoldSite, Z_95 } from '../../lib/bodyFat';
+import { cmToFtIn, cmToIn, kgToLbs, UnitSystem } from '../../lib/units';
+import { REPORT_PALETTE } from '../BodyFatEstimator/palette';
+import { BRAND } from '../../config/brand';
+import { useLocale } from '../../hooks/useLocale';
+
+interface ResultsReportProps {
+  measurements: BodyMeasurements;
+  results: BodyFatResults;
+  unitSystem: UnitSystem;
+  date: Date;
+}
+
+/** A4-width (at 96 dpi) so the captured image maps onto the PDF page without rescaling text. */
+const REPORT_WIDTH = 794;
+
+const cellStyle: React.CSSProperties = { border: `1px solid ${REPORT_PALETTE.BORDER_COLOR}`, padding: '6px 8px', textAlign: 'left', verticalAlign: 'top' };
+
+/**
+ * Print-optimized layout of the results step. Rendered off-screen only while a PDF is being generated;
+ * charts use a fixed size and no animation so the capture is deterministic.
+ */
+const ResultsReport = forwardRef<HTMLDivElement, ResultsReportProps>(({ measurements, results, unitSystem, date }, ref) => {
+  const { t, formatValue, formatDate, methodName, methodNote } = useLocale();
+  const isMetric = unitSystem === 'metric';
+  const length = (cm: number | null | undefined) => (cm === null || cm === undefined ? '-' : `${formatValue(isMetric ? cm : cmToIn(cm))} ${isMetric ? t.unitCm : t.unitIn}`);
+  const { ft, inches } = cmToFtIn(measurements.heightCm);
+  const consensus = results.consensus;
+  const category = getBfCategory(consensus?.value ?? null, measurements.sex);
+
+  const inputRows: [string, string][] = [
+    [t.step1Title, measurements.sex === 'male' ? t.genderMale : t.genderFemale],
+    [t.ageLabel, String(measurements.age)],
+    [t.weightLabel, `${formatValue(isMetric ? measurements.weightKg : kgToLbs(measurements.weightKg))} ${isMetric ? t.unitKg : t.unitLbs}`],
+    [t.heightLabel, isMetric ? `${formatValue(measurements.heightCm)} ${t.unitCm}` : `${ft} ${t.unitFt} ${formatValue(inches)} ${t.unitIn}`],
+    [t.neckLabel, length(measurements.neckCm)],
+    [t.waistLabel, length(measurements.waistCm)],
+    ...(measurements.sex === 'female' ? [[t.hipLabel, length(measurements.hipCm)] as [string, string]] : []),
+    ...(measurements.skinfolds
+      ? [
+          [t.step8Title, t.caliperProtocols[measurements.skinfolds.protocol]] as [string, string],
+          ...Object.entries(measurements.skinfolds.sites).map(([site, v]) => [t.skinfoldSites[site as SkinfoldSite], `${formatValue(v)} ${t.unitMm}`] as [string, string]),
+        ]
+      : []),
+  ];
+
+  const visibleMethods = Object.values(results.methods).filter(isMethodVisible).map(r => r.key);
+  const chartData = visibleMethods
+    .filter(key => results.methods[key].value !== null)
+    .map(key => {
+      const r = results.methods[key];
+      return { key, name: methodName(key), 'BF%': r.value as number, error: r.standardError !== null ? Z_95 * r.standardError : 0, outlier: consensus?.outliers.includes(key) ?? false };
+    });
+  const yAxisMax = Math.max(25, Math.ceil(Math.max(0, ...chartData.map(d => d['BF%'] + d.error), consensus?.upper ?? 0) / 5) * 5 + 5);
+
+  return (
+    <div ref={ref} style={{ width: REPORT_WIDTH, padding: 40, background: REPORT_PALETTE.BACKGROUND, color: REPORT_PALETTE.TEXT_PRIMARY, fontFamily: 'system-ui, sans-serif', fontSize: 12 }}>
+      <header style={{ borderBottom: `2px solid ${REPORT_PALETTE.ACCENT}`, paddingBottom: 12, marginBottom: 20 }}>
+        <h1 style={{ fontSize: 24, fontWeight: 700, color: REPORT_PALETTE.ACCENT }}>{t.reportTitle}</h1>
+        <p style={{ color: REPORT_PALETTE.TEXT_SECONDARY }}>{t.reportDate(formatDate(date.toISOString()))}</p>
+      </header>
+
+      <section style={{ marginBottom: 20 }}>
+        <h2 style={{ fontSize: 16, fontWeight: 700, marginBottom: 8 }}>{t.reportInputsTitle}</h2>
+        <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+          <tbody>
+            {inputRows.map(([label, value]) => (
+              <tr key={label}>
+                <th style={{ ...cellStyle, width: '40%', fontWeight: 600 }}>{label}</th>
+                <td style={cellStyle}>{value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section style={{ marginBottom: 20 }}>
+        <h2 style={{ fontSize: 16, fontWeight: 700, marginBottom: 8 }}>{t.reportMethodsTitle}</h2>
+        <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+          <thead>
+            <tr>
+              <th style={cellStyle}>{t.reportMethodColumn}</th>
+              <th style={{ ...cellStyle, width: 110 }}>{t.bfShort}</th>
+              <th style={cellStyle}>{t.reportNoteColumn}</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <td style={cellStyle}>{t.bmiValueTitle}</td>
+              <td style={cellStyle}>{formatValue(results.bmi)}</td>
+              <td style={cellStyle}>{t.bmiValueTooltip}</td>
+            </tr>
+            {visibleMethods.map(key => {
+              const { value, standardError } = results.methods[key];
+              const isOutlier = consensus?.outliers.includes(key) ?? false;
+              return (
+                <tr key={key}>
+                  <td style={cellStyle}>{methodName(key)}</td>
+                  <td style={{ ...cellStyle, color: isOutlier ? REPORT_PALETTE.WARNING_COLOR : undefined }}>
+                    {value === null ? '-' : `${formatValue(value)}%`}{value !== null && standardError !== null ? ` ±${formatValue(standardError)}` : ''}
+                  </td>
+                  <td style={cellStyle}>{methodNote(key)}{isOutlier ? ` ${t.outlierNote}` : ''}</td>
+                </tr>
+              );
+            })}
+            <tr style={{ fontWeight: 700 }}>
+              <td style={cellStyle}>{t.consensusBfTitle}</td>
+              <td style={{ ...cellStyle, color: REPORT_PALETTE.ERROR_COLOR }}>{formatValue(consensus?.value)}%</td>
+              <td style={{ ...cellStyle, fontWeight: 400 }}>{consensus ? t.confidenceInterval(formatValue(consensus.lower), formatValue(consensus.upper)) : '-'}</td>
+            </tr>
+          </tbody>
+        </table>
+      </section>
+
+      {chartData.length > 0 && (
+        <section style={{ marginBottom: 20 }}>
+          <h2 style={{ fontSize: 16, fontWeight: 700, marginBottom: 8 }}>{t.resultsComparisonTitle}</h2>
+          <BarChart width={REPORT_WIDTH - 80} height={300} data={chartData} margin={{ top: 5, right: 20, left: 0, bottom: 60 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={REPORT_PALETTE.GRID_COLOR} />
+            <XAxis dataKey="name" stroke={REPORT_PALETTE.TEXT_SECONDARY} tick={{ fontSize: 10, fill: REPORT_PALETTE.TEXT_SECONDARY }} angle={-30} textAnchor="end" height={70} interval={0} />
+            <YAxis stroke={REPORT_PALETTE.TEXT_SECONDARY} tick={{ fontSize: 10, fill: REPORT_PALETTE.TEXT_SECONDARY }} unit="%" domain={[0, yAxisMax]} allowDataOverflow />
+            {consensus && <ReferenceArea y1={consensus.lower} y2={consensus.upper} fill={REPORT_PALETTE.ERROR_COLOR} fillOpacity={0.08} />}
+            <Bar dataKey="BF%" isAnimationActive={false}>
+              {chartData.map(d => <Cell key={d.key} fill={d.outlier ? REPORT_PALETTE.WARNING_COLOR : REPORT_PALETTE.BAR_COLOR} />)}
+              <ErrorBar dataKey="error" width={6} strokeWidth={1.5} stroke={REPORT_PALETTE.TEXT_PRIMARY} direction="y" />
+            </Bar>
+            {consensus && <ReferenceLine y={consensus.value} stroke={REPORT_PALETTE.ERROR_COLOR} strokeDasharray="5 5" strokeWidth={2} />}
+          </BarChart>
+        </section>
+      )}
+
+      <section style={{ marginBottom: 20 }}>
+        <h2 style={{ fontSize: 16, fontWeight: 700, marginBottom: 8 }}>{t.categoryResultTitle} {t.categoryNames[category]}</h2>
+        <p>{t.categoryMessages[category]}</p>
+      </section>
+
+      <footer style={{ borderTop: `1px solid ${REPORT_PALETTE.BORDER_COLOR}`, paddingTop: 12, color: REPORT_PALETTE.TEXT_SECONDARY, fontSize: 10 }}>
+        <p>{t.disclaimer}</p>
+        <p style={{ marginTop: 4 }}>{BRAND.name} · {BRAND.links.home}</p>
+      </footer>
+    </div>
+  );
+});
+
+ResultsReport.displayName = 'ResultsReport';
+
+export default ResultsReport;
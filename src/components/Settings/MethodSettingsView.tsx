@@ -0,0 +1,68 @@
+import React from 'react';
+import { ArrowLeft, RotateCcw } from 'lucide-react';
+import { getMethodDefinition, getMethodKeys, isMethodEnabled, METHOD_KEYS, MethodKey, MethodSettings } from '../../lib/bodyFat';
+import { useLocale } from '../../hooks/useLocale';
+import { PALETTE } from '../BodyFatEstimator/palette';
+
+interface MethodSettingsViewProps {
+  settings: MethodSettings;
+  onToggleEnabled: (key: MethodKey, enabled: boolean) => void;
+  onToggleCounted: (key: MethodKey, counted: boolean) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+/** Lets the user switch methods (built-in and custom) on or off and choose which ones feed the average. */
+const MethodSettingsView: React.FC<MethodSettingsViewProps> = ({ settings, onToggleEnabled, onToggleCounted, onReset, onClose }) => {
+  const { t, methodName, methodNote } = useLocale();
+
+  return (
+    <div className="py-8">
+      <h2 className="text-3xl font-bold mb-4 text-center" style={{ color: PALETTE.ACCENT }}>{t.methodSettingsTitle}</h2>
+      <p className="text-center text-sm mb-8 max-w-2xl mx-auto" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.methodSettingsIntro}</p>
+
+      <ul className="max-w-3xl mx-auto space-y-3 mb-8">
+        {getMethodKeys().map(key => {
+          const rule = getMethodDefinition(key)?.countsTowardAverage;
+          const enabled = isMethodEnabled(key, settings);
+          const neverCounted = rule === false;
+          const counted = !neverCounted && settings[key]?.countsTowardAverage !== false;
+          return (
+            <li key={key} className="p-4 rounded-lg border flex flex-col sm:flex-row sm:items-center gap-3" style={{ background: PALETTE.CARD_BACKGROUND, borderColor: PALETTE.BORDER_COLOR, opacity: enabled ? 1 : 0.7 }}>
+              <div className="flex-grow">
+                <p className="font-semibold" style={{ color: PALETTE.TEXT_PRIMARY }}>
+                  {methodName(key)}
+                  {!(key in METHOD_KEYS) && <span className="ml-2 text-xs px-2 py-0.5 rounded-full border" style={{ borderColor: PALETTE.ACCENT, color: PALETTE.ACCENT }}>{t.methodCustomBadge}</span>}
+                </p>
+                <p className="text-xs mt-1" style={{ color: PALETTE.TEXT_SECONDARY }}>{methodNote(key)}</p>
+                {neverCounted && <p className="text-xs mt-1 italic" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.methodCountsNeverHint}</p>}
+                {typeof rule === 'function' && <p className="text-xs mt-1 italic" style={{ color: PALETTE.TEXT_SECONDARY }}>{t.methodCountsDynamicHint}</p>}
+              </div>
+              <div className="flex sm:flex-col gap-4 sm:gap-2 flex-shrink-0 text-sm" style={{ color: PALETTE.TEXT_SECONDARY }}>
+                <label className="inline-flex items-center gap-2 cursor-pointer">
+                  <input type="checkbox" checked={enabled} onChange={e => onToggleEnabled(key, e.target.checked)} aria-label={`${methodName(key)}: ${t.methodEnabledLabel}`} className="h-4 w-4 accent-accent" />
+                  {t.methodEnabledLabel}
+                </label>
+                <label className="inline-flex items-center gap-2 cursor-pointer">
+                  <input type="checkbox" checked={enabled && counted} disabled={!enabled || neverCounted} onChange={e => onToggleCounted(key, e.target.checked)} aria-label={`${methodName(key)}: ${t.methodCountsLabel}`} className="h-4 w-4 accent-accent" />
+                  {t.methodCountsLabel}
+                </label>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex flex-wrap justify-center gap-4">
+        <button onClick={onReset} className="px-6 py-3 text-base bg-card hover:bg-card-hover text-fg font-semibold rounded-lg transition duration-200 ease-in-out shadow-md border border-line inline-flex items-center">
+          <RotateCcw className="mr-2 h-5 w-5" /> {t.methodSettingsReset}
+        </button>
+        <button onClick={onClose} className="px-8 py-3 text-lg bg-card hover:bg-card-hover text-fg font-semibold rounded-lg transition duration-200 ease-in-out shadow-md border border-line inline-flex items-center">
+          <ArrowLeft className="mr-2 h-6 w-6" /> {t.historyBack}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MethodSettingsView;
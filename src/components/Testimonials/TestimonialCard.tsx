@@ -1,47 +0,0 @@
-import React from 'react';
-import { Star } from 'lucide-react';
-
-interface TestimonialCardProps {
-  quote: string;
-  author: string;
-  role: string;
-  image: string;
-  rating: number;
-}
-
-const TestimonialCard: React.FC<TestimonialCardProps> = ({
-  quote,
-  author,
-  role,
-  image,
-  rating,
-}) => {
-  return (
-    <div className="bg-white p-6 md:p-8 rounded-xl shadow-sm border border-gray-100 flex flex-col h-full">
-      <div className="flex mb-4">
-        {[...Array(5)].map((_, i) => (
-          <Star
-            key={i}
-            className={`h-5 w-5 ${
-              i < rating ? 'text-yellow-400 fill-yellow-400' : 'text-gray-300'
-            }`}
-          />
-        ))}
-      </div>
-      <blockquote className="flex-grow">
-        <p className="text-gray-700 italic mb-6">{quote}</p>
-      </blockquote>
-      <div className="flex items-center mt-4">
-        <div className="h-10 w-10 rounded-full bg-gray-200 flex-shrink-0 overflow-hidden">
-          <img src={image} alt={author} className="h-full w-full object-cover" />
-        </div>
-        <div className="ml-3">
-          <p className="text-sm font-medium text-gray-900">{author}</p>
-          <p className="text-sm text-gray-500">{role}</p>
-        </div>
-      </div>
-    </div>
-  );
-};
-
-export default TestimonialCard;
\ No newline at end of file
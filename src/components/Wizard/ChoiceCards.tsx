@@ -0,0 +1,43 @@
+import React from 'react';
+
+export interface ChoiceOption<T> {
+  value: T;
+  label: string;
+  /** Drawn above the label on cards; `selected` lets it switch colour. */
+  icon?: (selected: boolean) => React.ReactNode;
+}
+
+interface ChoiceCardsProps<T> {
+  options: readonly ChoiceOption<T>[];
+  value: T | null;
+  onChange: (value: T) => void;
+  /** Accessible name of the group. */
+  label?: string;
+  /** Large icon cards for a step's main question, or compact pills for a setting such as the unit system. */
+  variant?: 'card' | 'pill';
+  /** Marks the first option as the one to focus when the step appears. */
+  autoFocus?: boolean;
+}
+
+/** Single-choice buttons; the selected one is `aria-pressed`. */
+function ChoiceCards<T extends string | null>({ options, value, onChange, label, variant = 'card', autoFocus }: ChoiceCardsProps<T>) {
+  return (
+    <div className={variant === 'card' ? 'flex justify-center gap-12 mb-10' : 'flex flex-wrap justify-center gap-3 mb-6'} role="group" aria-label={label}>
+      {options.map((option, i) => {
+        const selected = option.value === value;
+        return variant === 'card' ? (
+          <button key={String(option.value)} type="button" aria-pressed={selected} data-autofocus={(autoFocus && i === 0) || undefined} onClick={() => onChange(option.value)} className={`p-8 rounded-lg border-2 cursor-pointer transition duration-200 ease-in-out motion-reduce:transition-none focus:outline-none focus-visible:ring-2 focus-visible:ring-accent ${selected ? `border-accent ring-2 ring-accent bg-card` : `border-line bg-card hover:border-accent-hover`}`}>
+            {option.icon?.(selected)}
+            <p className={`mt-3 text-center text-base font-semibold ${selected ? `text-accent` : `text-muted`}`}>{option.label}</p>
+          </button>
+        ) : (
+          <button key={String(option.value)} type="button" aria-pressed={selected} data-autofocus={(autoFocus && i === 0) || undefined} onClick={() => onChange(option.value)} className={`px-5 py-2 rounded-md text-base transition ${selected ? `bg-accent text-on-accent font-semibold` : `bg-card border border-line text-muted hover:border-accent-hover`}`}>
+            {option.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+export default ChoiceCards;
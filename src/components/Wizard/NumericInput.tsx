@@ -0,0 +1,50 @@
+import React from 'react';
+import { PALETTE } from '../BodyFatEstimator/palette';
+
+export interface NumericInputProps {
+  name: string;
+  label: string;
+  value: string;
+  /** Defaults to `${name}Input`. */
+  id?: string;
+  /** Shown as the input's min/max; validation itself happens in the wizard. */
+  range?: [number, number] | null;
+  step?: number;
+  inputMode?: 'decimal' | 'numeric';
+  placeholder?: string;
+  helper?: string;
+  error?: string;
+  autoFocus?: boolean;
+  onChange: (name: string, value: string) => void;
+  /** Enter submits the step. */
+  onEnter?: () => void;
+  /** Rendered right under the input, above the helper and error (e.g. a slider). */
+  children?: React.ReactNode;
+}
+
+/**
+ * Labelled text input for a locale-formatted number. Typed as text so the decimal comma works; the field marked
+ * `autoFocus` is the one the wizard focuses when its step appears.
+ */
+const NumericInput: React.FC<NumericInputProps> = ({ name, label, value, id = `${name}Input`, range, step = 0.1, inputMode = 'decimal', placeholder, helper, error, autoFocus, onChange, onEnter, children }) => {
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter' && onEnter) { event.preventDefault(); onEnter(); }
+  };
+
+  return (
+    <div>
+      <label htmlFor={id} className="text-base font-semibold mb-2 block text-center" style={{ color: PALETTE.TEXT_SECONDARY }}>{label}</label>
+      <input
+        id={id} name={name} type="text" inputMode={inputMode} min={range?.[0]} max={range?.[1]} step={step} data-autofocus={autoFocus || undefined}
+        value={value} onChange={e => onChange(name, e.target.value)} onKeyDown={handleKeyDown} placeholder={placeholder}
+        className={`px-4 py-3 text-lg rounded-lg outline-none text-fg transition duration-200 ease-in-out border w-full ${error ? `border-error ring-1 ring-error` : `border-line focus:border-accent focus:ring-1 focus:ring-accent`}`}
+        style={{ background: PALETTE.CARD_BACKGROUND }}
+      />
+      {children}
+      {helper && <p className="text-xs text-center mt-2" style={{ color: PALETTE.TEXT_SECONDARY }}>{helper}</p>}
+      {error && <p className="text-center text-base mt-3" style={{ color: PALETTE.ERROR_COLOR }}>{error}</p>}
+    </div>
+  );
+};
+
+export default NumericInput;
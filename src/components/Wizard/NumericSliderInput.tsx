@@ -0,0 +1,18 @@
+import React from 'react';
+import NumericInput, { NumericInputProps } from './NumericInput';
+
+interface NumericSliderInputProps extends Omit<NumericInputProps, 'children' | 'range'> {
+  range: [number, number];
+}
+
+/** Numeric input with a slider underneath for coarse adjustment. Both edit the same typed value. */
+const NumericSliderInput: React.FC<NumericSliderInputProps> = props => {
+  const { name, label, value, range: [min, max], step = 1, onChange } = props;
+  return (
+    <NumericInput {...props} step={step}>
+      <input type="range" min={min} max={max} step={step} value={value || String(min)} onChange={e => onChange(name, e.target.value)} aria-label={label} className="w-full h-3 mt-4 bg-card rounded-lg appearance-none cursor-pointer range-lg accent-accent" />
+    </NumericInput>
+  );
+};
+
+export default NumericSliderInput;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { PALETTE } from '../BodyFatEstimator/palette';
+
+interface StepLayoutProps {
+  title: string;
+  /** Full-width content between the title and the inputs (e.g. the measurement guide). */
+  intro?: React.ReactNode;
+  /** Small print under the inputs, usually the "press Enter" hint. */
+  hint?: string;
+  wide?: boolean;
+  children: React.ReactNode;
+}
+
+/** Title and centred column shared by the wizard's input steps. */
+const StepLayout: React.FC<StepLayoutProps> = ({ title, intro, hint, wide, children }) => (
+  <div className="py-8">
+    <h2 className="text-2xl font-bold mb-8 text-center" style={{ color: PALETTE.ACCENT }}>{title}</h2>
+    {intro}
+    <div className={`${wide ? 'max-w-2xl' : 'max-w-lg'} mx-auto mb-8`}>
+      {children}
+      {hint && <p className="text-xs text-center mt-6" style={{ color: PALETTE.TEXT_SECONDARY }}>{hint}</p>}
+    </div>
+  </div>
+);
+
+export default StepLayout;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { UnitSystem } from '../../lib/units';
+import ChoiceCards from './ChoiceCards';
+import NumericInput, { NumericInputProps } from './NumericInput';
+
+type UnitField = Omit<NumericInputProps, 'onChange' | 'onEnter' | 'autoFocus' | 'children'>;
+
+interface UnitAwareInputProps {
+  unitSystem: UnitSystem;
+  /** One field, or several side by side (ft + in). The caller passes them for the current unit system. */
+  fields: readonly UnitField[];
+  onChange: (name: string, value: string) => void;
+  onEnter?: () => void;
+  /** Shows a metric/imperial toggle above the fields when given together with `unitLabels`. */
+  onUnitChange?: (unitSystem: UnitSystem) => void;
+  unitLabels?: Record<UnitSystem, string>;
+  autoFocus?: boolean;
+}
+
+/** Measurement typed in the current unit system, optionally with the switch between systems. */
+const UnitAwareInput: React.FC<UnitAwareInputProps> = ({ unitSystem, fields, onChange, onEnter, onUnitChange, unitLabels, autoFocus }) => (
+  <>
+    {onUnitChange && unitLabels && (
+      <ChoiceCards variant="pill" value={unitSystem} onChange={onUnitChange} options={(['metric', 'imperial'] as const).map(system => ({ value: system, label: unitLabels[system] }))} />
+    )}
+    <div className={fields.length > 1 ? 'flex gap-6' : undefined}>
+      {fields.map((field, i) => (
+        <div key={field.name} className={fields.length > 1 ? 'flex-1' : undefined}>
+          <NumericInput {...field} onChange={onChange} onEnter={onEnter} autoFocus={autoFocus && i === 0} />
+        </div>
+      ))}
+    </div>
+  </>
+);
+
+export default UnitAwareInput;
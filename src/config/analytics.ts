@@ -0,0 +1,10 @@
+import { AnalyticsSink, createConsoleSink, noopSink } from '../lib/analytics';
+
+/****************************
+ * Analytics destination
+ ***************************/
+/**
+ * Where consented events go. The no-op default collects nothing and shows no consent banner; set
+ * VITE_ANALYTICS_DEBUG=true to log events to the console, or plug in your own `AnalyticsSink` here.
+ */
+export const ANALYTICS_SINK: AnalyticsSink = import.meta.env.VITE_ANALYTICS_DEBUG === 'true' ? createConsoleSink() : noopSink;
@@ -0,0 +1,38 @@
+import type { Theme, ThemeColors } from '../lib/theme';
+
+/****************************
+ * Brand (white-label) settings
+ ***************************/
+export type BrandConfig = {
+  /** Shown on the home link and in exported reports. */
+  name: string;
+  /** Image shown before the title, e.g. a file in `public/` (`'/brand/logo.svg'`). No logo when omitted. */
+  logo?: string;
+  links: {
+    home: string;
+    /** The Instagram button is hidden when omitted. */
+    instagram?: { url: string; handle: string };
+    /** External sign-up form the results call-to-action links to instead, when `waitlistEndpoint` is turned off. */
+    waitlist?: string;
+  };
+  /**
+   * Where the results call-to-action POSTs waitlist sign-ups (see `WaitlistSubmission`); `server/waitlist.mjs` is a
+   * reference receiver. When it is turned off the call-to-action falls back to `links.waitlist`, and is hidden when both are omitted.
+   */
+  waitlistEndpoint?: string;
+  /** Per-theme colour overrides, as `#rrggbb` or `"r g b"`; see the tokens in src/index.css. */
+  colors?: Partial<Record<Theme, ThemeColors>>;
+};
+
+/** Edit this object to white-label the calculator, e.g. for a partner coach. */
+export const BRAND: BrandConfig = {
+  name: 'atlasakin',
+  links: {
+    home: 'https://atlasakin.com',
+    instagram: { url: 'https://www.instagram.com/atlasakin/', handle: '@atlasakin' },
+  },
+  // The in-app form posts to `/api/waitlist` on the same origin: deploy `server/waitlist.mjs` behind it, or run
+  // `npm run waitlist-server` during development (`npm run dev` proxies it). VITE_WAITLIST_ENDPOINT points it at
+  // another receiver; set it to an empty string to turn the form off and use `links.waitlist` instead.
+  waitlistEndpoint: (import.meta.env.VITE_WAITLIST_ENDPOINT ?? '/api/waitlist') || undefined,
+};
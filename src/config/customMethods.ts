@@ -0,0 +1,26 @@
+import { CustomMethodDefinition } from '../lib/bodyFat';
+
+/****************************
+ * Extra methods registered at startup
+ ***************************/
+/**
+ * Add a formula here to offer it in the app; see `CustomMethodDefinition` for the format. Methods marked
+ * `enabledByDefault: false` only run once a user switches them on in the method settings.
+ */
+export const CUSTOM_METHODS: CustomMethodDefinition[] = [
+  {
+    // Lean, Han & Deurenberg (1996): waist circumference and age only.
+    key: 'CUSTOM_LEAN_WAIST',
+    name: { en: 'Waist & Age (Lean)', tr: 'Bel ve Yaş (Lean)' },
+    note: {
+      en: 'Lean et al. (1996): uses only the waist circumference and age. Quick, but less precise for very lean or muscular people.',
+      tr: 'Lean ve ark. (1996): yalnızca bel çevresi ve yaşı kullanır. Pratik, ancak çok zayıf veya kaslı kişilerde daha az hassastır.',
+    },
+    family: 'tape',
+    enabledByDefault: false,
+    equations: {
+      male: { intercept: -31.8, terms: [{ coefficient: 0.567, factors: [{ variable: 'waistCm' }] }, { coefficient: 0.101, factors: [{ variable: 'age' }] }], standardError: 4.1 },
+      female: { intercept: -9.4, terms: [{ coefficient: 0.439, factors: [{ variable: 'waistCm' }] }, { coefficient: 0.221, factors: [{ variable: 'age' }] }], standardError: 4.9 },
+    },
+  },
+];
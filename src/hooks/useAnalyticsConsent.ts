@@ -0,0 +1,15 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { analytics, AnalyticsConsent, saveAnalyticsConsent } from '../lib/analytics';
+
+/** The user's analytics choice, shared by the consent banner and the footer's privacy settings link. */
+export const useAnalyticsConsent = () => {
+  const consent = useSyncExternalStore(analytics.subscribe, analytics.getConsent);
+
+  /* `null` clears the answer so the banner asks again */
+  const setConsent = useCallback((next: AnalyticsConsent | null) => {
+    saveAnalyticsConsent(next);
+    analytics.setConsent(next);
+  }, []);
+
+  return { consent, active: analytics.isActive(), setConsent };
+};
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ClientProfile, createClientProfile, findClientByName, loadClients, saveClients } from '../lib/clients';
+import { HistoryEntry } from '../lib/history';
+
+const byDate = (a: HistoryEntry, b: HistoryEntry) => a.date.localeCompare(b.date);
+
+export const useClientProfiles = () => {
+  const [clients, setClients] = useState<ClientProfile[]>(() => loadClients());
+
+  const loaded = useRef(clients);
+
+  useEffect(() => {
+    if (clients !== loaded.current) saveClients(clients);
+  }, [clients]);
+
+  const update = useCallback((fn: (prev: ClientProfile[]) => ClientProfile[]) => {
+    setClients(prev => fn(prev).sort((a, b) => a.name.localeCompare(b.name)));
+  }, []);
+
+  const addClient = useCallback((name: string): ClientProfile => {
+    const client = createClientProfile(name);
+    update(prev => [...prev, client]);
+    return client;
+  }, [update]);
+  const renameClient = useCallback((id: string, name: string) => update(prev => prev.map(c => (c.id === id ? { ...c, name: name.trim() } : c))), [update]);
+  const deleteClient = useCallback((id: string) => update(prev => prev.filter(c => c.id !== id)), [update]);
+  const addClientEntry = useCallback((id: string, entry: HistoryEntry) => update(prev => prev.map(c => (c.id === id ? { ...c, history: [...c.history, entry].sort(byDate) } : c))), [update]);
+  const deleteClientEntry = useCallback((id: string, entryId: string) => update(prev => prev.map(c => (c.id === id ? { ...c, history: c.history.filter(e => e.id !== entryId) } : c))), [update]);
+
+  /** Adds each entry to the client with that name, creating profiles that don't exist yet. */
+  const importEntries = useCallback((items: { name: string; entry: HistoryEntry }[]) => {
+    // Profiles get a random id and today's date, so they are made up front and the updater stays pure.
+    const created = new Map<string, ClientProfile>();
+    items.forEach(({ name }) => {
+      const key = name.trim().toLocaleLowerCase();
+      if (!created.has(key)) created.set(key, createClientProfile(name));
+    });
+    update(prev => {
+      const next = [...prev];
+      items.forEach(({ name, entry }) => {
+        const existing = findClientByName(next, name);
+        const client = existing ?? created.get(name.trim().toLocaleLowerCase())!;
+        const updated = { ...client, history: [...client.history, entry].sort(byDate) };
+        if (existing) next[next.indexOf(existing)] = updated; else next.push(updated);
+      });
+      return next;
+    });
+  }, [update]);
+
+  return {
+    clients,
+    addClient,
+    renameClient,
+    deleteClient,
+    addClientEntry,
+    deleteClientEntry,
+    importEntries
+  };
+};
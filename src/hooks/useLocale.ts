@@ -0,0 +1,28 @@
+import { useContext, useMemo } from 'react';
+import { LOCALES } from '../i18n';
+import { LocaleContext } from '../i18n/LocaleContext';
+import { formatForInput, formatValue, parseState } from '../lib/format';
+import { getMethodDefinition, localizedText, MethodKey } from '../lib/bodyFat';
+
+/** Active translations plus the number and method-label helpers bound to the active locale. */
+export const useLocale = () => {
+  const { locale, setLocale } = useContext(LocaleContext);
+
+  return useMemo(() => {
+    const t = LOCALES[locale].translations;
+    /* Built-in methods are translated; custom ones carry their own labels */
+    const methodNames: Partial<Record<MethodKey, string>> = t.methodNames;
+    const methodNotes: Partial<Record<MethodKey, string>> = t.methodNotes;
+    return {
+      locale,
+      setLocale,
+      t,
+      methodName: (key: MethodKey) => methodNames[key] ?? localizedText(getMethodDefinition(key)?.labels?.name, locale) ?? key,
+      methodNote: (key: MethodKey) => methodNotes[key] ?? localizedText(getMethodDefinition(key)?.labels?.note, locale) ?? '',
+      formatValue: (v: number | null | undefined, d = 1) => formatValue(v, d, locale),
+      parseState: (strValue: string) => parseState(strValue, locale),
+      formatForInput: (num: number | null, decimals = 1) => formatForInput(num, decimals, locale),
+      formatDate: (iso: string) => new Date(iso).toLocaleDateString(LOCALES[locale].intl)
+    };
+  }, [locale, setLocale]);
+};
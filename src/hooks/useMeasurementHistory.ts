@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { HistoryEntry, loadHistory, saveHistory } from '../lib/history';
+
+export const useMeasurementHistory = () => {
+  const [entries, setEntries] = useState<HistoryEntry[]>(() => loadHistory());
+
+  const loaded = useRef(entries);
+
+  /* Saved after the render rather than inside the updater, which React may call more than once */
+  useEffect(() => {
+    if (entries !== loaded.current) saveHistory(entries);
+  }, [entries]);
+
+  const update = useCallback((fn: (prev: HistoryEntry[]) => HistoryEntry[]) => {
+    setEntries(prev => fn(prev).sort((a, b) => a.date.localeCompare(b.date)));
+  }, []);
+
+  const addEntry = useCallback((entry: HistoryEntry) => update(prev => [...prev, entry]), [update]);
+  const replaceEntry = useCallback((entry: HistoryEntry) => update(prev => prev.map(e => (e.id === entry.id ? entry : e))), [update]);
+  const deleteEntry = useCallback((id: string) => update(prev => prev.filter(e => e.id !== id)), [update]);
+
+  return {
+    entries,
+    addEntry,
+    replaceEntry,
+    deleteEntry
+  };
+};
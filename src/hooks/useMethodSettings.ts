@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { MethodKey, MethodSettings } from '../lib/bodyFat';
+
+export const METHOD_SETTINGS_STORAGE_KEY = 'bodyfat.methodSettings.v1';
+
+const loadMethodSettings = (): MethodSettings => {
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(METHOD_SETTINGS_STORAGE_KEY) ?? '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as MethodSettings) : {};
+  } catch {
+    return {};
+  }
+};
+
+/** The user's method choices (enabled, counted in the average), persisted across visits. */
+export const useMethodSettings = () => {
+  const [methodSettings, setMethodSettingsState] = useState<MethodSettings>(loadMethodSettings);
+
+  const loaded = useRef(methodSettings);
+
+  useEffect(() => {
+    if (methodSettings === loaded.current) return;
+    try {
+      window.localStorage.setItem(METHOD_SETTINGS_STORAGE_KEY, JSON.stringify(methodSettings));
+    } catch {
+      // Not persisted; the choice still applies for this session.
+    }
+  }, [methodSettings]);
+
+  const update = useCallback((next: (prev: MethodSettings) => MethodSettings) => setMethodSettingsState(next), []);
+
+  const setMethodEnabled = useCallback((key: MethodKey, enabled: boolean) => update(prev => ({ ...prev, [key]: { ...prev[key], enabled } })), [update]);
+  const setMethodCounted = useCallback((key: MethodKey, countsTowardAverage: boolean) => update(prev => ({ ...prev, [key]: { ...prev[key], countsTowardAverage } })), [update]);
+  const resetMethodSettings = useCallback(() => update(() => ({})), [update]);
+
+  return {
+    methodSettings,
+    setMethodEnabled,
+    setMethodCounted,
+    resetMethodSettings
+  };
+};
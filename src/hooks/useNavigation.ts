@@ -1,14 +1,34 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import { NAV_ROUTES, ROUTE_PATHS, RouteId } from '../lib/routes';
+import { useLocale } from './useLocale';
+import { useRoute } from './useRoute';
 
+export type NavItem = { route: RouteId; label: string; href: string; current: boolean };
+
+/** Site navigation links plus the mobile menu, which closes on any page change (back/forward too) and on Escape. */
 export const useNavigation = () => {
+  const { t } = useLocale();
+  const { route } = useRoute();
   const [isOpen, setIsOpen] = useState<boolean>(false);
-  
-  const toggleNav = () => {
-    setIsOpen(prev => !prev);
-  };
-  
+
+  const toggleNav = useCallback(() => setIsOpen(prev => !prev), []);
+  const closeNav = useCallback(() => setIsOpen(false), []);
+
+  useEffect(() => setIsOpen(false), [route]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') setIsOpen(false); };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isOpen]);
+
+  const items: NavItem[] = NAV_ROUTES.map(id => ({ route: id, label: t.navLabels[id], href: ROUTE_PATHS[id], current: id === route }));
+
   return {
+    items,
     isOpen,
-    toggleNav
+    toggleNav,
+    closeNav
   };
-};
\ No newline at end of file
+};
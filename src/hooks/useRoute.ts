@@ -0,0 +1,5 @@
+import { useContext } from 'react';
+import { RouteContext } from '../routing/RouteContext';
+
+/** Current route and a `navigate` that moves to another one. */
+export const useRoute = () => useContext(RouteContext);
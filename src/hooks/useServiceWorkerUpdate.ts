@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * Registers the build's service worker (production only) and reports when a newer version has installed and is
+ * waiting. `applyUpdate` activates it and reloads once it has taken control.
+ */
+export const useServiceWorkerUpdate = () => {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+  /* Only an update the user accepted reloads the page; the first install also fires `controllerchange` */
+  const reloadOnControllerChangeRef = useRef<boolean>(false);
+
+  useEffect(() => {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+    const onControllerChange = () => {
+      if (!reloadOnControllerChangeRef.current) return;
+      reloadOnControllerChangeRef.current = false;
+      window.location.reload();
+    };
+    const trackInstalling = (worker: ServiceWorker) => {
+      worker.addEventListener('statechange', () => {
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) setWaitingWorker(worker);
+      });
+    };
+
+    navigator.serviceWorker.addEventListener('controllerchange', onControllerChange);
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).then(registration => {
+      if (registration.waiting && navigator.serviceWorker.controller) setWaitingWorker(registration.waiting);
+      registration.addEventListener('updatefound', () => { if (registration.installing) trackInstalling(registration.installing); });
+    }).catch(() => {
+      // No offline support (e.g. private mode); the app works as a plain website.
+    });
+    return () => navigator.serviceWorker.removeEventListener('controllerchange', onControllerChange);
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    if (!waitingWorker) return;
+    reloadOnControllerChangeRef.current = true;
+    waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+  }, [waitingWorker]);
+
+  const dismissUpdate = useCallback(() => setWaitingWorker(null), []);
+
+  return {
+    updateAvailable: waitingWorker !== null,
+    applyUpdate,
+    dismissUpdate
+  };
+};
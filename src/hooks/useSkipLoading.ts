@@ -0,0 +1,33 @@
+import { useCallback, useState } from 'react';
+import { loadHistory } from '../lib/history';
+
+export const SKIP_LOADING_STORAGE_KEY = 'bodyfat.skipLoading.v1';
+
+/** An explicit choice wins; otherwise returning users (anyone with saved history) skip the loading screen. */
+const loadSkipLoading = (): boolean => {
+  try {
+    const raw = window.localStorage.getItem(SKIP_LOADING_STORAGE_KEY);
+    if (raw === 'true' || raw === 'false') return raw === 'true';
+  } catch {
+    // Storage disabled: fall back to the default below.
+  }
+  return loadHistory().length > 0;
+};
+
+export const useSkipLoading = () => {
+  const [skipLoading, setSkipLoadingState] = useState<boolean>(loadSkipLoading);
+
+  const setSkipLoading = useCallback((value: boolean) => {
+    setSkipLoadingState(value);
+    try {
+      window.localStorage.setItem(SKIP_LOADING_STORAGE_KEY, String(value));
+    } catch {
+      // Not persisted; the choice still applies for this session.
+    }
+  }, []);
+
+  return {
+    skipLoading,
+    setSkipLoading
+  };
+};
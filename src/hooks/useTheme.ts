@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from 'react';
+import { isTheme, Theme, THEME_STORAGE_KEY } from '../lib/theme';
+
+const LIGHT_QUERY = '(prefers-color-scheme: light)';
+
+const systemTheme = (): Theme => (typeof window.matchMedia === 'function' && window.matchMedia(LIGHT_QUERY).matches ? 'light' : 'dark');
+
+const loadThemeChoice = (): Theme | null => {
+  try {
+    const raw = window.localStorage.getItem(THEME_STORAGE_KEY);
+    return isTheme(raw) ? raw : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Follows the OS colour scheme until the user picks a theme; applies it as `data-theme` on <html>. */
+export const useTheme = () => {
+  const [choice, setChoice] = useState<Theme | null>(loadThemeChoice);
+  const [system, setSystem] = useState<Theme>(systemTheme);
+  const theme = choice ?? system;
+
+  useEffect(() => {
+    if (typeof window.matchMedia !== 'function') return;
+    const query = window.matchMedia(LIGHT_QUERY);
+    const onChange = () => setSystem(query.matches ? 'light' : 'dark');
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, []);
+
+  useEffect(() => {
+    const root = document.documentElement;
+    root.dataset.theme = theme;
+    // Browser chrome (address bar, PWA title bar) matches the page background.
+    const channels = getComputedStyle(root).getPropertyValue('--color-background').trim();
+    if (channels) document.querySelector('meta[name="theme-color"]')?.setAttribute('content', `rgb(${channels})`);
+  }, [theme]);
+
+  const toggleTheme = useCallback(() => {
+    const next: Theme = theme === 'dark' ? 'light' : 'dark';
+    setChoice(next);
+    try {
+      window.localStorage.setItem(THEME_STORAGE_KEY, next);
+    } catch {
+      // Not persisted; the choice still applies for this session.
+    }
+  }, [theme]);
+
+  return { theme, toggleTheme };
+};
@@ -0,0 +1,9 @@
+import { createContext } from 'react';
+import { DEFAULT_LOCALE, Locale } from './index';
+
+export type LocaleContextValue = {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+};
+
+export const LocaleContext = createContext<LocaleContextValue>({ locale: DEFAULT_LOCALE, setLocale: () => {} });
@@ -0,0 +1,27 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { getInitialLocale, Locale, LOCALE_STORAGE_KEY, LOCALES } from './index';
+import { LocaleContext } from './LocaleContext';
+
+const LocaleProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(getInitialLocale);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    try {
+      window.localStorage.setItem(LOCALE_STORAGE_KEY, next);
+    } catch {
+      // Not persisted; the choice still applies for this visit.
+    }
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.title = LOCALES[locale].translations.estimatorTitle;
+  }, [locale]);
+
+  const value = useMemo(() => ({ locale, setLocale }), [locale, setLocale]);
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+};
+
+export default LocaleProvider;
@@ -0,0 +1,488 @@
+import { Sex } from '../lib/bodyFat';
+import { Translations } from './tr';
+
+/****************************
+ * Language Settings - English
+ ***************************/
+export const en: Translations = {
+    // General UI
+    welcomeTitle: "Welcome!",
+    welcomeText: "Let's estimate your body fat percentage.",
+    startButton: "START",
+    nextButton: "Next",
+    backButton: "Back",
+    calculateAgainButton: "Calculate Again",
+    estimatorTitle: "Body Fat Calculator",
+    infoTitle: "About the Methods",
+    infoDisclaimer: "Different formulas estimate body fat from different inputs. Results may vary. Hover over the result cards for details. This tool only provides estimates.",
+    infoAbbreviationsTitle: "Abbreviations:",
+    resultsTitle: "Results",
+    resultsComparisonTitle: "BF% Result Comparison",
+    categoryResultTitle: "Your Category:",
+    ctaTitle: "TURN THIS DATA INTO RESULTS",
+    ctaTextP1: "Body fat percentage is an important metric, but on its own it isn't enough. What makes the difference is turning this data into action with a science-based strategy and a disciplined system.",
+    ctaTextP2: "I'm currently building results-driven online coaching programs and systems for people like you who want to reach their goals. Join the waitlist to be among the first, get launch-exclusive benefits and be notified when the system is ready.",
+    ctaButton: "JOIN THE WAITLIST",
+    disclaimer: "Disclaimer: These are formula-based estimates and may differ from clinical measurements (e.g. DXA, BodPod). Use them as a guide, not as a definitive diagnosis.",
+    noChartData: "No data to display the chart.",
+    calculationError: "Calculation error. Please start over.",
+    enterHint: "You can also press Enter to continue.",
+    homeTitle: "Home",
+    languageLabel: "Language",
+    themeToLight: "Switch to light theme",
+    themeToDark: "Switch to dark theme",
+    examplePrefix: "e.g.",
+    bfShort: "BF%",
+    chartAverageLabel: "Consensus",
+    unknownStep: "Unknown Step",
+
+    // Steps
+    step1Title: "Select Your Sex",
+    step2Title: "How Old Are You?",
+    step3Title: "Enter Your Weight",
+    step4Title: "Enter Your Height",
+    step5Title: "Enter Your Neck Circumference",
+    step6Title: "Enter Your Waist Circumference",
+    step7Title: "Enter Your Hip Circumference",
+    step8Title: "Skinfold Measurements (Optional)",
+
+    // Labels & Units
+    genderMale: "Male",
+    genderFemale: "Female",
+    ageLabel: "Age (years)",
+    weightLabel: "Weight",
+    heightLabel: "Height",
+    neckLabel: "Neck Circumference",
+    waistLabel: "Waist Circumference",
+    hipLabel: "Hip Circumference",
+    unitKg: "kg",
+    unitLbs: "lbs",
+    unitCm: "cm",
+    unitFt: "ft",
+    unitIn: "in",
+    unitFtIn: "ft / in",
+    heightFtLabel: "Feet (ft)",
+    heightInLabel: "Inches (in)",
+    unitMm: "mm",
+
+    // Caliper
+    caliperIntro: "If you have a caliper, choose a protocol and enter the readings in millimetres, taken on the right side of the body. Otherwise you can skip this step.",
+    caliperNone: "No Caliper",
+    caliperProtocols: { JP3: "Jackson-Pollock 3-Site", JP7: "Jackson-Pollock 7-Site", DW: "Durnin-Womersley" },
+    skinfoldSites: {
+        chest: "Chest", abdomen: "Abdomen", thigh: "Thigh", triceps: "Triceps",
+        suprailiac: "Suprailiac", subscapular: "Subscapular", midaxillary: "Midaxillary", biceps: "Biceps",
+    },
+    skinfoldHelpers: {
+        chest: "Diagonal fold halfway between the armpit line and the nipple.",
+        abdomen: "Vertical fold 2 cm to the right of the navel.",
+        thigh: "Vertical fold on the front of the thigh, midway between the hip crease and the kneecap.",
+        triceps: "Vertical fold on the back of the arm, midway between shoulder and elbow.",
+        suprailiac: "Diagonal fold just above the hip bone, on the anterior axillary line.",
+        subscapular: "Diagonal fold just below the lower tip of the shoulder blade.",
+        midaxillary: "Vertical fold on the mid-axillary line, level with the bottom of the sternum.",
+        biceps: "Vertical fold on the front of the arm, over the middle of the biceps.",
+    },
+
+    // Helper Texts
+    waistHelper: "Measure horizontally at the level of the navel.",
+    hipHelper: "Measure horizontally around the widest part of the hips.",
+    neckHelper: "Measure at the narrowest point just below the Adam's apple.",
+
+    // Errors
+    errorSelectGender: "Please select a sex.",
+    errorAgeRequired: "Age is required.",
+    errorWeightRequired: "Weight is required.",
+    errorHeightRequired: "Height is required.",
+    errorHeightCmRequired: "Height (cm) is required.",
+    errorHeightFtRequired: "Feet are required.",
+    errorHeightInRequired: "Inches are required.",
+    errorNeckRequired: "Neck circumference is required.",
+    errorWaistRequired: "Waist circumference is required.",
+    errorHipRequired: "Hip circumference is required.",
+    errorSkinfoldRequired: "This measurement is required.",
+    errorInvalidNumber: "Invalid number.",
+    errorRange: (min: string, max: string) => `Range: ${min}-${max}`,
+
+    // Loading Messages
+    loadingMessages: [
+        "Analyzing inputs...", "Applying formulas...", "Calculating BMI...", "Estimating Navy BF%...",
+        "Calculating RFM...", "Running CUN-BAE...", "Processing ECORE-BF...", "Calculating body density...", "Cross-checking data...",
+        "Calibrating estimates...", "Compiling results...", "Building the chart...", "Preparing your report...",
+        "Almost done...", "Finalizing..."
+    ],
+    loadingProgressLabel: "Calculation progress",
+    skipLoadingButton: "Skip",
+    skipLoadingPreference: "Show results without the loading screen next time",
+    resultsCalculating: "Calculating results...",
+    methodResultAnnouncement: (method: string, value: string) => `${method}: ${value}%`,
+    resultsAnnouncement: (value: string, category: string) => `Results ready. Consensus body fat ${value}%, category: ${category}.`,
+
+    // Method Info
+    methodNotes: {
+        BMI_BF: "Uses BMI, age and sex. Less accurate for athletes.",
+        NAVY: "Uses height, neck, waist (and hip for women). Often inaccurate.",
+        RFM: "Uses height and waist. A simpler tape method.",
+        CUN_BAE: "Uses BMI, age and sex (M=0, F=1). A complex formula.",
+        ECORE: "Uses age, sex (M=0, F=1) and the natural logarithm (ln) of BMI.",
+        SKF_SIRI: "Converts the body density from the selected caliper protocol (JP3, JP7 or Durnin-Womersley) with the Siri equation.",
+        SKF_BROZEK: "Converts the same body density with the Brozek equation. Not included in the average.",
+        VISUAL: "Midpoint of the reference silhouette you picked. A rough estimate; it gets the lowest weight in the consensus.",
+    },
+    methodNames: {
+        BMI_BF: "BMI-Based BF% (Deurenberg)",
+        NAVY: "US Navy BF% (Tape)",
+        RFM: "RFM BF% (Tape)",
+        CUN_BAE: "CUN-BAE BF%",
+        ECORE: "ECORE-BF BF%",
+        SKF_SIRI: "Caliper BF% (Siri)",
+        SKF_BROZEK: "Caliper BF% (Brozek)",
+        VISUAL: "Visual BF% (Silhouette)",
+    },
+
+    // Abbreviations
+    abbreviations: {
+        "BF%": "Body Fat Percentage", "BMI": "Body Mass Index",
+        "RFM": "Relative Fat Mass", "CUN-BAE": "Clínica Universidad de Navarra Estimator",
+        "ECORE": "ECORE Estimator", "kg/cm": "Metric Units",
+        "lbs/ft/in": "Imperial Units",
+        "JP3/JP7": "Jackson-Pollock 3/7-Site Caliper", "DW": "Durnin-Womersley Caliper",
+    },
+
+    // Category Results
+    categoryNames: {
+        "Contest Prep": "Contest Prep", "Athletic": "Athletic", "Average": "Average",
+        "Overweight": "Overweight", "Obese": "Obese", "Unknown": "Unknown",
+    },
+    categoryMessages: {
+        "Contest Prep": "You are extremely lean, typically contest-prep level. Pay attention to adequate recovery and nutrition.",
+        "Athletic": "You are in the athletic range. Excellent work! Focus on performance goals and maintain this healthy composition.",
+        "Average": "You are in the average body fat range. Optimizing nutrition and training can improve health, performance and aesthetics.",
+        "Overweight": "Your category is Overweight. Focusing on fat loss through a sustainable calorie deficit and consistent training is recommended for significant health benefits.",
+        "Obese": "Your category is Obese. Prioritizing fat loss with professional guidance is very important to improve long-term health and reduce risks.",
+        "Unknown": "The category could not be determined.",
+    },
+
+    // Other
+    bmiValueTitle: "BMI Value", averageBfTitle: "Avg. BF%",
+    bmiValueTooltip: "Body Mass Index (Weight/Height²)", averageBfTooltip: "Average of the calculated BF% methods",
+    consensusBfTitle: "Consensus BF%",
+    consensusBfTooltip: "Average weighted by each method's standard error. BMI-based formulas count as a single vote.",
+    confidenceInterval: (low: string, high: string) => `95% CI: ${low}–${high}%`,
+    categoryRange: (low: string, high: string) => `The confidence interval spans two categories: ${low} – ${high}`,
+    standardErrorTooltip: "Published standard error of estimate for this method (BF% points)",
+    outlierLabel: "Disagrees strongly with the other methods",
+    outlierNote: "This result differs strongly from the consensus; double-check your measurements.",
+
+    // History
+    historyButton: "History",
+    historyTitle: "Measurement History",
+    historyEmpty: "No saved measurements yet. They will appear here once you complete a calculation.",
+    historyTrendTitle: "Progress Chart",
+    historyTrendNeedsMore: "At least two measurements are needed for the chart.",
+    historyDate: "Date",
+    historyEdit: "Edit",
+    historyDelete: "Delete",
+    historyDeleteConfirm: "Delete this measurement?",
+    historyBack: "Back to Calculator",
+    historySaved: "This result was saved to your measurement history.",
+    historyUpdated: "The measurement in your history was updated.",
+    historySeries: { averageBf: "Avg. BF%", weight: "Weight", waist: "Waist", leanMass: "Lean Mass" },
+
+    // Sharing
+    shareLinkButton: "Copy Link",
+    shareLinkCopied: "Link Copied",
+    shareLinkFailed: "Couldn't copy the link. You can share the address from your browser's address bar instead.",
+
+    // Report & Export
+    exportPdfButton: "PDF Report",
+    exportPdfGenerating: "Preparing report...",
+    exportPdfFailed: "The PDF could not be created. Please try again.",
+    exportCsvButton: "CSV",
+    exportJsonButton: "JSON",
+    reportTitle: "Body Fat Report",
+    reportDate: (date: string) => `Date: ${date}`,
+    reportInputsTitle: "Measurements",
+    reportMethodsTitle: "Method Results",
+    reportMethodColumn: "Method",
+    reportNoteColumn: "Note",
+
+    // Method Settings
+    methodSettingsButton: "Method Settings",
+    methodSettingsTitle: "Method Settings",
+    methodSettingsIntro: "Choose which methods are calculated and which count toward the average (consensus). Disabled methods are left out of the results, the chart and the report.",
+    methodEnabledLabel: "Enabled",
+    methodCountsLabel: "Counts toward average",
+    methodCountsDynamicHint: "Whether this method counts can also be chosen for each calculation.",
+    methodCountsNeverHint: "This method is shown for comparison only and never counts toward the average.",
+    methodSettingsReset: "Restore Defaults",
+    methodCustomBadge: "Extra formula",
+
+    // Coach Mode
+    coachButton: "Coach Mode",
+    coachTitle: "Coach Mode",
+    coachClientsTab: "Clients",
+    coachBatchTab: "Batch Calculation (CSV)",
+    coachNewClientPlaceholder: "Client name",
+    coachAddClient: "Add Client",
+    coachNoClients: "No clients yet. Add a name above.",
+    coachSelectClient: "Select or add a client to enter measurements.",
+    coachRename: "Rename",
+    coachRenamePrompt: "New name for the client:",
+    coachDeleteClient: "Delete Client",
+    coachDeleteClientConfirm: (name: string) => `Delete ${name} and their whole measurement history?`,
+    coachSexLabel: "Sex",
+    coachCaliperLabel: "Caliper Protocol",
+    coachFieldRequired: "This field is required.",
+    coachCalculate: "Calculate & Save",
+    coachLatestResult: "Latest Result",
+    batchIntro: "Upload a CSV file with one client per row. Values must be metric (kg, cm, mm). Download the template for the columns; caliper columns are optional.",
+    batchChooseFile: "Upload CSV",
+    batchDownloadTemplate: "Download Template",
+    batchExportCsv: "Download Results as CSV",
+    batchSaveToClients: "Save to Clients",
+    batchNameColumn: "Name",
+    batchMissingColumns: (columns: string) => `The file is missing required columns: ${columns}`,
+    batchSummary: (valid: number, total: number) => `${valid} of ${total} rows calculated.`,
+    batchSaved: (count: number) => `${count} results were saved to the client histories.`,
+    batchProblems: { missing: "missing", invalid: "invalid", range: "out of range" },
+
+    // Measurement Guide
+    measurementGuideTitle: "How to measure",
+    measurementGuideStepsTitle: "Placing the tape",
+    measurementGuideMistakesTitle: "Common mistakes",
+    measurementGuideIllustration: (site: string) => `Tape position for the ${site.toLowerCase()} measurement`,
+    measurementGuides: {
+        neck: {
+            steps: {
+                male: ["Stand upright with your head level, looking straight ahead.", "Wrap the tape just below the larynx (Adam's apple).", "Let the tape slope slightly downward at the front; round to the nearest 0.5 cm (¼ in)."],
+                female: ["Stand upright with your head level, looking straight ahead.", "Wrap the tape around the narrowest part of the neck, just below the larynx.", "Let the tape slope slightly downward at the front; round to the nearest 0.5 cm (¼ in)."],
+            },
+            mistakes: ["Pulling the tape so tight it presses into the skin.", "Tilting the head forward or shrugging the shoulders.", "Measuring at the base of the neck, close to the shoulders."],
+        },
+        waist: {
+            steps: {
+                male: ["Stand with your abdominal muscles relaxed.", "Wrap the tape horizontally at navel level, parallel to the floor.", "Read it at the end of a normal breath out, without holding your breath."],
+                female: ["Stand with your abdominal muscles relaxed.", "Wrap the tape at the narrowest point of the waist (usually just above the navel), parallel to the floor.", "Read it at the end of a normal breath out, without holding your breath."],
+            },
+            mistakes: ["Sucking in the stomach or holding your breath.", "Letting the tape slip down at the back.", "Measuring over clothing."],
+        },
+        hip: {
+            steps: {
+                male: ["Stand upright with your feet together.", "Wrap the tape around the widest part of the buttocks, parallel to the floor.", "The tape should sit flat on the skin without compressing it."],
+                female: ["Stand upright with your feet together.", "Wrap the tape around the widest part of the buttocks, parallel to the floor.", "The tape should sit flat on the skin without compressing it."],
+            },
+            mistakes: ["Measuring at the hip bones, near the waistline.", "Holding the tape at an angle from front to back.", "Measuring over pockets or thick fabric."],
+        },
+    },
+
+    // Plausibility Warnings
+    plausibilityTitle: "Check your measurements",
+    plausibilityWarnings: {
+        waistNotAboveNeck: "Your waist should be larger than your neck. Re-check both measurements; otherwise the Navy method may be left out of your results.",
+        hipBelowWaist: "Your hip looks smaller than your waist. Make sure you measured the hip at its widest point.",
+        bmiImplausible: "Weight and height give a BMI outside 15-50. Check the values and the selected units.",
+    },
+    plausibilityContinueHint: "If the values are correct, you can continue.",
+
+    // Visual Estimate
+    visualTitle: "Visual Estimate (Optional)",
+    visualIntro: "No tape or caliper at hand, or want another estimate? Pick the silhouette that looks most like you. It shows up as a separate method in the results.",
+    visualNone: "None",
+    visualLevelLabel: (low: number, high: number) => `${low}-${high}%`,
+    visualCountsToggle: "Include in the consensus estimate",
+    noTapeButton: "No tape measure? Use a silhouette instead",
+    noTapeNotice: "Without tape measurements the result rests on the silhouette (or caliper) and the BMI-based formulas, so it is less precise.",
+    useTapeButton: "Enter tape measurements",
+    errorVisualRequired: "Pick the silhouette that looks most like you, or enter caliper readings.",
+    excludedFromAverageLabel: "Not in consensus",
+
+    // Health Risk
+    healthRiskTitle: "Health Risk Indicators",
+    healthRiskIntro: "These waist-based ratios reflect the risk linked to abdominal (visceral) fat, independently of your body fat percentage. They are not a diagnosis.",
+    healthIndicatorNames: {
+        WHTR: "Waist-to-Height Ratio (WHtR)",
+        WHR: "Waist-to-Hip Ratio (WHR)",
+        BRI: "Body Roundness Index (BRI)",
+    },
+    healthIndicatorNotes: {
+        WHTR: "Waist ÷ height. A quick screening measure: aim to keep your waist below half your height.",
+        WHR: "Waist ÷ hip. Shows whether fat sits around the trunk or the hips; cut-offs differ by sex.",
+        BRI: "Models the body as an ellipse from waist and height; higher values are linked to visceral fat and higher mortality.",
+    },
+    riskLevels: { low: "Low (below the healthy range)", healthy: "Healthy", increased: "Increased risk", high: "High risk" },
+    healthIndicatorNeedsHip: "Needs the hip measurement",
+
+    // Body Composition
+    compositionTitle: "Body Composition",
+    fatMassTitle: "Fat Mass", fatMassTooltip: "Weight × Consensus BF%",
+    leanMassTitle: "Lean Body Mass", leanMassTooltip: "Weight − Fat Mass",
+    ffmiTitle: "FFMI", ffmiTooltip: "Fat-Free Mass Index: Lean Mass / Height²",
+    normalizedFfmiTitle: "Normalized FFMI", normalizedFfmiTooltip: "FFMI adjusted to a 1.80 m height: FFMI + 6.1 × (1.8 − Height)",
+    nextCategoryText: (category: string, bf: string, mass: string) => `To reach the next category (${category}, ≤${bf}%), you would need to lose about ${mass} of fat while keeping your lean mass.`,
+    leanestCategoryText: "You are in the leanest category; your goal should be to maintain this composition in a healthy way.",
+    plannerTitle: "Target Weight Planner",
+    plannerTargetLabel: "Target BF% (%)",
+    plannerRateLabel: "Weekly Weight Loss",
+    perWeekSuffix: "/week",
+    plannerTargetWeight: "Target Weight",
+    plannerChange: "Weight Change",
+    plannerTimeline: "Estimated Time",
+    plannerWeeks: (weeks: number) => `~${weeks} weeks`,
+    plannerTargetCategory: (category: string) => `Target weight assumes your lean mass is preserved. Target category: ${category}.`,
+    plannerTargetNotLower: "The target BF% is not below your current estimate; this planner is meant for fat loss.",
+
+    // Nutrition & Energy
+    nutritionTitle: "Energy & Nutrition Targets",
+    nutritionIntro: "Based on the lean mass derived from your consensus BF% estimate. Use these as a starting point and adjust every 2–3 weeks based on how your weight changes.",
+    activityLabel: "Activity Level",
+    activityLevels: {
+        sedentary: "Sedentary (desk job, no exercise)",
+        light: "Lightly active (exercise 1–3 days a week)",
+        moderate: "Moderately active (exercise 3–5 days a week)",
+        active: "Very active (exercise 6–7 days a week)",
+        veryActive: "Extremely active (physical job or training twice a day)",
+    },
+    bmrEquationLabel: "BMR Equation for TDEE",
+    bmrEquationNames: { KATCH_MCARDLE: "Katch-McArdle", CUNNINGHAM: "Cunningham", MIFFLIN_ST_JEOR: "Mifflin-St Jeor" },
+    bmrEquationNotes: {
+        KATCH_MCARDLE: "370 + 21.6 × Lean Mass. Accounts for body composition; recommended for most people.",
+        CUNNINGHAM: "500 + 22 × Lean Mass. Gives a slightly higher estimate suited to athletes and muscular people.",
+        MIFFLIN_ST_JEOR: "Uses weight, height, age and sex; ignores body fat. Shown for comparison.",
+    },
+    bmrTitle: "Basal Metabolic Rate (BMR)",
+    tdeeTitle: "Total Daily Energy Expenditure (TDEE)",
+    kcalPerDay: (kcal: string) => `${kcal} kcal/day`,
+    goalNames: { cut: "Fat Loss", maintain: "Maintenance", bulk: "Muscle Gain" },
+    goalAdjustment: (sign: string, pct: string) => `TDEE ${sign}${pct}%`,
+    goalRecommendedLabel: "Recommended",
+    goalRecommendation: (category: string, goal: string) => `Recommended goal for the ${category} category: ${goal}. The deficit and surplus are scaled to your category.`,
+    proteinLabel: "Protein", fatLabel: "Fat", carbsLabel: "Carbs",
+    gramsValue: (g: string) => `${g} g`,
+
+    // Age Norms
+    normsTitle: "Norms for Your Age",
+    normsIntro: "Where your body fat sits among people of your sex and age group. Body fat naturally rises with age, so the healthy range moves with it.",
+    normPopulationLabel: "Reference Population",
+    normPopulations: { general: "General (White adults)", asian: "Asian adults", africanAmerican: "African American adults" },
+    normRanges: { underfat: "Underfat", healthy: "Healthy", overweight: "Overfat", obese: "Obese" },
+    normGroup: (sex: Sex, band: string) => `${sex === 'male' ? 'men' : 'women'} aged ${band}`,
+    normRangeTitle: "Range for Your Age Group",
+    normHealthyRangeText: (group: string, from: string, to: string) => `Healthy range for ${group}: ${from}–${to}%.`,
+    normPercentileTitle: "Percentile",
+    normPercentileValue: (p: string) => `Percentile ${p}`,
+    normPercentileText: (leaner: string, group: string) => `Leaner than about ${leaner}% of ${group}.`,
+    normPercentileTailBelow: (leaner: string, group: string) => `Leaner than at least ${leaner}% of ${group}.`,
+    normPercentileTailAbove: (higher: string, group: string) => `Higher body fat than at least ${higher}% of ${group}.`,
+    normYouMarker: "You",
+    normChartLabel: (bf: string, range: string, group: string) => `${bf}% on the scale for ${group}: ${range}`,
+    normClosestBandNote: "Your age is outside the reference tables; the closest age band is used.",
+    normDistributionFallbackNote: "There is no percentile table for this population; the general reference data is used.",
+    normSourcesLabel: "Sources",
+
+    // Compare
+    compareButton: "Compare measurements",
+    compareTitle: "Compare Check-ins",
+    compareIntro: "Pick two measurements, saved or typed in, to see what changed method by method. Both are recalculated with your current method settings.",
+    compareBefore: "Before",
+    compareAfter: "After",
+    compareLoadLabel: "Saved measurement",
+    compareLoadPlaceholder: "Choose…",
+    compareHistoryGroup: "My history",
+    compareClientGroup: (name: string) => `Client: ${name}`,
+    compareOrEnter: "…or enter the values:",
+    compareEnteredLabel: "Entered values",
+    compareChange: "Change",
+    compareNeedsBoth: "Choose or enter both measurements to compare them.",
+    compareSexMismatch: "The two measurements are for different sexes; formulas and categories differ, so the comparison may not be meaningful.",
+    compareMethodsTitle: "Change by Method",
+    compareMethodColumn: "Method",
+    compareDeltaColumn: "Change",
+    comparePointsUnit: "pts",
+    compareMassTitle: "Where the Weight Change Went",
+    compareWeightChange: "Weight",
+    compareFatChange: "Fat mass",
+    compareLeanChange: "Lean mass",
+    compareMassNote: "Estimated with the consensus body fat % of each measurement.",
+    compareCategoryTitle: "Category",
+    compareCategoryLeaner: "You moved to a leaner category.",
+    compareCategoryHigher: "You moved to a higher category.",
+    compareCategorySame: "Your category stayed the same.",
+    compareChartTitle: "Before and After by Method",
+
+    // Waitlist
+    waitlistNameLabel: "Your name",
+    waitlistEmailLabel: "Your email address",
+    waitlistConsentLabel: "I agree that my details and the results of this calculation are stored to contact me about the waitlist and the coaching program.",
+    waitlistNameRequired: "Please enter your name.",
+    waitlistNameTooLong: (max: number) => `The name can be at most ${max} characters.`,
+    waitlistEmailRequired: "Please enter your email address.",
+    waitlistEmailInvalid: "Please enter a valid email address.",
+    waitlistConsentRequired: "Your consent is needed to continue.",
+    waitlistSubmitting: "SENDING…",
+    waitlistRetry: "TRY AGAIN",
+    waitlistFailed: "Your sign-up couldn't be sent. Check your connection and try again.",
+    waitlistSuccessTitle: "You're on the waitlist!",
+    waitlistSuccessText: (email: string) => `I'll let you know at ${email} as soon as the system is ready.`,
+
+    // Site (Landing & Methods)
+    navLabels: { landing: "Home", calculator: "Calculator", methods: "Methods", history: "History" },
+    navAriaLabel: "Site navigation",
+    navMenuOpen: "Open menu",
+    navMenuClose: "Close menu",
+    heroTitleStart: "Know your body fat,",
+    heroTitleHighlight: "not just your weight",
+    heroText: (count: number) => `${count} methods, from a tape measure to skinfold calipers, combined into one consensus value with an honest margin of error.`,
+    heroStartButton: "Start Calculating",
+    heroMethodsButton: "How it works",
+    howItWorksTitle: "How It Works",
+    howItWorksSteps: [
+        { title: "Measure", text: "A tape measure is enough: neck, waist and (for women) hip circumference. Add skinfold readings if you have a caliper." },
+        { title: "Enter", text: "The step-by-step form shows how to take each measurement; use metric or imperial units." },
+        { title: "Compare", text: "See every method's result, the consensus and its confidence interval; your measurements are saved so you can follow the change over time." },
+    ],
+    featuresTitle: "Why This Calculator?",
+    featuresSubtitle: "Instead of trusting a single formula, see how well the methods agree.",
+    landingFeatures: {
+        methods: { title: "Multiple Methods", text: "BMI-based formulas, tape methods, caliper protocols and a visual estimate, calculated side by side." },
+        consensus: { title: "Consensus Estimate", text: "Results are weighted by each method's standard error; results that disagree strongly with the rest are flagged." },
+        tracking: { title: "Progress Tracking", text: "Every calculation is saved to your history; follow the change with the trend chart and the compare view." },
+        coach: { title: "Coach Mode", text: "Keep client profiles and calculate a whole group at once from a CSV file." },
+        export: { title: "Reports & Export", text: "Download your results as a PDF report, CSV or JSON, or share them with a link." },
+        privacy: { title: "Your Data Stays With You", text: "Your measurements are stored only in your browser and are not sent anywhere unless you share them." },
+    },
+    landingCtaTitle: "Take a Few Minutes",
+    landingCtaText: "Grab a tape measure and take your first measurement. No sign-up needed.",
+    methodsPageTitle: "Methods",
+    methodsPageIntro: "Every method the calculator uses, the measurements it needs and how the results are combined.",
+    methodFamilyTitles: { bmi: "BMI-Based Formulas", tape: "Tape Methods", caliper: "Caliper (Skinfolds)", visual: "Visual Estimate", custom: "Custom Methods" },
+    methodFamilyNotes: {
+        bmi: "Use only height, weight, age and sex. They work for everyone but cannot tell muscle from fat, so together they count as a single vote in the consensus.",
+        tape: "Use circumferences to account for where fat is stored. Measure without squeezing the tape, at the same spot every time.",
+        caliper: "Skinfold thicknesses give a body density, which is converted to body fat. Shown only when you enter caliper readings.",
+        visual: "A rough estimate from the silhouette that looks most like you. You can keep it out of the average.",
+        custom: "Formulas added to this calculator on top of the built-in ones.",
+    },
+    methodsInputs: (inputs: string) => `Needs: ${inputs}`,
+    methodsInputsBySex: (male: string, female: string) => `Needs: ${male} (men) · ${female} (women)`,
+    methodsOffByDefault: "Off by default",
+    methodsConsensusTitle: "How Results Are Combined",
+    methodsConsensusText: "The consensus is an average weighted by each method's published standard error, so more precise methods count for more. Methods that share their inputs (such as the three BMI formulas) count as a single vote, and the 95% confidence interval shows the uncertainty that remains. Results far from the consensus are flagged so you can double-check your measurements.",
+    footerTagline: "Body fat estimates from several scientific formulas.",
+    footerPagesTitle: "Pages",
+
+    // Analytics (Consent)
+    analyticsConsentTitle: "Anonymous usage statistics",
+    analyticsConsentText: "To improve the calculator we'd like to record, anonymously, which steps are used and where errors happen. Your measurements are not sent unless you also allow it below.",
+    analyticsConsentMeasurements: "Also share my measurements (without my name) with completed calculations",
+    analyticsConsentAccept: "Allow",
+    analyticsConsentDecline: "Decline",
+    analyticsSettingsButton: "Privacy settings",
+
+    // App (Offline & Updates)
+    updateAvailableText: "A new version of the app is ready.",
+    updateReloadButton: "Reload",
+    updateDismissButton: "Dismiss",
+    draftResumedText: "Picking up where you left off; the values you entered were kept.",
+    draftStartOverButton: "Start over",
+};
@@ -0,0 +1,51 @@
+import { en } from './en';
+import { tr, Translations } from './tr';
+
+export type { Translations } from './tr';
+
+/****************************
+ * Locales
+ ***************************/
+export type Locale = 'tr' | 'en';
+
+type LocaleConfig = {
+  translations: Translations;
+  /** BCP 47 tag passed to `Intl` / `toLocaleString`. */
+  intl: string;
+  decimalSeparator: ',' | '.';
+  /** Label shown in the language switcher, in the language itself. */
+  label: string;
+};
+
+export const DEFAULT_LOCALE: Locale = 'tr';
+export const LOCALE_STORAGE_KEY = 'bodyfat.locale';
+
+export const LOCALES: Record<Locale, LocaleConfig> = {
+  tr: { translations: tr, intl: 'tr-TR', decimalSeparator: ',', label: 'TR' },
+  en: { translations: en, intl: 'en-US', decimalSeparator: '.', label: 'EN' },
+};
+
+export const SUPPORTED_LOCALES = Object.keys(LOCALES) as Locale[];
+
+export const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in LOCALES;
+
+/** First supported language from the browser's preference list (`en-GB` → `en`), else the default. */
+export const detectLocale = (languages: readonly string[]): Locale => {
+  for (const lang of languages) {
+    const primary = lang.toLowerCase().split('-')[0];
+    if (isLocale(primary)) return primary;
+  }
+  return DEFAULT_LOCALE;
+};
+
+/** A locale the user picked earlier wins over browser detection. */
+export const getInitialLocale = (): Locale => {
+  try {
+    const stored = window.localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage unavailable: fall through to detection.
+  }
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language];
+  return detectLocale(languages.filter(Boolean));
+};
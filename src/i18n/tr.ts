@@ -0,0 +1,491 @@
+import { ActivityLevel, BfCategory, BmrEquation, HealthIndicatorKey, MethodFamily, MethodKey, NormPopulation, NormRange, NutritionGoal, PlausibilityIssue, RiskLevel, Sex, SkinfoldProtocol, SkinfoldSite } from '../lib/bodyFat';
+import { BatchIssue } from '../lib/batch';
+import { RouteId } from '../lib/routes';
+
+/****************************
+ * Dil (Language) Ayarları - Turkish
+ ***************************/
+export const tr = {
+    // Genel UI
+    welcomeTitle: "Hoş Geldiniz!",
+    welcomeText: "Vücut yağ oranınızı tahmin edelim.",
+    startButton: "BAŞLA",
+    nextButton: "İleri",
+    backButton: "Geri",
+    calculateAgainButton: "Tekrar Hesapla",
+    estimatorTitle: "Vücut Yağ Oranı Hesaplayıcı",
+    infoTitle: "Yöntemler Hakkında",
+    infoDisclaimer: "Çeşitli formüller farklı girdiler kullanarak vücut yağını tahmin eder. Sonuçlar değişiklik gösterebilir. Detaylar için sonuç kartlarının üzerine gelin. Bu araç yalnızca tahminler sunar.",
+    infoAbbreviationsTitle: "Kısaltmalar:",
+    resultsTitle: "Sonuçlar",
+    resultsComparisonTitle: "VY% Sonuç Karşılaştırması",
+    categoryResultTitle: "Kategoriniz:",
+    ctaTitle: "BU VERİYİ SONUCA DÖNÜŞTÜRÜN",
+    ctaTextP1: "Vücut yağ oranı önemli bir veridir, ancak tek başına yeterli değildir. Asıl farkı yaratan, bu veriyi bilimsel bir strateji ve disiplinli bir sistemle eyleme dönüştürmektir.",
+    ctaTextP2: "Şu anda, sizin gibi hedeflerine ulaşmak isteyenler için, sonuç odaklı online koçluk programları ve sistemleri geliştiriyorum. İlk başlayanlardan olmak, lansmana özel avantajlardan yararlanmak ve sistem hazır olduğunda haberdar olmak için bekleme listesine katılın.",
+    ctaButton: "BEKLEME LİSTESİNE KATIL",
+    disclaimer: "Uyarı: Bunlar formüllere dayalı tahminlerdir ve klinik ölçümlerden (örn. DXA, BodPod) farklılık gösterebilir. Bunları kesin bir teşhis olarak değil, bir rehber olarak kullanın.",
+    noChartData: "Grafiği görüntülemek için veri yok.",
+    calculationError: "Hesaplama Hatası. Lütfen baştan başlayın.",
+    enterHint: "Devam etmek için Enter'a da basabilirsiniz.",
+    homeTitle: "Anasayfa",
+    languageLabel: "Dil",
+    themeToLight: "Açık temaya geç",
+    themeToDark: "Koyu temaya geç",
+    examplePrefix: "örn.",
+    bfShort: "VY%",
+    chartAverageLabel: "Konsensüs",
+    unknownStep: "Bilinmeyen Adım",
+
+    // Adımlar
+    step1Title: "Cinsiyetinizi Seçin",
+    step2Title: "Yaşınız Kaç?",
+    step3Title: "Kilonuzu Girin",
+    step4Title: "Boyunuzu Girin",
+    step5Title: "Boyun Çevrenizi Girin",
+    step6Title: "Bel Çevrenizi Girin",
+    step7Title: "Kalça Çevrenizi Girin",
+    step8Title: "Deri Kıvrımı Ölçümleri (İsteğe Bağlı)",
+
+    // Etiketler ve Birimler
+    genderMale: "Erkek",
+    genderFemale: "Kadın",
+    ageLabel: "Yaş (yıl)",
+    weightLabel: "Kilo",
+    heightLabel: "Boy",
+    neckLabel: "Boyun Çevresi",
+    waistLabel: "Bel Çevresi",
+    hipLabel: "Kalça Çevresi",
+    unitKg: "kg",
+    unitLbs: "lbs",
+    unitCm: "cm",
+    unitFt: "ft",
+    unitIn: "in",
+    unitFtIn: "ft / in",
+    heightFtLabel: "Fit (ft)",
+    heightInLabel: "İnç (in)",
+    unitMm: "mm",
+
+    // Kaliper
+    caliperIntro: "Kaliperiniz varsa bir protokol seçin ve ölçümleri milimetre cinsinden, vücudun sağ tarafından girin. Yoksa bu adımı atlayabilirsiniz.",
+    caliperNone: "Kaliper Yok",
+    caliperProtocols: { JP3: "Jackson-Pollock 3 Nokta", JP7: "Jackson-Pollock 7 Nokta", DW: "Durnin-Womersley" } as Record<SkinfoldProtocol, string>,
+    skinfoldSites: {
+        chest: "Göğüs", abdomen: "Karın", thigh: "Uyluk", triceps: "Triseps",
+        suprailiac: "Suprailiak", subscapular: "Subskapular", midaxillary: "Orta Aksiller", biceps: "Biseps",
+    } as Record<SkinfoldSite, string>,
+    skinfoldHelpers: {
+        chest: "Koltuk altı çizgisi ile meme ucu arasında çapraz kıvrım.",
+        abdomen: "Göbeğin 2 cm sağında dikey kıvrım.",
+        thigh: "Kalça kıvrımı ile diz kapağı arasının ortasında, uyluğun önünde dikey kıvrım.",
+        triceps: "Kolun arkasında, omuz ile dirsek arasının ortasında dikey kıvrım.",
+        suprailiac: "Kalça kemiğinin hemen üstünde, ön koltuk altı çizgisinde çapraz kıvrım.",
+        subscapular: "Kürek kemiğinin alt ucunun hemen altında çapraz kıvrım.",
+        midaxillary: "Orta koltuk altı çizgisinde, göğüs kemiği ucu hizasında dikey kıvrım.",
+        biceps: "Kolun önünde, pazı kasının ortasında dikey kıvrım.",
+    } as Record<SkinfoldSite, string>,
+
+    // Yardımcı Metinler
+    waistHelper: "Yatay olarak, göbek deliği hizasından ölçün.",
+    hipHelper: "Yatay olarak kalçanın en geniş kısmından ölçün.",
+    neckHelper: "Adem elmasının altındaki en dar noktadan ölçün.",
+
+    // Hatalar
+    errorSelectGender: "Lütfen bir cinsiyet seçin.",
+    errorAgeRequired: "Yaş gerekli.",
+    errorWeightRequired: "Kilo gerekli.",
+    errorHeightRequired: "Boy gerekli.",
+    errorHeightCmRequired: "Boy (cm) gerekli.",
+    errorHeightFtRequired: "Fit gerekli.",
+    errorHeightInRequired: "İnç gerekli.",
+    errorNeckRequired: "Boyun çevresi gerekli.",
+    errorWaistRequired: "Bel çevresi gerekli.",
+    errorHipRequired: "Kalça çevresi gerekli.",
+    errorSkinfoldRequired: "Bu ölçüm gerekli.",
+    errorInvalidNumber: "Geçersiz sayı.",
+    errorRange: (min: string, max: string) => `Aralık: ${min}-${max}`,
+
+    // Yükleme Mesajları
+    loadingMessages: [
+        "Girdiler analiz ediliyor...", "Formüller uygulanıyor...", "BMI hesaplanıyor...", "Navy VY% tahmin ediliyor...",
+        "RFM hesaplanıyor...", "CUN-BAE çalıştırılıyor...", "ECORE-BF işleniyor...", "Vücut yoğunluğu hesaplanıyor...", "Veriler çapraz kontrol ediliyor...",
+        "Tahminler kalibre ediliyor...", "Sonuçlar derleniyor...", "Grafik oluşturuluyor...", "Raporunuz hazırlanıyor...",
+        "Neredeyse bitti...", "Sonuçlandırılıyor..."
+    ],
+    loadingProgressLabel: "Hesaplama ilerlemesi",
+    skipLoadingButton: "Atla",
+    skipLoadingPreference: "Sonraki hesaplamalarda sonuçları beklemeden göster",
+    resultsCalculating: "Sonuçlar hesaplanıyor...",
+    methodResultAnnouncement: (method: string, value: string) => `${method}: ${value}%`,
+    resultsAnnouncement: (value: string, category: string) => `Sonuçlar hazır. Konsensüs vücut yağ oranı ${value}%, kategori: ${category}.`,
+
+    // Yöntem Bilgileri
+    methodNotes: {
+        BMI_BF: "BMI, Yaş, Cinsiyet kullanır. Sporcularda daha az doğrudur.",
+        NAVY: "Boy, Boyun, Bel (ve kadınlar için Kalça) kullanır. Genellikle hatalıdır.",
+        RFM: "Boy ve Bel kullanır. Daha basit bant yöntemi.",
+        CUN_BAE: "BMI, Yaş, Cinsiyet (E=0, K=1) kullanır. Karmaşık formül.",
+        ECORE: "Yaş, Cinsiyet (E=0, K=1), BMI'nin Doğal Logaritması (Ln) kullanır.",
+        SKF_SIRI: "Seçilen kaliper protokolüyle (JP3, JP7 veya Durnin-Womersley) hesaplanan vücut yoğunluğunu Siri denklemiyle dönüştürür.",
+        SKF_BROZEK: "Aynı vücut yoğunluğunu Brozek denklemiyle dönüştürür. Ortalamaya dahil edilmez.",
+        VISUAL: "Seçtiğiniz referans silüetin aralığının orta noktası. Kabaca bir tahmindir; konsensüste en düşük ağırlığı alır.",
+    } as Record<MethodKey, string>,
+    methodNames: {
+        BMI_BF: "BMI Tabanlı VY% (Deurenberg)",
+        NAVY: "US Navy VY% (Mezura)",
+        RFM: "RFM VY% (Mezura)",
+        CUN_BAE: "CUN-BAE VY%",
+        ECORE: "ECORE-BF VY%",
+        SKF_SIRI: "Kaliper VY% (Siri)",
+        SKF_BROZEK: "Kaliper VY% (Brozek)",
+        VISUAL: "Görsel VY% (Silüet)",
+    } as Record<MethodKey, string>,
+
+    // Kısaltmalar
+    abbreviations: {
+        "VY%": "Vücut Yağ Yüzdesi", "VKİ": "Vücut Kitle İndeksi",
+        "RFM": "Relatif Yağ Kütlesi", "CUN-BAE": "Navarra Tahmincisi",
+        "ECORE": "ECORE Tahmincisi", "kg/cm": "Metrik Birimler",
+        "lbs/ft/in": "İmperyal Birimler",
+        "JP3/JP7": "Jackson-Pollock 3/7 Nokta Kaliper", "DW": "Durnin-Womersley Kaliper",
+    } as Record<string, string>,
+
+    // Kategori Sonuçları
+    categoryNames: {
+        "Contest Prep": "Yarışma Hazırlığı", "Athletic": "Atletik", "Average": "Ortalama",
+        "Overweight": "Fazla Kilolu", "Obese": "Obez", "Unknown": "Bilinmiyor",
+    } as Record<BfCategory, string>,
+    categoryMessages: {
+        "Contest Prep": "Aşırı derecede yağsızsınız, tipik olarak yarışma hazırlığı seviyesi. Yeterli toparlanma ve beslenmeye dikkat edin.",
+        "Athletic": "Atletik aralıktasınız. Mükemmel iş! Performans hedeflerine odaklanın ve bu sağlıklı kompozisyonu koruyun.",
+        "Average": "Ortalama vücut yağ aralığındasınız. Beslenme ve antrenmanı optimize etmek sağlığı, performansı ve estetiği artırabilir.",
+        "Overweight": "Kategoriniz Fazla Kilolu. Sürdürülebilir bir kalori açığı ve tutarlı antrenman yoluyla yağ kaybına odaklanmak, önemli sağlık faydaları için önerilir.",
+        "Obese": "Kategoriniz Obez. Uzun vadeli sağlığı iyileştirmek ve riskleri azaltmak için profesyonel rehberlikle yağ kaybını önceliklendirmek çok önemlidir.",
+        "Unknown": "Kategori belirlenemedi.",
+    } as Record<BfCategory, string>,
+
+    // Diğer
+    bmiValueTitle: "VKİ Değeri", averageBfTitle: "Ort. VY%",
+    bmiValueTooltip: "Vücut Kitle İndeksi (Kilo/Boy²)", averageBfTooltip: "Hesaplanan VY% yöntemlerinin ortalaması",
+    consensusBfTitle: "Konsensüs VY%",
+    consensusBfTooltip: "Yöntemlerin standart hatalarına göre ağırlıklandırılmış ortalama. BMI tabanlı formüller tek bir oy sayılır.",
+    confidenceInterval: (low: string, high: string) => `%95 GA: ${low}–${high}%`,
+    categoryRange: (low: string, high: string) => `Güven aralığı iki kategoriyi kapsıyor: ${low} – ${high}`,
+    standardErrorTooltip: "Yöntemin yayımlanmış tahmin standart hatası (VY% puanı)",
+    outlierLabel: "Diğer yöntemlerle belirgin şekilde uyuşmuyor",
+    outlierNote: "Bu sonuç konsensüsten belirgin şekilde farklı; ölçümlerinizi kontrol edin.",
+
+    // Geçmiş
+    historyButton: "Geçmiş",
+    historyTitle: "Ölçüm Geçmişi",
+    historyEmpty: "Henüz kayıtlı ölçüm yok. Bir hesaplamayı tamamladığınızda burada görünecek.",
+    historyTrendTitle: "Gelişim Grafiği",
+    historyTrendNeedsMore: "Grafik için en az iki ölçüm gerekli.",
+    historyDate: "Tarih",
+    historyEdit: "Düzenle",
+    historyDelete: "Sil",
+    historyDeleteConfirm: "Bu ölçüm silinsin mi?",
+    historyBack: "Hesaplayıcıya Dön",
+    historySaved: "Bu sonuç ölçüm geçmişinize kaydedildi.",
+    historyUpdated: "Geçmişteki ölçüm güncellendi.",
+    historySeries: { averageBf: "Ort. VY%", weight: "Kilo", waist: "Bel", leanMass: "Yağsız Kütle" },
+
+    // Paylaşım
+    shareLinkButton: "Bağlantıyı Kopyala",
+    shareLinkCopied: "Bağlantı Kopyalandı",
+    shareLinkFailed: "Bağlantı kopyalanamadı. Adres çubuğundaki bağlantıyı paylaşabilirsiniz.",
+
+    // Rapor ve Dışa Aktarma
+    exportPdfButton: "PDF Rapor",
+    exportPdfGenerating: "Rapor hazırlanıyor...",
+    exportPdfFailed: "PDF oluşturulamadı. Lütfen tekrar deneyin.",
+    exportCsvButton: "CSV",
+    exportJsonButton: "JSON",
+    reportTitle: "Vücut Yağ Oranı Raporu",
+    reportDate: (date: string) => `Tarih: ${date}`,
+    reportInputsTitle: "Ölçümler",
+    reportMethodsTitle: "Yöntem Sonuçları",
+    reportMethodColumn: "Yöntem",
+    reportNoteColumn: "Not",
+
+    // Yöntem Ayarları
+    methodSettingsButton: "Yöntem Ayarları",
+    methodSettingsTitle: "Yöntem Ayarları",
+    methodSettingsIntro: "Hangi yöntemlerin hesaplanacağını ve hangilerinin ortalamaya (konsensüs) katılacağını seçin. Kapalı yöntemler sonuçlarda, grafikte ve raporda gösterilmez.",
+    methodEnabledLabel: "Etkin",
+    methodCountsLabel: "Ortalamaya dahil",
+    methodCountsDynamicHint: "Bu yöntemin ortalamaya katılımı ayrıca her hesaplamada seçilebilir.",
+    methodCountsNeverHint: "Bu yöntem yalnızca karşılaştırma için gösterilir, ortalamaya hiçbir zaman katılmaz.",
+    methodSettingsReset: "Varsayılanlara Dön",
+    methodCustomBadge: "Ek formül",
+
+    // Koç Modu
+    coachButton: "Koç Modu",
+    coachTitle: "Koç Modu",
+    coachClientsTab: "Danışanlar",
+    coachBatchTab: "Toplu Hesaplama (CSV)",
+    coachNewClientPlaceholder: "Danışan adı",
+    coachAddClient: "Danışan Ekle",
+    coachNoClients: "Henüz danışan yok. Yukarıdan bir isim ekleyin.",
+    coachSelectClient: "Ölçüm girmek için bir danışan seçin veya ekleyin.",
+    coachRename: "Yeniden Adlandır",
+    coachRenamePrompt: "Danışanın yeni adı:",
+    coachDeleteClient: "Danışanı Sil",
+    coachDeleteClientConfirm: (name: string) => `${name} ve tüm ölçüm geçmişi silinsin mi?`,
+    coachSexLabel: "Cinsiyet",
+    coachCaliperLabel: "Kaliper Protokolü",
+    coachFieldRequired: "Bu alan gerekli.",
+    coachCalculate: "Hesapla ve Kaydet",
+    coachLatestResult: "Son Sonuç",
+    batchIntro: "Her satırda bir danışan olacak şekilde bir CSV dosyası yükleyin. Değerler metrik olmalıdır (kg, cm, mm). Sütunlar için şablonu indirin; kaliper sütunları isteğe bağlıdır.",
+    batchChooseFile: "CSV Yükle",
+    batchDownloadTemplate: "Şablonu İndir",
+    batchExportCsv: "Sonuçları CSV Olarak İndir",
+    batchSaveToClients: "Danışanlara Kaydet",
+    batchNameColumn: "Ad",
+    batchMissingColumns: (columns: string) => `Dosyada gerekli sütunlar eksik: ${columns}`,
+    batchSummary: (valid: number, total: number) => `${total} satırdan ${valid} tanesi hesaplandı.`,
+    batchSaved: (count: number) => `${count} sonuç danışan geçmişlerine kaydedildi.`,
+    batchProblems: { missing: "eksik", invalid: "geçersiz", range: "aralık dışında" } as Record<BatchIssue['problem'], string>,
+
+    // Ölçüm Rehberi
+    measurementGuideTitle: "Nasıl ölçülür?",
+    measurementGuideStepsTitle: "Mezurayı yerleştirme",
+    measurementGuideMistakesTitle: "Sık yapılan hatalar",
+    measurementGuideIllustration: (site: string) => `${site} ölçümü için mezura konumu`,
+    measurementGuides: {
+        neck: {
+            steps: {
+                male: ["Dik durun, başınızı düz tutup karşıya bakın.", "Mezurayı gırtlak çıkıntısının hemen altından geçirin.", "Mezura önde hafifçe aşağı eğimli olsun; ölçümü en yakın 0,5 cm'ye yuvarlayın."],
+                female: ["Dik durun, başınızı düz tutup karşıya bakın.", "Mezurayı boynun en ince yerinden, gırtlağın hemen altından geçirin.", "Mezura önde hafifçe aşağı eğimli olsun; ölçümü en yakın 0,5 cm'ye yuvarlayın."],
+            },
+            mistakes: ["Mezurayı deriyi gömecek kadar sıkmak.", "Başı öne eğmek veya omuzları kaldırmak.", "Boynun alt kısmından, omuzlara yakın ölçmek."],
+        },
+        waist: {
+            steps: {
+                male: ["Ayakta, karın kaslarını gevşek bırakın.", "Mezurayı göbek hizasından, yere paralel olacak şekilde sarın.", "Normal bir nefes verdikten sonra, nefesi tutmadan okuyun."],
+                female: ["Ayakta, karın kaslarını gevşek bırakın.", "Mezurayı belin en ince yerinden (genellikle göbeğin biraz üstü), yere paralel sarın.", "Normal bir nefes verdikten sonra, nefesi tutmadan okuyun."],
+            },
+            mistakes: ["Karnı içeri çekmek veya nefes tutmak.", "Mezuranın arkada aşağı kayması.", "Kıyafetin üzerinden ölçmek."],
+        },
+        hip: {
+            steps: {
+                male: ["Ayaklar bitişik dik durun.", "Mezurayı kalçanın en geniş (en çıkıntılı) yerinden, yere paralel sarın.", "Mezura tene otursun ama sıkmasın."],
+                female: ["Ayaklar bitişik dik durun.", "Mezurayı kalçanın en geniş (en çıkıntılı) yerinden, yere paralel sarın.", "Mezura tene otursun ama sıkmasın."],
+            },
+            mistakes: ["Kalça kemiklerinden (bel hizasına yakın) ölçmek.", "Mezurayı önden arkaya eğik tutmak.", "Cep veya kalın kumaş üzerinden ölçmek."],
+        },
+    },
+
+    // Tutarlılık Uyarıları
+    plausibilityTitle: "Ölçümlerinizi kontrol edin",
+    plausibilityWarnings: {
+        waistNotAboveNeck: "Bel çevresi boyun çevresinden büyük olmalıdır. İki ölçümü de tekrar kontrol edin; aksi halde Navy yöntemi sonuçlarda yer almayabilir.",
+        hipBelowWaist: "Kalça çevresi bel çevresinden küçük görünüyor. Kalçayı en geniş yerinden ölçtüğünüzden emin olun.",
+        bmiImplausible: "Kilo ve boy 15-50 aralığı dışında bir BMI veriyor. Değerleri ve seçili birimleri kontrol edin.",
+    } as Record<PlausibilityIssue, string>,
+    plausibilityContinueHint: "Değerler doğruysa devam edebilirsiniz.",
+
+    // Görsel Tahmin
+    visualTitle: "Görsel Tahmin (İsteğe Bağlı)",
+    visualIntro: "Mezura veya kaliperiniz yoksa ya da ek bir tahmin istiyorsanız, vücudunuza en çok benzeyen silüeti seçin. Sonuçlarda ayrı bir yöntem olarak gösterilir.",
+    visualNone: "Seçme",
+    visualLevelLabel: (low: number, high: number) => `%${low}-${high}`,
+    visualCountsToggle: "Konsensüs tahminine dahil et",
+    noTapeButton: "Mezuranız yok mu? Silüetle devam edin",
+    noTapeNotice: "Mezura ölçümleri olmadan sonuç silüete (veya kalipere) ve BMI tabanlı formüllere dayanır, bu yüzden daha az kesindir.",
+    useTapeButton: "Mezura ölçümlerini gir",
+    errorVisualRequired: "Size en çok benzeyen silüeti seçin ya da kaliper ölçümlerini girin.",
+    excludedFromAverageLabel: "Konsensüse dahil değil",
+
+    // Sağlık Riski
+    healthRiskTitle: "Sağlık Riski Göstergeleri",
+    healthRiskIntro: "Bel çevresine dayalı bu oranlar, vücut yağ oranından bağımsız olarak karın bölgesi (iç organ) yağlanmasıyla ilişkili riski gösterir. Tanı amaçlı değildir.",
+    healthIndicatorNames: {
+        WHTR: "Bel/Boy Oranı (WHtR)",
+        WHR: "Bel/Kalça Oranı (WHR)",
+        BRI: "Vücut Yuvarlaklık İndeksi (BRI)",
+    } as Record<HealthIndicatorKey, string>,
+    healthIndicatorNotes: {
+        WHTR: "Bel ÷ Boy. Kısa ve basit bir tarama ölçütü: belinizin boyunuzun yarısından az olması hedeflenir.",
+        WHR: "Bel ÷ Kalça. Yağın gövdede mi kalçada mı toplandığını gösterir; eşik değerler cinsiyete göre değişir.",
+        BRI: "Bel ve boydan vücudu bir elips olarak modeller; yüksek değerler iç organ yağı ve artmış mortalite ile ilişkilidir.",
+    } as Record<HealthIndicatorKey, string>,
+    riskLevels: { low: "Düşük (sağlıklı aralığın altı)", healthy: "Sağlıklı", increased: "Artmış risk", high: "Yüksek risk" } as Record<RiskLevel, string>,
+    healthIndicatorNeedsHip: "Kalça ölçümü gerekli",
+
+    // Vücut Kompozisyonu
+    compositionTitle: "Vücut Kompozisyonu",
+    fatMassTitle: "Yağ Kütlesi", fatMassTooltip: "Kilo × Konsensüs VY%",
+    leanMassTitle: "Yağsız Vücut Kütlesi", leanMassTooltip: "Kilo − Yağ Kütlesi",
+    ffmiTitle: "FFMI", ffmiTooltip: "Yağsız Kütle İndeksi: Yağsız Kütle / Boy²",
+    normalizedFfmiTitle: "Normalize FFMI", normalizedFfmiTooltip: "1,80 m boya göre düzeltilmiş FFMI: FFMI + 6,1 × (1,8 − Boy)",
+    nextCategoryText: (category: string, bf: string, mass: string) => `Bir sonraki kategoriye (${category}, ≤%${bf}) ulaşmak için, yağsız kütlenizi koruyarak yaklaşık ${mass} yağ kaybetmeniz gerekir.`,
+    leanestCategoryText: "En yağsız kategoridesiniz; hedefiniz bu kompozisyonu sağlıklı şekilde korumak olmalı.",
+    plannerTitle: "Hedef Kilo Planlayıcı",
+    plannerTargetLabel: "Hedef VY% (%)",
+    plannerRateLabel: "Haftalık Kilo Kaybı",
+    perWeekSuffix: "/hafta",
+    plannerTargetWeight: "Hedef Kilo",
+    plannerChange: "Kilo Değişimi",
+    plannerTimeline: "Tahmini Süre",
+    plannerWeeks: (weeks: number) => `~${weeks} hafta`,
+    plannerTargetCategory: (category: string) => `Hedef kilo, yağsız kütlenin korunduğu varsayımıyla hesaplanır. Hedef kategori: ${category}.`,
+    plannerTargetNotLower: "Hedef VY% mevcut tahmininizden düşük değil; bu plan yağ kaybı için tasarlanmıştır.",
+
+    // Beslenme ve Enerji
+    nutritionTitle: "Enerji ve Beslenme Hedefleri",
+    nutritionIntro: "Konsensüs VY% tahmininden hesaplanan yağsız kütleniz kullanılarak. Başlangıç noktası olarak kullanın ve kilo değişiminize göre 2–3 haftada bir ayarlayın.",
+    activityLabel: "Aktivite Düzeyi",
+    activityLevels: {
+        sedentary: "Hareketsiz (masa başı, egzersiz yok)",
+        light: "Hafif aktif (haftada 1–3 gün egzersiz)",
+        moderate: "Orta aktif (haftada 3–5 gün egzersiz)",
+        active: "Çok aktif (haftada 6–7 gün egzersiz)",
+        veryActive: "Aşırı aktif (ağır fiziksel iş veya günde iki antrenman)",
+    } as Record<ActivityLevel, string>,
+    bmrEquationLabel: "TDEE için BMR Denklemi",
+    bmrEquationNames: { KATCH_MCARDLE: "Katch-McArdle", CUNNINGHAM: "Cunningham", MIFFLIN_ST_JEOR: "Mifflin-St Jeor" } as Record<BmrEquation, string>,
+    bmrEquationNotes: {
+        KATCH_MCARDLE: "370 + 21,6 × Yağsız Kütle. Vücut kompozisyonunu hesaba katar; çoğu kişi için önerilir.",
+        CUNNINGHAM: "500 + 22 × Yağsız Kütle. Sporcular ve kaslı bireyler için biraz daha yüksek tahmin verir.",
+        MIFFLIN_ST_JEOR: "Kilo, boy, yaş ve cinsiyetten hesaplanır; vücut yağını dikkate almaz. Karşılaştırma içindir.",
+    } as Record<BmrEquation, string>,
+    bmrTitle: "Bazal Metabolizma Hızı (BMR)",
+    tdeeTitle: "Günlük Toplam Enerji Harcaması (TDEE)",
+    kcalPerDay: (kcal: string) => `${kcal} kcal/gün`,
+    goalNames: { cut: "Yağ Kaybı", maintain: "Koruma", bulk: "Kas Kazanımı" } as Record<NutritionGoal, string>,
+    goalAdjustment: (sign: string, pct: string) => `TDEE ${sign}%${pct}`,
+    goalRecommendedLabel: "Önerilen",
+    goalRecommendation: (category: string, goal: string) => `${category} kategorisi için önerilen hedef: ${goal}. Kalori açığı ve fazlası kategorinize göre ayarlanır.`,
+    proteinLabel: "Protein", fatLabel: "Yağ", carbsLabel: "Karbonhidrat",
+    gramsValue: (g: string) => `${g} g`,
+
+    // Yaşa Göre Normlar
+    normsTitle: "Yaşınıza Göre Normlar",
+    normsIntro: "Vücut yağ oranınızın aynı cinsiyet ve yaş grubundaki kişiler arasında nerede durduğu. Yağ oranı yaşla birlikte doğal olarak artar; bu yüzden sağlıklı aralık da yaşa göre değişir.",
+    normPopulationLabel: "Referans Popülasyon",
+    normPopulations: { general: "Genel (Beyaz yetişkinler)", asian: "Asyalı yetişkinler", africanAmerican: "Afro-Amerikan yetişkinler" } as Record<NormPopulation, string>,
+    normRanges: { underfat: "Düşük yağ", healthy: "Sağlıklı", overweight: "Fazla yağ", obese: "Obez" } as Record<NormRange, string>,
+    normGroup: (sex: Sex, band: string) => `${band} yaş ${sex === 'male' ? 'erkekler' : 'kadınlar'}`,
+    normRangeTitle: "Yaş Grubunuzdaki Aralık",
+    normHealthyRangeText: (group: string, from: string, to: string) => `${group} için sağlıklı aralık: %${from}–${to}.`,
+    normPercentileTitle: "Yüzdelik Sıralama",
+    normPercentileValue: (p: string) => `${p}. yüzdelik`,
+    normPercentileText: (leaner: string, group: string) => `Yağ oranınız, ${group} arasında her 100 kişiden yaklaşık ${leaner} kişininkinden düşük.`,
+    normPercentileTailBelow: (leaner: string, group: string) => `Yağ oranınız, ${group} arasında her 100 kişiden en az ${leaner} kişininkinden düşük.`,
+    normPercentileTailAbove: (higher: string, group: string) => `Yağ oranınız, ${group} arasında her 100 kişiden en az ${higher} kişininkinden yüksek.`,
+    normYouMarker: "Siz",
+    normChartLabel: (bf: string, range: string, group: string) => `${group} ölçeğinde %${bf}: ${range}`,
+    normClosestBandNote: "Yaşınız referans tabloların dışında; en yakın yaş grubu kullanıldı.",
+    normDistributionFallbackNote: "Bu popülasyon için yüzdelik tablosu yok; genel referans verileri kullanıldı.",
+    normSourcesLabel: "Kaynaklar",
+
+    // Karşılaştırma
+    compareButton: "Ölçümleri karşılaştır",
+    compareTitle: "Ölçüm Karşılaştırma",
+    compareIntro: "Kayıtlı ya da yeni girdiğiniz iki ölçümü seçin; aradaki değişimi yöntem yöntem görün. İki ölçüm de güncel yöntem ayarlarıyla yeniden hesaplanır.",
+    compareBefore: "Önce",
+    compareAfter: "Sonra",
+    compareLoadLabel: "Kayıtlı ölçüm",
+    compareLoadPlaceholder: "Seçin…",
+    compareHistoryGroup: "Geçmişim",
+    compareClientGroup: (name: string) => `Danışan: ${name}`,
+    compareOrEnter: "…ya da değerleri girin:",
+    compareEnteredLabel: "Girilen değerler",
+    compareChange: "Değiştir",
+    compareNeedsBoth: "Karşılaştırmak için iki ölçümü de seçin ya da girin.",
+    compareSexMismatch: "İki ölçüm farklı cinsiyetler için; formüller ve kategoriler farklı olduğundan karşılaştırma anlamlı olmayabilir.",
+    compareMethodsTitle: "Yöntemlere Göre Değişim",
+    compareMethodColumn: "Yöntem",
+    compareDeltaColumn: "Değişim",
+    comparePointsUnit: "puan",
+    compareMassTitle: "Kilo Değişiminin Dağılımı",
+    compareWeightChange: "Kilo",
+    compareFatChange: "Yağ kütlesi",
+    compareLeanChange: "Yağsız kütle",
+    compareMassNote: "Her ölçümün ortak (konsensüs) yağ oranıyla tahmin edilmiştir.",
+    compareCategoryTitle: "Kategori",
+    compareCategoryLeaner: "Daha zayıf bir kategoriye geçtiniz.",
+    compareCategoryHigher: "Daha yüksek bir kategoriye geçtiniz.",
+    compareCategorySame: "Kategori değişmedi.",
+    compareChartTitle: "Yöntemlere Göre Önce ve Sonra",
+
+    // Bekleme Listesi
+    waitlistNameLabel: "Adınız",
+    waitlistEmailLabel: "E-posta adresiniz",
+    waitlistConsentLabel: "Bilgilerimin ve bu hesaplamanın sonuçlarının bekleme listesi ve koçluk programı hakkında benimle iletişim kurmak için saklanmasını kabul ediyorum.",
+    waitlistNameRequired: "Lütfen adınızı girin.",
+    waitlistNameTooLong: (max: number) => `Ad en fazla ${max} karakter olabilir.`,
+    waitlistEmailRequired: "Lütfen e-posta adresinizi girin.",
+    waitlistEmailInvalid: "Lütfen geçerli bir e-posta adresi girin.",
+    waitlistConsentRequired: "Devam etmek için onay vermeniz gerekiyor.",
+    waitlistSubmitting: "GÖNDERİLİYOR…",
+    waitlistRetry: "TEKRAR DENE",
+    waitlistFailed: "Kaydınız gönderilemedi. Bağlantınızı kontrol edip tekrar deneyin.",
+    waitlistSuccessTitle: "Bekleme listesine eklendiniz!",
+    waitlistSuccessText: (email: string) => `Sistem hazır olduğunda ${email} adresine haber vereceğim.`,
+
+    // Site (Ana Sayfa & Yöntemler)
+    navLabels: { landing: "Ana Sayfa", calculator: "Hesaplayıcı", methods: "Yöntemler", history: "Geçmiş" } as Record<RouteId, string>,
+    navAriaLabel: "Site menüsü",
+    navMenuOpen: "Menüyü aç",
+    navMenuClose: "Menüyü kapat",
+    heroTitleStart: "Sadece kilonuzu değil,",
+    heroTitleHighlight: "vücut yağ oranınızı bilin",
+    heroText: (count: number) => `Mezuradan kalipere ${count} farklı yöntem, dürüst bir hata payıyla tek bir ortak (konsensüs) değerde birleşir.`,
+    heroStartButton: "Hesaplamaya Başla",
+    heroMethodsButton: "Nasıl çalışır?",
+    howItWorksTitle: "Nasıl Çalışır?",
+    howItWorksSteps: [
+        { title: "Ölçün", text: "Bir mezura yeterli: boyun, bel ve (kadınlarda) kalça çevresi. Kaliperiniz varsa deri kıvrımlarını da ekleyebilirsiniz." },
+        { title: "Girin", text: "Adım adım ilerleyen form her ölçümün nasıl alınacağını gösterir; metrik ya da imperial birimler kullanabilirsiniz." },
+        { title: "Karşılaştırın", text: "Her yöntemin sonucunu, ortak tahmini ve güven aralığını görün; ölçümleriniz zaman içindeki değişimi izlemek için kaydedilir." },
+    ],
+    featuresTitle: "Neden Bu Hesaplayıcı?",
+    featuresSubtitle: "Tek bir formüle güvenmek yerine yöntemlerin ne kadar uyuştuğunu görün.",
+    landingFeatures: {
+        methods: { title: "Birden Fazla Yöntem", text: "BMI tabanlı formüller, mezura yöntemleri, kaliper protokolleri ve görsel tahmin yan yana hesaplanır." },
+        consensus: { title: "Ortak Tahmin", text: "Sonuçlar her yöntemin standart hatasına göre ağırlıklandırılır; diğerlerinden çok sapan sonuçlar işaretlenir." },
+        tracking: { title: "İlerleme Takibi", text: "Her hesaplama geçmişe kaydedilir; eğilim grafiği ve iki ölçümü karşılaştırma görünümüyle değişimi izleyin." },
+        coach: { title: "Koç Modu", text: "Danışan profilleri tutun ve bir CSV dosyasıyla toplu hesaplama yapın." },
+        export: { title: "Rapor ve Dışa Aktarma", text: "Sonuçlarınızı PDF rapor, CSV ya da JSON olarak indirin veya bir bağlantıyla paylaşın." },
+        privacy: { title: "Verileriniz Sizde", text: "Ölçümleriniz yalnızca tarayıcınızda saklanır; siz paylaşmadıkça hiçbir yere gönderilmez." },
+    },
+    landingCtaTitle: "Birkaç Dakikanızı Ayırın",
+    landingCtaText: "Bir mezura alın ve ilk ölçümünüzü yapın. Kayıt gerekmez.",
+    methodsPageTitle: "Yöntemler",
+    methodsPageIntro: "Hesaplayıcının kullandığı her yöntem, hangi ölçümlere ihtiyaç duyduğu ve sonuçların nasıl birleştirildiği.",
+    methodFamilyTitles: { bmi: "BMI Tabanlı Formüller", tape: "Mezura Yöntemleri", caliper: "Kaliper (Deri Kıvrımı)", visual: "Görsel Tahmin", custom: "Özel Yöntemler" } as Record<MethodFamily, string>,
+    methodFamilyNotes: {
+        bmi: "Yalnızca boy, kilo, yaş ve cinsiyet kullanır. Herkes için hesaplanabilir ama kası yağdan ayıramaz; bu yüzden ortak tahminde hepsi birlikte tek bir oy sayılır.",
+        tape: "Çevre ölçümleriyle yağın nerede toplandığını hesaba katar. Mezurayı sıkmadan ve her seferinde aynı noktadan ölçün.",
+        caliper: "Deri kıvrımı kalınlıklarından vücut yoğunluğu hesaplanır ve yağ oranına çevrilir. Yalnızca kaliper ölçümlerini girdiğinizde gösterilir.",
+        visual: "Size en çok benzeyen silueti seçerek yapılan kaba bir tahmin. İsterseniz ortalamanın dışında tutabilirsiniz.",
+        custom: "Bu hesaplayıcıya sonradan eklenmiş formüller.",
+    } as Record<MethodFamily, string>,
+    methodsInputs: (inputs: string) => `Gerekenler: ${inputs}`,
+    methodsInputsBySex: (male: string, female: string) => `Gerekenler: ${male} (erkek) · ${female} (kadın)`,
+    methodsOffByDefault: "Varsayılan olarak kapalı",
+    methodsConsensusTitle: "Sonuçlar Nasıl Birleştirilir?",
+    methodsConsensusText: "Ortak (konsensüs) değer, yöntemlerin yayımlanmış standart hatalarına göre ağırlıklandırılmış ortalamadır: daha isabetli yöntemler daha çok sayılır. Aynı girdileri paylaşan yöntemler (örneğin üç BMI formülü) tek bir oy olarak değerlendirilir ve %95 güven aralığı kalan belirsizliği gösterir. Ortak değerden çok sapan sonuçlar, ölçümlerinizi kontrol etmeniz için işaretlenir.",
+    footerTagline: "Birden fazla bilimsel formülle vücut yağ oranı tahmini.",
+    footerPagesTitle: "Sayfalar",
+
+    // Analitik (İzin)
+    analyticsConsentTitle: "Anonim kullanım istatistikleri",
+    analyticsConsentText: "Hesaplayıcıyı geliştirmek için hangi adımların kullanıldığını ve nerede hata alındığını anonim olarak kaydetmek istiyoruz. Ölçümleriniz, aşağıda ayrıca izin vermedikçe gönderilmez.",
+    analyticsConsentMeasurements: "Tamamlanan hesaplamalarla birlikte ölçümlerimi de (isimsiz olarak) paylaş",
+    analyticsConsentAccept: "İzin ver",
+    analyticsConsentDecline: "Reddet",
+    analyticsSettingsButton: "Gizlilik tercihleri",
+
+    // Uygulama (Çevrimdışı & Güncelleme)
+    updateAvailableText: "Uygulamanın yeni bir sürümü hazır.",
+    updateReloadButton: "Yenile",
+    updateDismissButton: "Kapat",
+    draftResumedText: "Kaldığınız yerden devam ediyorsunuz; girdiğiniz değerler korundu.",
+    draftStartOverButton: "Baştan başla",
+};
+
+export type Translations = typeof tr;
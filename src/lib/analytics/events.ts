@@ -0,0 +1,33 @@
+import { BfCategory, BodyMeasurements } from '../bodyFat';
+import { UnitSystem } from '../units';
+import { WizardStepId } from '../wizardFlow';
+
+/****************************
+ * Analytics events
+ ***************************/
+/** Buttons and links whose use we count; never the values behind them. */
+export type CtaId = 'start_calculator' | 'waitlist_signup' | 'share_link' | 'export_pdf' | 'export_csv' | 'export_json';
+
+export type AnalyticsEvent =
+  | { type: 'step_view'; step: WizardStepId }
+  /** Only the name of the input that failed, never what was typed. */
+  | { type: 'validation_error'; step: WizardStepId; field: string }
+  | { type: 'unit_toggle'; step: WizardStepId; unitSystem: UnitSystem }
+  | {
+      type: 'calculation_completed';
+      category: BfCategory;
+      /** Methods that produced a value. */
+      methodCount: number;
+      caliper: boolean;
+      visual: boolean;
+      /** A saved entry was recalculated rather than a new one added. */
+      edited: boolean;
+      /** Removed before sending unless the user opted in to sharing measurements. */
+      measurements?: BodyMeasurements;
+    }
+  | { type: 'cta_click'; cta: CtaId };
+
+export type AnalyticsEventType = AnalyticsEvent['type'];
+
+/** What sinks receive: the event plus a per-page-load session id (not stored anywhere) to group a visit's events. */
+export type TrackedEvent = AnalyticsEvent & { sessionId: string; timestamp: string };
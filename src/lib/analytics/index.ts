@@ -0,0 +1,3 @@
+export * from './events';
+export * from './sinks';
+export * from './tracker';
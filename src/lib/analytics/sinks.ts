@@ -0,0 +1,35 @@
+import { TrackedEvent } from './events';
+
+/****************************
+ * Analytics sinks (where events go)
+ ***************************/
+/**
+ * Receives every event the user consented to. To send events to a self-hosted endpoint, implement `send`
+ * (e.g. with `navigator.sendBeacon`) and set it as `ANALYTICS_SINK` in src/config/analytics.ts. Errors thrown
+ * or rejected here are ignored, so a failing endpoint never affects the calculator.
+ */
+export interface AnalyticsSink {
+  send: (event: TrackedEvent) => void | Promise<void>;
+}
+
+/** Delivers one event, swallowing synchronous and asynchronous failures. */
+export const sendSafely = (sink: AnalyticsSink, event: TrackedEvent): void => {
+  try {
+    void Promise.resolve(sink.send(event)).catch(() => {});
+  } catch {
+    // Analytics is best effort.
+  }
+};
+
+/** The default: nothing is collected and no consent banner is shown. */
+export const noopSink: AnalyticsSink = { send: () => {} };
+
+/** Logs each event, for checking the instrumentation during development. */
+export const createConsoleSink = (log: (...args: unknown[]) => void = console.debug): AnalyticsSink => ({
+  send: event => log(`[analytics] ${event.type}`, event),
+});
+
+/** Sends every event to each of the given sinks. */
+export const combineSinks = (...sinks: AnalyticsSink[]): AnalyticsSink => ({
+  send: event => { sinks.forEach(sink => sendSafely(sink, event)); },
+});
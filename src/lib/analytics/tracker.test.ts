@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AnalyticsEvent, TrackedEvent } from './events';
+import { ANALYTICS_CONSENT_STORAGE_KEY, AnalyticsConsent, createAnalytics, loadAnalyticsConsent, saveAnalyticsConsent } from './tracker';
+import { AnalyticsSink, combineSinks, createConsoleSink, noopSink } from './sinks';
+import { BodyMeasurements } from '../bodyFat';
+
+const measurements: BodyMeasurements = { sex: 'male', age: 30, weightKg: 81, heightCm: 180, neckCm: 38, waistCm: 85, hipCm: null, skinfolds: null, visual: null };
+const completed: AnalyticsEvent = { type: 'calculation_completed', category: 'Average', methodCount: 5, caliper: false, visual: false, edited: false, measurements };
+
+const recordingSink = () => {
+  const events: TrackedEvent[] = [];
+  const sink: AnalyticsSink = { send: event => { events.push(event); } };
+  return { sink, events };
+};
+
+const setup = (consent: AnalyticsConsent | null) => {
+  const { sink, events } = recordingSink();
+  const analytics = createAnalytics({ sink, consent, sessionId: 'session-1', now: () => new Date('2026-01-02T03:04:05Z') });
+  return { analytics, events };
+};
+
+describe('analytics', () => {
+  it('sends nothing before the user has agreed, or after declining', () => {
+    const { analytics, events } = setup(null);
+    analytics.track({ type: 'step_view', step: 'welcome' });
+    analytics.setConsent({ usage: false, measurements: false });
+    analytics.track({ type: 'step_view', step: 'sex' });
+    expect(events).toEqual([]);
+  });
+
+  it('adds the session id and timestamp once usage is allowed', () => {
+    const { analytics, events } = setup({ usage: true, measurements: false });
+    analytics.track({ type: 'validation_error', step: 'weight', field: 'weight' });
+    expect(events).toEqual([{ type: 'validation_error', step: 'weight', field: 'weight', sessionId: 'session-1', timestamp: '2026-01-02T03:04:05.000Z' }]);
+  });
+
+  it('strips measurements unless the user opted in to sharing them', () => {
+    const { analytics, events } = setup({ usage: true, measurements: false });
+    analytics.track(completed);
+    analytics.setConsent({ usage: true, measurements: true });
+    analytics.track(completed);
+    expect(events[0]).not.toHaveProperty('measurements');
+    expect(events[0]).toMatchObject({ category: 'Average', methodCount: 5 });
+    expect(events[1]).toMatchObject({ measurements });
+  });
+
+  it('is a no-op with the default sink and reports itself inactive', () => {
+    const send = vi.spyOn(noopSink, 'send');
+    const analytics = createAnalytics({ consent: { usage: true, measurements: true } });
+    analytics.track({ type: 'cta_click', cta: 'share_link' });
+    expect(send).not.toHaveBeenCalled();
+    expect(analytics.isActive()).toBe(false);
+    send.mockRestore();
+  });
+
+  it('keeps going when a sink throws or rejects', () => {
+    const { sink, events } = recordingSink();
+    const failing: AnalyticsSink = { send: () => { throw new Error('offline'); } };
+    const rejecting: AnalyticsSink = { send: () => Promise.reject(new Error('offline')) };
+    const analytics = createAnalytics({ sink: combineSinks(failing, rejecting, sink), consent: { usage: true, measurements: false } });
+    expect(() => analytics.track({ type: 'unit_toggle', step: 'weight', unitSystem: 'imperial' })).not.toThrow();
+    expect(events).toHaveLength(1);
+  });
+
+  it('notifies subscribers of consent changes', () => {
+    const { analytics } = setup(null);
+    const listener = vi.fn();
+    const unsubscribe = analytics.subscribe(listener);
+    analytics.setConsent({ usage: true, measurements: false });
+    unsubscribe();
+    analytics.setConsent(null);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('logs events with the console sink', () => {
+    const log = vi.fn();
+    createConsoleSink(log).send({ type: 'step_view', step: 'age', sessionId: 's', timestamp: 't' });
+    expect(log).toHaveBeenCalledWith('[analytics] step_view', expect.objectContaining({ step: 'age' }));
+  });
+
+  it('stores the consent and never reads measurement sharing without usage', () => {
+    saveAnalyticsConsent({ usage: true, measurements: true });
+    expect(loadAnalyticsConsent()).toEqual({ usage: true, measurements: true });
+    window.localStorage.setItem(ANALYTICS_CONSENT_STORAGE_KEY, JSON.stringify({ usage: false, measurements: true }));
+    expect(loadAnalyticsConsent()).toEqual({ usage: false, measurements: false });
+    window.localStorage.setItem(ANALYTICS_CONSENT_STORAGE_KEY, '{broken');
+    expect(loadAnalyticsConsent()).toBeNull();
+    saveAnalyticsConsent(null);
+    expect(window.localStorage.getItem(ANALYTICS_CONSENT_STORAGE_KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import { AnalyticsEvent, TrackedEvent } from './events';
+import { AnalyticsSink, noopSink, sendSafely } from './sinks';
+
+/****************************
+ * Event bus & consent
+ ***************************/
+/** `usage`: anonymous events at all; `measurements`: completed calculations may include the raw inputs. */
+export type AnalyticsConsent = { usage: boolean; measurements: boolean };
+
+export const ANALYTICS_CONSENT_STORAGE_KEY = 'bodyfat.analyticsConsent.v1';
+
+/** `null` until the user has answered the consent banner (or when the stored value is unreadable). */
+export const loadAnalyticsConsent = (storage: Storage = window.localStorage): AnalyticsConsent | null => {
+  try {
+    const parsed: unknown = JSON.parse(storage.getItem(ANALYTICS_CONSENT_STORAGE_KEY) ?? 'null');
+    if (typeof parsed !== 'object' || parsed === null) return null;
+    const { usage, measurements } = parsed as Record<string, unknown>;
+    return typeof usage === 'boolean' ? { usage, measurements: usage && measurements === true } : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Passing `null` forgets the answer, so the banner asks again. */
+export const saveAnalyticsConsent = (consent: AnalyticsConsent | null, storage: Storage = window.localStorage): void => {
+  try {
+    if (consent) storage.setItem(ANALYTICS_CONSENT_STORAGE_KEY, JSON.stringify(consent));
+    else storage.removeItem(ANALYTICS_CONSENT_STORAGE_KEY);
+  } catch {
+    // Not persisted; the answer still applies for this visit.
+  }
+};
+
+export type Analytics = {
+  /** Drops the event unless a sink is configured and the user agreed to usage analytics. */
+  track: (event: AnalyticsEvent) => void;
+  configure: (sink: AnalyticsSink) => void;
+  /** Whether a real sink is configured; with the no-op sink there is nothing to ask consent for. */
+  isActive: () => boolean;
+  getConsent: () => AnalyticsConsent | null;
+  setConsent: (consent: AnalyticsConsent | null) => void;
+  /** Notifies on consent changes; returns the unsubscribe function (the `useSyncExternalStore` contract). */
+  subscribe: (listener: () => void) => () => void;
+};
+
+const createSessionId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createAnalytics = ({ sink = noopSink, consent = null, sessionId = createSessionId(), now = () => new Date() }: { sink?: AnalyticsSink; consent?: AnalyticsConsent | null; sessionId?: string; now?: () => Date } = {}): Analytics => {
+  let currentSink = sink;
+  let currentConsent = consent;
+  const listeners = new Set<() => void>();
+
+  return {
+    track: event => {
+      if (currentSink === noopSink || !currentConsent?.usage) return;
+      const shared: AnalyticsEvent = event.type === 'calculation_completed' && !currentConsent.measurements ? { ...event, measurements: undefined } : event;
+      // A plain JSON copy: removed fields disappear and sinks never hold references into app state.
+      const tracked = JSON.parse(JSON.stringify({ ...shared, sessionId, timestamp: now().toISOString() })) as TrackedEvent;
+      sendSafely(currentSink, tracked);
+    },
+    configure: next => { currentSink = next; },
+    isActive: () => currentSink !== noopSink,
+    getConsent: () => currentConsent,
+    setConsent: next => {
+      currentConsent = next;
+      listeners.forEach(listener => listener());
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+/** The app-wide instance; src/main.tsx plugs in the configured sink and the stored consent. */
+export const analytics = createAnalytics();
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { BATCH_TEMPLATE_CSV, batchResultsToCsv, parseBatchCsv } from './batch';
+import { parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('handles quoted cells, escaped quotes and CRLF', () => {
+    expect(parseCsv('a,b\r\n"x, ""y""",2\r\n\r\n')).toEqual([['a', 'b'], ['x, "y"', '2']]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes line breaks and defuses cells a spreadsheet would read as formulas', () => {
+    expect(toCsv([['a\rb', '=HYPERLINK("x")', '@SUM(A1)', '+1', '-2', -2, 'Ayşe']])).toBe(`"a\rb","'=HYPERLINK(""x"")",'@SUM(A1),'+1,'-2,-2,Ayşe\n`);
+  });
+});
+
+describe('parseBatchCsv', () => {
+  it('calculates every row of the template', () => {
+    const { rows, missingColumns } = parseBatchCsv(BATCH_TEMPLATE_CSV);
+    expect(missingColumns).toEqual([]);
+    expect(rows.map(r => r.issues)).toEqual([[], []]);
+    expect(rows[0].results?.methods.SKF_SIRI.value).not.toBeNull();
+    expect(rows[1].inputs?.hipCm).toBe(98);
+  });
+
+  it('applies the method settings like the wizard does', () => {
+    const { rows } = parseBatchCsv(BATCH_TEMPLATE_CSV, { RFM: { enabled: false } });
+    expect(rows[0].results?.methods.RFM).toMatchObject({ value: null, skippedReason: 'disabled' });
+    expect(rows[0].results?.consensus?.value).not.toBe(parseBatchCsv(BATCH_TEMPLATE_CSV).rows[0].results?.consensus?.value);
+  });
+
+  it('reads semicolon files with comma decimals and Turkish sex labels', () => {
+    const { rows } = parseBatchCsv('name;sex;age;weight_kg;height_cm;neck_cm;waist_cm;hip_cm\nAyşe;kadın;30;60,5;165;31;72;96\n');
+    expect(rows[0].inputs).toMatchObject({ sex: 'female', weightKg: 60.5 });
+  });
+
+  it('keeps invalid rows with their issues', () => {
+    const { rows } = parseBatchCsv('name,sex,age,weight_kg,height_cm,neck_cm,waist_cm\nBob,x,12,80,180,38,\n');
+    expect(rows[0].results).toBeNull();
+    expect(rows[0].issues).toEqual([{ field: 'sex', problem: 'invalid' }, { field: 'age', problem: 'range' }, { field: 'waistCm', problem: 'missing' }]);
+    expect(batchResultsToCsv(rows)).toContain('sex:invalid age:range waistCm:missing');
+  });
+
+  it('reports missing required columns', () => {
+    expect(parseBatchCsv('name,sex\nA,m\n').missingColumns).toEqual(['age', 'weight_kg', 'height_cm', 'neck_cm', 'waist_cm']);
+  });
+});
@@ -0,0 +1,142 @@
+import { BfCategory, BodyFatResults, BodyMeasurements, calculateBodyFat, getBfCategory, getMethodKeys, MeasurementKey, MethodSettings, Sex, SKINFOLD_SITES, SkinfoldProtocol, SkinfoldSite } from './bodyFat';
+import { CsvCell, detectDelimiter, parseCsv, toCsv } from './csv';
+import { INPUT_LIMITS, isWithinLimits, SKINFOLD_LIMITS } from './inputLimits';
+
+/****************************
+ * Batch calculation from CSV (coach mode)
+ ***************************/
+export type BatchField = 'name' | 'sex' | 'skinfoldProtocol' | MeasurementKey | SkinfoldSite;
+export type BatchIssue = { field: BatchField; problem: 'missing' | 'invalid' | 'range' };
+
+export type BatchRow = {
+  /** 1-based line in the source file, for pointing the coach at the bad row. */
+  line: number;
+  name: string;
+  inputs: BodyMeasurements | null;
+  results: BodyFatResults | null;
+  category: BfCategory;
+  issues: BatchIssue[];
+};
+
+export type BatchParseResult = { rows: BatchRow[]; missingColumns: string[] };
+
+/** Column names are metric and match the raw CSV export of a single result. */
+const MEASUREMENT_COLUMNS: Record<MeasurementKey, string> = { age: 'age', weightKg: 'weight_kg', heightCm: 'height_cm', neckCm: 'neck_cm', waistCm: 'waist_cm', hipCm: 'hip_cm' };
+const ALL_SITES: SkinfoldSite[] = ['chest', 'abdomen', 'thigh', 'triceps', 'suprailiac', 'subscapular', 'midaxillary', 'biceps'];
+const siteColumn = (site: SkinfoldSite) => `skinfold_${site}_mm`;
+const REQUIRED_COLUMNS = ['name', 'sex', 'age', 'weight_kg', 'height_cm', 'neck_cm', 'waist_cm'];
+
+export const BATCH_COLUMNS = ['name', 'sex', ...Object.values(MEASUREMENT_COLUMNS), 'skinfold_protocol', ...ALL_SITES.map(siteColumn)];
+
+export const BATCH_TEMPLATE_CSV = toCsv([
+  BATCH_COLUMNS,
+  ['Client A', 'male', 32, 84, 180, 39, 88, '', 'JP3', 18, 24, 20],
+  ['Client B', 'female', 28, 62, 165, 32, 74, 98],
+]);
+
+/** Accepts English and Turkish spellings, with or without the full word. */
+const parseSex = (raw: string): Sex | null => {
+  const v = raw.trim().toLocaleLowerCase('tr-TR');
+  if (['m', 'male', 'e', 'erkek'].includes(v)) return 'male';
+  if (['f', 'female', 'k', 'kadın', 'kadin'].includes(v)) return 'female';
+  return null;
+};
+
+const parseProtocol = (raw: string): SkinfoldProtocol | null => {
+  const v = raw.trim().toUpperCase();
+  return v === 'JP3' || v === 'JP7' || v === 'DW' ? v : null;
+};
+
+/** Either decimal separator is accepted; grouping separators are not. */
+const parseNumber = (raw: string | undefined): number | null | 'invalid' => {
+  const v = (raw ?? '').trim();
+  if (v === '') return null;
+  const n = Number(v.replace(',', '.'));
+  return isNaN(n) ? 'invalid' : n;
+};
+
+const readMeasurement = (raw: string | undefined, field: BatchField, limits: [number, number], issues: BatchIssue[], required: boolean): number | null => {
+  const n = parseNumber(raw);
+  if (n === 'invalid') { issues.push({ field, problem: 'invalid' }); return null; }
+  if (n === null) { if (required) issues.push({ field, problem: 'missing' }); return null; }
+  if (!isWithinLimits(n, limits)) { issues.push({ field, problem: 'range' }); return null; }
+  return n;
+};
+
+const parseRow = (cells: Record<string, string | undefined>, line: number, settings: MethodSettings): BatchRow => {
+  const issues: BatchIssue[] = [];
+  const name = (cells['name'] ?? '').trim();
+  if (!name) issues.push({ field: 'name', problem: 'missing' });
+  const sex = parseSex(cells['sex'] ?? '');
+  if (!sex) issues.push({ field: 'sex', problem: (cells['sex'] ?? '').trim() ? 'invalid' : 'missing' });
+
+  const values = {} as Record<MeasurementKey, number | null>;
+  (Object.keys(MEASUREMENT_COLUMNS) as MeasurementKey[]).forEach(key => {
+    const required = key !== 'hipCm' || sex === 'female';
+    values[key] = readMeasurement(cells[MEASUREMENT_COLUMNS[key]], key, INPUT_LIMITS[key], issues, required);
+  });
+
+  let skinfolds: BodyMeasurements['skinfolds'] = null;
+  const protocolRaw = (cells['skinfold_protocol'] ?? '').trim();
+  if (protocolRaw) {
+    const protocol = parseProtocol(protocolRaw);
+    if (!protocol) issues.push({ field: 'skinfoldProtocol', problem: 'invalid' });
+    else if (sex) {
+      const sites: Partial<Record<SkinfoldSite, number>> = {};
+      SKINFOLD_SITES[protocol][sex].forEach(site => {
+        const v = readMeasurement(cells[siteColumn(site)], site, SKINFOLD_LIMITS, issues, true);
+        if (v !== null) sites[site] = v;
+      });
+      skinfolds = { protocol, sites };
+    }
+  }
+
+  const { age, weightKg, heightCm, neckCm, waistCm, hipCm } = values;
+  const inputs: BodyMeasurements | null = issues.length === 0 && sex && age !== null && weightKg !== null && heightCm !== null
+    ? { sex, age, weightKg, heightCm, neckCm, waistCm, hipCm: sex === 'female' ? hipCm : null, skinfolds }
+    : null;
+  const results = inputs ? calculateBodyFat(inputs, settings) : null;
+  return { line, name, inputs, results, category: getBfCategory(results?.consensus?.value ?? null, sex ?? 'male'), issues };
+};
+
+/**
+ * Reads a client CSV (see `BATCH_COLUMNS`) and calculates every valid row with the user's method settings, like the wizard.
+ * Rows with problems are kept, with their issues, so nothing disappears silently.
+ */
+export const parseBatchCsv = (text: string, settings: MethodSettings = {}): BatchParseResult => {
+  const delimiter = detectDelimiter(text);
+  const [header = [], ...body] = parseCsv(text, delimiter);
+  const columns = header.map(h => h.trim().toLowerCase());
+  const missingColumns = REQUIRED_COLUMNS.filter(c => !columns.includes(c));
+  if (missingColumns.length > 0) return { rows: [], missingColumns };
+  const rows = body.map((cells, i) => parseRow(Object.fromEntries(columns.map((c, j) => [c, cells[j]])), i + 2, settings));
+  return { rows, missingColumns };
+};
+
+/** One line per client with inputs, every method, BMI and the consensus. Skipped methods are left blank. */
+export const batchResultsToCsv = (rows: BatchRow[]): string => {
+  /* The CSV has no column for a silhouette pick, so the visual method would always be blank */
+  const methodKeys = getMethodKeys().filter(key => key !== 'VISUAL');
+  const header: CsvCell[] = ['name', 'sex', ...Object.values(MEASUREMENT_COLUMNS), 'skinfold_protocol', 'bmi', ...methodKeys, 'consensus', 'ci95_lower', 'ci95_upper', 'category', 'issues'];
+  const round = (v: number | null | undefined) => (v === null || v === undefined ? null : Math.round(v * 100) / 100);
+  return toCsv([
+    header,
+    ...rows.map(row => {
+      const { inputs, results } = row;
+      const consensus = results?.consensus ?? null;
+      return [
+        row.name,
+        inputs?.sex,
+        ...(Object.keys(MEASUREMENT_COLUMNS) as MeasurementKey[]).map(key => inputs?.[key]),
+        inputs?.skinfolds?.protocol,
+        round(results?.bmi),
+        ...methodKeys.map(key => round(results?.methods[key]?.value)),
+        round(consensus?.value),
+        round(consensus?.lower),
+        round(consensus?.upper),
+        results ? row.category : null,
+        row.issues.map(issue => `${issue.field}:${issue.problem}`).join(' '),
+      ];
+    }),
+  ]);
+};
@@ -0,0 +1,74 @@
+import { BodyMeasurements, BuiltInMethodKey } from '../types';
+
+/****************************
+ * Reference cases for the formula tests
+ ***************************/
+
+/** Values printed in a publication, checked against the implementation. `source` says where each one comes from. */
+export type PublishedCase<T> = T & { source: string; label: string };
+
+/**
+ * Percent fat from the Jackson & Pollock table for men (sum of chest, abdomen and thigh, Siri conversion), read at the
+ * middle of each age band. The table is printed to 0.1 %, so the implementation has to land within rounding of it.
+ */
+export const JP3_TABLE_CASES: PublishedCase<{ sex: 'male'; age: number; sum: number; percentFat: number }>[] = [
+  { source: 'Jackson & Pollock (1985), Phys Sportsmed 13(5):76-90, percent fat table for men', label: 'Σ8-10 mm, age 23-27', sex: 'male', age: 25, sum: 9, percentFat: 1.8 },
+  { source: 'Jackson & Pollock (1985), Phys Sportsmed 13(5):76-90, percent fat table for men', label: 'Σ8-10 mm, age 38-42', sex: 'male', age: 40, sum: 9, percentFat: 3.4 },
+  { source: 'Jackson & Pollock (1985), Phys Sportsmed 13(5):76-90, percent fat table for men', label: 'Σ8-10 mm, age 53-57', sex: 'male', age: 55, sum: 9, percentFat: 5.0 },
+];
+
+/** Fixed points of the two-compartment conversions: the densities their authors assumed for fat, fat-free mass and the reference body. */
+export const DENSITY_CONVERSION_CASES: PublishedCase<{ density: number; siri?: number; brozek?: number }>[] = [
+  { source: 'Siri (1961): fat-free mass density 1.100 g/cm³', label: 'fat-free mass', density: 1.1, siri: 0 },
+  { source: 'Siri (1961): fat density 0.900 g/cm³', label: 'pure fat', density: 0.9, siri: 100 },
+  { source: 'Brozek et al. (1963), Ann N Y Acad Sci 110:113-140: reference body, density 1.064 g/cm³ with 15.3 % fat', label: 'reference body', density: 1.064, brozek: 15.3 },
+];
+
+/**
+ * The US Navy method as the DoD prints it, in inches: men 86.010·log10(abdomen − neck) − 70.041·log10(height) + 36.76,
+ * women 163.205·log10(waist + hip − neck) − 97.684·log10(height) − 78.387. The app uses Hodgdon & Beckett's metric
+ * density form; the two are separate regressions of the same data and agree to a few tenths of a percent.
+ */
+export const NAVY_INCH_EQUATION_CASES: PublishedCase<{ measurements: BodyMeasurements; percentFat: number }>[] = [
+  { source: 'DoD Instruction 1308.3 (2002), circumference equation for men', label: 'male, abdomen 85, neck 38, height 180 cm', measurements: { sex: 'male', age: 30, weightKg: 81, heightCm: 180, neckCm: 38, waistCm: 85 }, percentFat: 16.15 },
+  { source: 'DoD Instruction 1308.3 (2002), circumference equation for men', label: 'male, abdomen 100, neck 40, height 175 cm', measurements: { sex: 'male', age: 45, weightKg: 92, heightCm: 175, neckCm: 40, waistCm: 100 }, percentFat: 26.13 },
+  { source: 'DoD Instruction 1308.3 (2002), circumference equation for women', label: 'female, waist 76, hip 100, neck 32, height 165 cm', measurements: { sex: 'female', age: 40, weightKg: 64, heightCm: 165, neckCm: 32, waistCm: 76, hipCm: 100 }, percentFat: 30.73 },
+  { source: 'DoD Instruction 1308.3 (2002), circumference equation for women', label: 'female, waist 90, hip 110, neck 34, height 160 cm', measurements: { sex: 'female', age: 50, weightKg: 78, heightCm: 160, neckCm: 34, waistCm: 90, hipCm: 110 }, percentFat: 42.11 },
+];
+
+/**
+ * Regression pins, not published values: each expected value is the method's own equation evaluated by hand and
+ * rounded to 2 decimals, so a coefficient copied wrong into both places goes unnoticed. They stand in until worked
+ * examples or tabulated values from the papers are added next to the cases above:
+ * - BMI_BF: Deurenberg, Weststrate & Seidell (1991), Br J Nutr 65(2):105-114
+ * - RFM: Woolcott & Bergman (2018), Sci Rep 8:10980
+ * - CUN_BAE: Gómez-Ambrosi et al. (2012), Diabetes Care 35(2):383-388
+ * - ECORE: Molina-Luque et al. (2019)
+ * The NAVY values here are covered by the DoD cases above.
+ */
+export type ReferenceCase = { label: string; measurements: BodyMeasurements; bmi: number; expected: Partial<Record<BuiltInMethodKey, number>> };
+
+export const REFERENCE_CASES: ReferenceCase[] = [
+  {
+    label: 'male, 30 y, 81 kg, 180 cm, neck 38, waist 85',
+    measurements: { sex: 'male', age: 30, weightKg: 81, heightCm: 180, neckCm: 38, waistCm: 85 },
+    bmi: 25,
+    // Deurenberg: 1.2·25 + 0.23·30 − 10.8 − 5.4 ; RFM: 64 − 20·180/85
+    expected: { BMI_BF: 20.7, NAVY: 16.11, RFM: 21.65, CUN_BAE: 22.09, ECORE: 22.34 },
+  },
+  {
+    label: 'female, 40 y, 64 kg, 165 cm, neck 32, waist 76, hip 100',
+    measurements: { sex: 'female', age: 40, weightKg: 64, heightCm: 165, neckCm: 32, waistCm: 76, hipCm: 100 },
+    bmi: 23.51,
+    expected: { BMI_BF: 32.01, NAVY: 30.42, RFM: 32.58, CUN_BAE: 33.35, ECORE: 33.25 },
+  },
+];
+
+/** Regression pins for every caliper protocol: density from its equation, then the Siri / Brozek conversions. */
+export const SKINFOLD_CASES = [
+  { label: 'JP3 male, 30 y, Σ45 mm', sex: 'male', age: 30, skinfolds: { protocol: 'JP3', sites: { chest: 10, abdomen: 20, thigh: 15 } }, density: 1.0677, siri: 13.61, brozek: 13.82 },
+  { label: 'JP3 female, 40 y, Σ60 mm', sex: 'female', age: 40, skinfolds: { protocol: 'JP3', sites: { triceps: 20, suprailiac: 20, thigh: 20 } }, density: 1.0426, siri: 24.76 },
+  { label: 'JP7 male, 30 y, Σ100 mm', sex: 'male', age: 30, skinfolds: { protocol: 'JP7', sites: { chest: 12, midaxillary: 12, triceps: 12, subscapular: 16, abdomen: 22, suprailiac: 14, thigh: 12 } }, density: 1.0654, siri: 14.63, brozek: 14.77 },
+  { label: 'JP7 female, 35 y, Σ120 mm', sex: 'female', age: 35, skinfolds: { protocol: 'JP7', sites: { chest: 12, midaxillary: 14, triceps: 20, subscapular: 16, abdomen: 22, suprailiac: 18, thigh: 18 } }, density: 1.0442, siri: 24.04 },
+  { label: 'DW male, 45 y (40–49 band), Σ40 mm', sex: 'male', age: 45, skinfolds: { protocol: 'DW', sites: { biceps: 5, triceps: 10, subscapular: 12, suprailiac: 13 } }, density: 1.0499, siri: 21.49 },
+] as const;
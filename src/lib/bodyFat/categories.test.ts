@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { getBfCategory, getNextLeanerCategory } from './categories';
+
+describe('getBfCategory', () => {
+  it.each([
+    [7.9, 'Contest Prep'], [8, 'Athletic'], [15, 'Athletic'], [15.1, 'Average'], [21, 'Average'], [26, 'Overweight'], [26.1, 'Obese'],
+  ] as const)('male %s%% is %s', (bf, category) => {
+    expect(getBfCategory(bf, 'male')).toBe(category);
+  });
+
+  it.each([
+    [13.9, 'Contest Prep'], [14, 'Athletic'], [24, 'Athletic'], [33, 'Average'], [39, 'Overweight'], [39.1, 'Obese'],
+  ] as const)('female %s%% is %s', (bf, category) => {
+    expect(getBfCategory(bf, 'female')).toBe(category);
+  });
+
+  it('is Unknown without a value or sex', () => {
+    expect(getBfCategory(null, 'male')).toBe('Unknown');
+    expect(getBfCategory(20, null)).toBe('Unknown');
+  });
+});
+
+describe('getNextLeanerCategory', () => {
+  it('targets the upper bound of the next leaner category', () => {
+    expect(getNextLeanerCategory(24, 'male')).toEqual({ category: 'Average', bfPercentage: 21 });
+  });
+
+  it('stays just below an exclusive bound', () => {
+    expect(getNextLeanerCategory(12, 'male')).toEqual({ category: 'Contest Prep', bfPercentage: 7.9 });
+  });
+
+  it('returns null for the leanest category', () => {
+    expect(getNextLeanerCategory(6, 'male')).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+import { Sex } from './types';
+
+/****************************
+ * Body fat categories
+ ***************************/
+export type BfCategory = "Contest Prep" | "Athletic" | "Average" | "Overweight" | "Obese" | "Unknown";
+
+/** Upper bound of each category, leanest first. `inclusive: false` means the bound itself belongs to the next category. */
+export type CategoryThreshold = { category: Exclude<BfCategory, "Unknown">; upTo: number; inclusive: boolean };
+
+export const BF_CATEGORY_THRESHOLDS: Record<Sex, readonly CategoryThreshold[]> = {
+  male: [
+    { category: "Contest Prep", upTo: 8, inclusive: false },
+    { category: "Athletic", upTo: 15, inclusive: true },
+    { category: "Average", upTo: 21, inclusive: true },
+    { category: "Overweight", upTo: 26, inclusive: true },
+    { category: "Obese", upTo: Infinity, inclusive: true },
+  ],
+  female: [
+    { category: "Contest Prep", upTo: 14, inclusive: false },
+    { category: "Athletic", upTo: 24, inclusive: true },
+    { category: "Average", upTo: 33, inclusive: true },
+    { category: "Overweight", upTo: 39, inclusive: true },
+    { category: "Obese", upTo: Infinity, inclusive: true },
+  ],
+};
+
+const isWithin = (bf: number, t: CategoryThreshold) => (t.inclusive ? bf <= t.upTo : bf < t.upTo);
+
+export const getBfCategory = (bfPercentage: number | null, sex: Sex | null): BfCategory => {
+  if (bfPercentage === null || sex === null) return "Unknown";
+  return BF_CATEGORY_THRESHOLDS[sex].find(t => isWithin(bfPercentage, t))?.category ?? "Unknown";
+};
+
+/**
+ * The next leaner category and the highest BF% that still falls inside it.
+ * Returns `null` for the leanest category or unknown input.
+ */
+export const getNextLeanerCategory = (bfPercentage: number | null, sex: Sex | null): { category: BfCategory; bfPercentage: number } | null => {
+  if (bfPercentage === null || sex === null) return null;
+  const thresholds = BF_CATEGORY_THRESHOLDS[sex];
+  const index = thresholds.findIndex(t => isWithin(bfPercentage, t));
+  if (index <= 0) return null;
+  const next = thresholds[index - 1];
+  // An exclusive bound (e.g. "< 8") is reached just below the bound; 0.1 matches the one-decimal display.
+  return { category: next.category, bfPercentage: next.inclusive ? next.upTo : next.upTo - 0.1 };
+};
@@ -0,0 +1,33 @@
+/****************************
+ * Body composition
+ ***************************/
+export type BodyComposition = {
+  fatMassKg: number;
+  leanMassKg: number;
+  /** Fat-free mass index, kg/m². */
+  ffmi: number;
+  /** FFMI adjusted to a 1.8 m reference height (Kouri et al., 1995). */
+  normalizedFfmi: number;
+};
+
+export const calculateBodyComposition = (weightKg: number, heightCm: number, bfPercentage: number): BodyComposition | null => {
+  if (weightKg <= 0 || heightCm <= 0 || bfPercentage < 0 || bfPercentage >= 100) return null;
+  const heightM = heightCm / 100;
+  const fatMassKg = weightKg * (bfPercentage / 100);
+  const leanMassKg = weightKg - fatMassKg;
+  const ffmi = leanMassKg / (heightM * heightM);
+  return { fatMassKg, leanMassKg, ffmi, normalizedFfmi: ffmi + 6.1 * (1.8 - heightM) };
+};
+
+/** Body weight at which `leanMassKg` would make up (100 − target)% of the body, i.e. lean mass is preserved. */
+export const calculateTargetWeight = (leanMassKg: number, targetBfPercentage: number): number | null => {
+  if (leanMassKg <= 0 || targetBfPercentage < 0 || targetBfPercentage >= 100) return null;
+  return leanMassKg / (1 - targetBfPercentage / 100);
+};
+
+/** Whole weeks needed to go from `currentKg` down to `targetKg` at `weeklyLossKg`; 0 when already at or below target. */
+export const weeksToTarget = (currentKg: number, targetKg: number, weeklyLossKg: number): number | null => {
+  if (weeklyLossKg <= 0) return null;
+  if (targetKg >= currentKg) return 0;
+  return Math.ceil((currentKg - targetKg) / weeklyLossKg);
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { calculateConsensus, Z_95 } from './consensus';
+import { MethodFamily, MethodKey, MethodResult } from './types';
+
+const result = (key: MethodKey, value: number | null, standardError: number | null = 4): MethodResult => ({ key, value, standardError, inputs: {}, skippedReason: value === null ? 'missingInput' : null });
+const FAMILIES: Record<MethodKey, MethodFamily> = { BMI_BF: 'bmi', CUN_BAE: 'bmi', ECORE: 'bmi', NAVY: 'tape', RFM: 'tape', SKF_SIRI: 'caliper', SKF_BROZEK: 'caliper', VISUAL: 'visual' };
+const familyOf = (key: MethodKey) => FAMILIES[key];
+
+describe('calculateConsensus', () => {
+  it('returns null when no method produced a value', () => {
+    expect(calculateConsensus([result('NAVY', null)], familyOf)).toBeNull();
+  });
+
+  it('passes a single method through with its own interval', () => {
+    const c = calculateConsensus([result('NAVY', 20, 3.5)], familyOf);
+    expect(c?.value).toBeCloseTo(20, 10);
+    expect(c?.standardError).toBeCloseTo(3.5, 10);
+    expect(c?.outliers).toEqual([]);
+    expect(c?.upper).toBeCloseTo(20 + Z_95 * 3.5, 10);
+  });
+
+  it('counts several formulas of one family as a single vote', () => {
+    const c = calculateConsensus([result('BMI_BF', 30), result('CUN_BAE', 30), result('ECORE', 30), result('NAVY', 20)], familyOf);
+    expect(c?.value).toBeCloseTo(25, 10);
+  });
+
+  it('widens the interval when families disagree', () => {
+    const agree = calculateConsensus([result('BMI_BF', 20), result('NAVY', 20)], familyOf)!;
+    const disagree = calculateConsensus([result('BMI_BF', 10), result('NAVY', 30)], familyOf)!;
+    expect(disagree.standardError).toBeGreaterThan(agree.standardError);
+  });
+
+  it('flags methods far from the consensus', () => {
+    const c = calculateConsensus([result('BMI_BF', 20, 2), result('CUN_BAE', 20, 2), result('NAVY', 20, 2), result('RFM', 30, 2), result('SKF_SIRI', 20, 2)], familyOf);
+    expect(c?.outliers).toEqual(['RFM']);
+  });
+
+  it('never reports a negative lower bound', () => {
+    expect(calculateConsensus([result('NAVY', 2, 4)], familyOf)?.lower).toBe(0);
+  });
+});
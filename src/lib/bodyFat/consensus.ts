@@ -0,0 +1,59 @@
+import { ConsensusEstimate, MethodFamily, MethodKey, MethodResult } from './types';
+
+/****************************
+ * Weighted consensus
+ ***************************/
+export const Z_95 = 1.96;
+/** A method is flagged when it sits more than this many of its own standard errors from the consensus. */
+export const OUTLIER_Z = 2;
+/** Outliers are only meaningful when several methods vote. */
+const MIN_METHODS_FOR_OUTLIERS = 3;
+
+type Estimate = { value: number; standardError: number };
+
+/** Inverse-variance weighted mean. `correlated` keeps the weighted mean error instead of shrinking it. */
+const combine = (estimates: Estimate[], correlated: boolean): Estimate => {
+  const weights = estimates.map(e => 1 / (e.standardError * e.standardError));
+  const totalWeight = weights.reduce((s, w) => s + w, 0);
+  const value = estimates.reduce((s, e, i) => s + weights[i] * e.value, 0) / totalWeight;
+  const standardError = correlated
+    ? estimates.reduce((s, e, i) => s + weights[i] * e.standardError, 0) / totalWeight
+    : Math.sqrt(1 / totalWeight);
+  return { value, standardError };
+};
+
+/**
+ * Combines method results into one estimate with a 95% interval.
+ *
+ * Methods are first pooled within their family (errors assumed fully correlated, so three BMI formulas
+ * count as one BMI vote), then families are pooled as independent estimates. When the families disagree
+ * more than their errors explain, the interval is widened by the Birge ratio.
+ */
+export const calculateConsensus = (results: readonly MethodResult[], familyOf: (key: MethodKey) => MethodFamily): ConsensusEstimate | null => {
+  const valid = results.filter((r): r is MethodResult & Estimate => r.value !== null && r.standardError !== null && r.standardError > 0);
+  if (valid.length === 0) return null;
+
+  const byFamily = new Map<MethodFamily, Estimate[]>();
+  valid.forEach(r => byFamily.set(familyOf(r.key), [...(byFamily.get(familyOf(r.key)) ?? []), r]));
+  const families = [...byFamily.values()].map(estimates => combine(estimates, true));
+
+  const pooled = combine(families, false);
+  let standardError = pooled.standardError;
+  if (families.length > 1) {
+    const chiSquare = families.reduce((s, f) => s + ((f.value - pooled.value) / f.standardError) ** 2, 0);
+    const birgeRatio = Math.sqrt(chiSquare / (families.length - 1));
+    if (birgeRatio > 1) standardError *= birgeRatio;
+  }
+
+  const outliers = valid.length >= MIN_METHODS_FOR_OUTLIERS
+    ? valid.filter(r => Math.abs(r.value - pooled.value) / r.standardError > OUTLIER_Z).map(r => r.key)
+    : [];
+
+  return {
+    value: pooled.value,
+    standardError,
+    lower: Math.max(0, pooled.value - Z_95 * standardError),
+    upper: pooled.value + Z_95 * standardError,
+    outliers,
+  };
+};
@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { compileCustomMethod, CustomMethodDefinition, localizedText, registerCustomMethods, validateCustomMethod } from './customMethods';
+import { calculateBodyFat, getMethodKeys, getRequiredInputs, isMethodVisible, METHOD_REGISTRY, registerMethod, unregisterMethod } from './formulas';
+import { REFERENCE_CASES } from './__fixtures__/referenceCases';
+
+const [male, female] = REFERENCE_CASES.map(c => c.measurements);
+
+/** RFM rewritten declaratively: 64/76 − 20 × height × waist⁻¹. */
+const RFM_COPY: CustomMethodDefinition = {
+  key: 'CUSTOM_RFM_COPY',
+  name: { en: 'RFM copy', tr: 'RFM kopyası' },
+  equations: {
+    male: { intercept: 64, terms: [{ coefficient: -20, factors: [{ variable: 'heightCm' }, { variable: 'waistCm', power: -1 }] }], standardError: 3.6 },
+    female: { intercept: 76, terms: [{ coefficient: -20, factors: [{ variable: 'heightCm' }, { variable: 'waistCm', power: -1 }] }], standardError: 3.7 },
+  },
+};
+
+afterEach(() => {
+  unregisterMethod('CUSTOM_RFM_COPY');
+  unregisterMethod('CUSTOM_MALE_ONLY');
+});
+
+describe('compileCustomMethod', () => {
+  it('evaluates the equation for the given sex', () => {
+    const method = compileCustomMethod(RFM_COPY);
+    expect(method.calculate(male).value).toBeCloseTo(calculateBodyFat(male).methods.RFM.value as number, 10);
+    expect(method.calculate(female).value).toBeCloseTo(calculateBodyFat(female).methods.RFM.value as number, 10);
+    expect(method.calculate(male).standardError).toBe(3.6);
+  });
+
+  it('supports BMI and log transforms', () => {
+    const method = compileCustomMethod({ key: 'CUSTOM_LN', name: 'ln BMI', equations: { male: { intercept: 0, terms: [{ coefficient: 10, factors: [{ variable: 'bmi', transform: 'ln' }] }], standardError: 4 } } });
+    expect(method.calculate(male).value).toBeCloseTo(10 * Math.log(81 / (1.8 * 1.8)), 10);
+    expect(method.requiredInputsBySex).toEqual({ male: ['weightKg', 'heightCm'] });
+  });
+
+  it('skips missing inputs, undefined maths and sexes without an equation', () => {
+    const method = compileCustomMethod({ ...RFM_COPY, equations: { male: RFM_COPY.equations.male } });
+    expect(method.calculate({ ...male, waistCm: null }).skippedReason).toBe('missingInput');
+    expect(method.calculate({ ...male, waistCm: 0 }).skippedReason).toBe('nonPositiveInput');
+    expect(method.calculate(female).skippedReason).toBe('missingInput');
+  });
+
+  it('rejects invalid definitions', () => {
+    expect(validateCustomMethod({ key: 'CUSTOM_ok', name: '', equations: {} } as CustomMethodDefinition)).toHaveLength(3);
+    expect(() => compileCustomMethod({ ...RFM_COPY, equations: { male: { ...RFM_COPY.equations.male!, standardError: 0 } } })).toThrow(/standard error/);
+  });
+});
+
+describe('registerCustomMethods', () => {
+  it('adds the method to every calculation and keeps it in the consensus family "custom"', () => {
+    registerCustomMethods([RFM_COPY]);
+    expect(getMethodKeys()).toContain('CUSTOM_RFM_COPY');
+    const results = calculateBodyFat(male);
+    expect(results.methods.CUSTOM_RFM_COPY.value).toBeCloseTo(results.methods.RFM.value as number, 10);
+  });
+
+  it('hides a method for the sex it has no equation for and reports per-sex inputs', () => {
+    registerCustomMethods([{ ...RFM_COPY, key: 'CUSTOM_MALE_ONLY', equations: { male: { intercept: 0, terms: [{ coefficient: 0.1, factors: [{ variable: 'hipCm' }] }], standardError: 5 } } }]);
+    expect(isMethodVisible(calculateBodyFat(female).methods.CUSTOM_MALE_ONLY)).toBe(false);
+    expect(getRequiredInputs('CUSTOM_MALE_ONLY', 'male')).toEqual(['hipCm']);
+  });
+
+  it('does not let a custom method replace a built-in one', () => {
+    expect(() => registerMethod(METHOD_REGISTRY.NAVY)).toThrow(/built in/);
+  });
+});
+
+describe('localizedText', () => {
+  it('picks the locale and falls back to the first language', () => {
+    expect(localizedText({ en: 'Waist', tr: 'Bel' }, 'tr')).toBe('Bel');
+    expect(localizedText({ en: 'Waist' }, 'tr')).toBe('Waist');
+    expect(localizedText('Plain', 'tr')).toBe('Plain');
+  });
+});
@@ -0,0 +1,121 @@
+import { calculateBMI, registerMethod } from './formulas';
+import { BodyMeasurements, CustomMethodKey, LocalizedText, MeasurementKey, MethodDefinition, MethodFamily, MethodInputs, MethodResult, Sex, SkipReason } from './types';
+
+/****************************
+ * Custom (declarative) methods
+ ***************************/
+/** Anything a custom equation can use: a measurement, or BMI derived from weight and height. */
+export type EquationVariable = MeasurementKey | 'bmi';
+/** `variable ^ power` (default 1), taken after an optional log transform. */
+export type EquationFactor = { variable: EquationVariable; power?: number; transform?: 'ln' | 'log10' };
+/** `coefficient × factor₁ × factor₂ …`. */
+export type EquationTerm = { coefficient: number; factors: readonly EquationFactor[] };
+/** BF% = intercept + Σ terms, with the standard error of estimate reported for this sex. */
+export type SexEquation = { intercept: number; terms: readonly EquationTerm[]; standardError: number };
+
+/**
+ * A formula described as data, so new methods can come from config instead of code. Everything that lists methods
+ * (wizard, chart, report, exports) picks it up once registered.
+ */
+export type CustomMethodDefinition = {
+  /** Must look like `CUSTOM_SOMETHING`; also used as the CSV/JSON column name. */
+  key: CustomMethodKey;
+  name: LocalizedText;
+  note?: LocalizedText;
+  /** Defaults to `custom`, so all custom methods share one vote in the consensus. */
+  family?: MethodFamily;
+  /** A sex without an equation skips the method (and hides it) for that sex. */
+  equations: Readonly<Partial<Record<Sex, SexEquation>>>;
+  enabledByDefault?: boolean;
+  countsTowardAverage?: boolean;
+};
+
+const KEY_PATTERN = /^CUSTOM_[A-Z0-9_]+$/;
+const SEXES: readonly Sex[] = ['male', 'female'];
+
+/** Text for `locale`, falling back to the first language given. */
+export const localizedText = (text: LocalizedText | undefined, locale: string): string | undefined => {
+  if (text === undefined || typeof text === 'string') return text;
+  return text[locale] ?? Object.values(text).find((v): v is string => typeof v === 'string');
+};
+
+const variablesOf = (equation: SexEquation): EquationVariable[] => [...new Set(equation.terms.flatMap(term => term.factors.map(f => f.variable)))];
+
+/** Measurements an equation reads; BMI expands to weight and height. */
+const requiredInputsOf = (equation: SexEquation): MeasurementKey[] => [...new Set(variablesOf(equation).flatMap((v): MeasurementKey[] => (v === 'bmi' ? ['weightKg', 'heightCm'] : [v])))];
+
+/** Problems with a definition; empty when it can be registered. */
+export const validateCustomMethod = (definition: CustomMethodDefinition): string[] => {
+  const problems: string[] = [];
+  if (!KEY_PATTERN.test(definition.key)) problems.push(`key "${definition.key}" must match ${KEY_PATTERN}`);
+  if (!localizedText(definition.name, 'en')) problems.push('name is empty');
+  const equations = SEXES.flatMap(sex => (definition.equations[sex] ? [[sex, definition.equations[sex] as SexEquation] as const] : []));
+  if (equations.length === 0) problems.push('no equation for either sex');
+  equations.forEach(([sex, equation]) => {
+    const numbers = [equation.intercept, ...equation.terms.flatMap(term => [term.coefficient, ...term.factors.map(f => f.power ?? 1)])];
+    if (!numbers.every(Number.isFinite)) problems.push(`${sex} equation has a non-finite number`);
+    if (!(equation.standardError > 0)) problems.push(`${sex} standard error must be positive`);
+  });
+  return problems;
+};
+
+const evaluateFactor = (value: number, { power = 1, transform }: EquationFactor): number | null => {
+  if (transform && value <= 0) return null;
+  const base = transform === 'ln' ? Math.log(value) : transform === 'log10' ? Math.log10(value) : value;
+  // Non-integer or negative powers of a non-positive number are undefined or infinite.
+  if (base <= 0 && (power < 0 || !Number.isInteger(power))) return null;
+  return Math.pow(base, power);
+};
+
+const result = (key: CustomMethodKey, value: number | null, standardError: number | null, inputs: MethodInputs, skippedReason: SkipReason | null): MethodResult =>
+  ({ key, value: value === null ? null : Math.max(0, value), standardError, inputs, skippedReason });
+
+/** Turns a declarative definition into a registry entry. Throws when the definition is invalid. */
+export const compileCustomMethod = (definition: CustomMethodDefinition): MethodDefinition => {
+  const problems = validateCustomMethod(definition);
+  if (problems.length > 0) throw new Error(`Invalid custom method ${definition.key}: ${problems.join('; ')}`);
+  const { key, equations } = definition;
+
+  const calculate = (m: BodyMeasurements): MethodResult => {
+    const equation = equations[m.sex];
+    if (!equation) return result(key, null, null, {}, 'missingInput');
+    const bmi = calculateBMI(m.weightKg, m.heightCm);
+    const values: Partial<Record<EquationVariable, number>> = {};
+    for (const variable of variablesOf(equation)) {
+      const value = variable === 'bmi' ? bmi : m[variable];
+      if (typeof value !== 'number' || isNaN(value)) return result(key, null, null, {}, 'missingInput');
+      values[variable] = value;
+    }
+    const inputs: MethodInputs = { sex: m.sex, ...values };
+    let bf = equation.intercept;
+    for (const term of equation.terms) {
+      let product = term.coefficient;
+      for (const factor of term.factors) {
+        const value = evaluateFactor(values[factor.variable] as number, factor);
+        if (value === null) return result(key, null, null, inputs, 'nonPositiveInput');
+        product *= value;
+      }
+      bf += product;
+    }
+    if (!Number.isFinite(bf)) return result(key, null, null, inputs, 'nonPositiveInput');
+    return result(key, bf, equation.standardError, inputs, null);
+  };
+
+  const requiredInputsBySex = Object.fromEntries(SEXES.flatMap(sex => (equations[sex] ? [[sex, requiredInputsOf(equations[sex] as SexEquation)]] : [])));
+  return {
+    key,
+    family: definition.family ?? 'custom',
+    requiredInputs: [...new Set(Object.values(requiredInputsBySex).flat())],
+    requiredInputsBySex,
+    // Hidden rather than shown as "-" for a sex the formula was not developed for.
+    optional: SEXES.some(sex => !equations[sex]),
+    enabledByDefault: definition.enabledByDefault,
+    countsTowardAverage: definition.countsTowardAverage,
+    labels: { name: definition.name, note: definition.note },
+    calculate,
+  };
+};
+
+export const registerCustomMethods = (definitions: readonly CustomMethodDefinition[]): void => {
+  definitions.forEach(definition => registerMethod(compileCustomMethod(definition)));
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBMI, calculateBodyFat, isCountedInAverage, isMethodVisible, navyBf, rfmBf, visualBf } from './formulas';
+import { NAVY_INCH_EQUATION_CASES, REFERENCE_CASES } from './__fixtures__/referenceCases';
+
+describe('calculateBMI', () => {
+  it('divides weight by height in metres squared', () => {
+    expect(calculateBMI(81, 180)).toBeCloseTo(25, 10);
+  });
+
+  it('returns null for missing or non-positive height', () => {
+    expect(calculateBMI(null, 180)).toBeNull();
+    expect(calculateBMI(80, 0)).toBeNull();
+  });
+});
+
+describe.each(REFERENCE_CASES)('reference case: $label', ({ measurements, bmi, expected }) => {
+  const results = calculateBodyFat(measurements);
+
+  it('computes BMI', () => {
+    expect(results.bmi).toBeCloseTo(bmi, 2);
+  });
+
+  it.each(Object.entries(expected))('%s matches its equation evaluated by hand', (key, value) => {
+    expect(results.methods[key as keyof typeof expected].value).toBeCloseTo(value, 1);
+  });
+
+  it('hides the caliper methods when no skinfolds were given', () => {
+    expect(isMethodVisible(results.methods.SKF_SIRI)).toBe(false);
+    expect(isMethodVisible(results.methods.NAVY)).toBe(true);
+  });
+});
+
+describe.each(NAVY_INCH_EQUATION_CASES)('Navy method, $source: $label', ({ measurements, percentFat }) => {
+  it('agrees with the inch form within half a percent', () => {
+    expect(Math.abs((navyBf(measurements).value as number) - percentFat)).toBeLessThan(0.5);
+  });
+});
+
+describe('skipped methods', () => {
+  const base = REFERENCE_CASES[0].measurements;
+
+  it('skips the Navy method when the waist is not larger than the neck', () => {
+    expect(navyBf({ ...base, neckCm: 90, waistCm: 85 })).toMatchObject({ value: null, skippedReason: 'waistNotAboveNeck' });
+  });
+
+  it('skips tape methods with missing inputs', () => {
+    expect(rfmBf({ ...base, waistCm: null })).toMatchObject({ value: null, skippedReason: 'missingInput' });
+    expect(navyBf({ ...base, sex: 'female', hipCm: null })).toMatchObject({ value: null, skippedReason: 'missingInput' });
+  });
+
+  it('clamps negative estimates at zero', () => {
+    expect(rfmBf({ ...base, heightCm: 250, waistCm: 40 }).value).toBe(0);
+  });
+});
+
+describe('calculateBodyFat', () => {
+  it('excludes Brozek from the average and the consensus', () => {
+    const results = calculateBodyFat({ ...REFERENCE_CASES[0].measurements, skinfolds: { protocol: 'JP3', sites: { chest: 10, abdomen: 20, thigh: 15 } } });
+    const averaged = ['BMI_BF', 'NAVY', 'RFM', 'CUN_BAE', 'ECORE', 'SKF_SIRI'] as const;
+    const mean = averaged.reduce((s, k) => s + (results.methods[k].value as number), 0) / averaged.length;
+    expect(results.methods.SKF_BROZEK.value).not.toBeNull();
+    expect(results.averageBf).toBeCloseTo(mean, 10);
+  });
+});
+
+describe('visual estimate', () => {
+  const base = REFERENCE_CASES[0].measurements;
+
+  it('uses the midpoint of the picked silhouette range and stays hidden when none was picked', () => {
+    expect(visualBf({ ...base, sex: 'male', visual: { level: 0, countsTowardAverage: true } }).value).toBe(7.5);
+    expect(visualBf({ ...base, sex: 'female', visual: { level: 6, countsTowardAverage: true } }).value).toBe(43);
+    expect(isMethodVisible(visualBf(base))).toBe(false);
+    expect(visualBf({ ...base, visual: { level: 7, countsTowardAverage: true } }).skippedReason).toBe('missingInput');
+  });
+
+  it('counts toward the average unless the user opted out', () => {
+    const included = calculateBodyFat({ ...base, visual: { level: 6, countsTowardAverage: true } });
+    const excluded = calculateBodyFat({ ...base, visual: { level: 6, countsTowardAverage: false } });
+    const without = calculateBodyFat(base);
+    expect(excluded.methods.VISUAL.value).toBe(included.methods.VISUAL.value);
+    expect(excluded.averageBf).toBeCloseTo(without.averageBf as number, 10);
+    expect(excluded.consensus?.value).toBeCloseTo(without.consensus?.value as number, 10);
+    expect(included.consensus?.value).toBeGreaterThan(without.consensus?.value as number);
+  });
+});
+
+describe('method settings', () => {
+  const base = REFERENCE_CASES[0].measurements;
+
+  it('reports disabled methods as skipped and hides them', () => {
+    const results = calculateBodyFat(base, { NAVY: { enabled: false } });
+    expect(results.methods.NAVY).toMatchObject({ value: null, skippedReason: 'disabled' });
+    expect(isMethodVisible(results.methods.NAVY)).toBe(false);
+    expect(results.consensus?.value).not.toBeCloseTo(calculateBodyFat(base).consensus?.value as number, 5);
+  });
+
+  it('lets the user change which methods count toward the average', () => {
+    const visual = { ...base, visual: { level: 6, countsTowardAverage: true } };
+    expect(isCountedInAverage('RFM', base, { RFM: { countsTowardAverage: false } })).toBe(false);
+    // Brozek reuses the Siri density, so no setting can make it count twice.
+    expect(isCountedInAverage('SKF_BROZEK', base, { SKF_BROZEK: { countsTowardAverage: true } })).toBe(false);
+    // A per-input rule can only be narrowed: the visual estimate's own opt-out still wins.
+    expect(isCountedInAverage('VISUAL', { ...visual, visual: { level: 6, countsTowardAverage: false } }, { VISUAL: { countsTowardAverage: true } })).toBe(false);
+    expect(isCountedInAverage('VISUAL', visual, { VISUAL: { countsTowardAverage: false } })).toBe(false);
+  });
+});
@@ -0,0 +1,188 @@
+import {
+  BodyFatResults,
+  BodyMeasurements,
+  BuiltInMethodKey,
+  MeasurementKey,
+  METHOD_KEYS,
+  MethodDefinition,
+  MethodInputs,
+  MethodKey,
+  MethodResult,
+  MethodSettings,
+  Sex,
+  SkipReason,
+} from './types';
+import { brozekBf, calculateBodyDensity, siriBf, SKINFOLD_SEE } from './skinfolds';
+import { calculateConsensus } from './consensus';
+import { VISUAL_SEE, visualLevelBf } from './visual';
+
+/****************************
+ * Helpers
+ ***************************/
+export const calculateBMI = (weightKg: number | null, heightCm: number | null): number | null => {
+  if (weightKg === null || heightCm === null || heightCm <= 0) return null;
+  const heightM = heightCm / 100;
+  return weightKg / (heightM * heightM);
+};
+
+const isPresent = (v: number | null | undefined): v is number => typeof v === 'number' && !isNaN(v);
+
+/**
+ * Standard error of estimate (BF% points) reported by each method's validation study, per sex.
+ * Skinfold methods depend on the chosen protocol, see `SKINFOLD_SEE`.
+ */
+export const METHOD_SEE: Record<'BMI_BF' | 'NAVY' | 'RFM' | 'CUN_BAE' | 'ECORE', Record<Sex, number>> = {
+  BMI_BF: { male: 4.1, female: 4.1 },
+  NAVY: { male: 3.5, female: 3.7 },
+  RFM: { male: 3.6, female: 3.7 },
+  CUN_BAE: { male: 4.7, female: 4.7 },
+  ECORE: { male: 4.0, female: 4.0 },
+};
+
+const ok = (key: MethodKey, value: number, inputs: MethodInputs, standardError: number): MethodResult => ({ key, value: Math.max(0, value), standardError, inputs, skippedReason: null });
+const skip = (key: MethodKey, reason: SkipReason, inputs: MethodInputs = {}): MethodResult => ({ key, value: null, standardError: null, inputs, skippedReason: reason });
+
+/** Returns the first required input that is missing, or `null` when all are present. */
+const findMissing = (m: BodyMeasurements, keys: readonly MeasurementKey[]): MeasurementKey | null => keys.find(k => !isPresent(m[k])) ?? null;
+
+/****************************
+ * Formulas
+ ***************************/
+
+/** Deurenberg et al. (1991): BF% from BMI, age and sex (male = 1). */
+export const deurenbergBf = (m: BodyMeasurements): MethodResult => {
+  if (findMissing(m, ['age', 'weightKg', 'heightCm'])) return skip('BMI_BF', 'missingInput');
+  const bmi = calculateBMI(m.weightKg, m.heightCm);
+  if (bmi === null || bmi <= 0) return skip('BMI_BF', 'nonPositiveInput');
+  const sexFactor = m.sex === 'male' ? 1 : 0;
+  return ok('BMI_BF', 1.20 * bmi + 0.23 * m.age - 10.8 * sexFactor - 5.4, { sex: m.sex, age: m.age, bmi }, METHOD_SEE.BMI_BF[m.sex]);
+};
+
+/** US Navy circumference method (Hodgdon & Beckett). Women additionally need the hip circumference. */
+export const navyBf = (m: BodyMeasurements): MethodResult => {
+  const required: MeasurementKey[] = m.sex === 'male' ? ['heightCm', 'neckCm', 'waistCm'] : ['heightCm', 'neckCm', 'waistCm', 'hipCm'];
+  if (findMissing(m, required)) return skip('NAVY', 'missingInput');
+  const heightCm = m.heightCm, neckCm = m.neckCm as number, waistCm = m.waistCm as number;
+  if (heightCm <= 0) return skip('NAVY', 'nonPositiveInput');
+  if (m.sex === 'male') {
+    const inputs = { sex: m.sex, heightCm, neckCm, waistCm };
+    const wmn = waistCm - neckCm;
+    if (wmn <= 0) return skip('NAVY', 'waistNotAboveNeck', inputs);
+    return ok('NAVY', 495 / (1.0324 - 0.19077 * Math.log10(wmn) + 0.15456 * Math.log10(heightCm)) - 450, inputs, METHOD_SEE.NAVY.male);
+  }
+  const hipCm = m.hipCm as number;
+  const inputs = { sex: m.sex, heightCm, neckCm, waistCm, hipCm };
+  const wphmn = waistCm + hipCm - neckCm;
+  if (wphmn <= 0) return skip('NAVY', 'waistNotAboveNeck', inputs);
+  return ok('NAVY', 495 / (1.29579 - 0.35004 * Math.log10(wphmn) + 0.22100 * Math.log10(heightCm)) - 450, inputs, METHOD_SEE.NAVY.female);
+};
+
+/** Relative Fat Mass (Woolcott & Bergman, 2018): 64 (men) / 76 (women) − 20 × height/waist. */
+export const rfmBf = (m: BodyMeasurements): MethodResult => {
+  if (findMissing(m, ['heightCm', 'waistCm'])) return skip('RFM', 'missingInput');
+  const heightCm = m.heightCm, waistCm = m.waistCm as number;
+  if (heightCm <= 0 || waistCm <= 0) return skip('RFM', 'nonPositiveInput');
+  const hwr = heightCm / waistCm;
+  return ok('RFM', (m.sex === 'male' ? 64 : 76) - 20 * hwr, { sex: m.sex, heightCm, waistCm }, METHOD_SEE.RFM[m.sex]);
+};
+
+/** CUN-BAE (Gómez-Ambrosi et al., 2012): quadratic BMI/age model, sex coded male = 0, female = 1. */
+export const cunBaeBf = (m: BodyMeasurements): MethodResult => {
+  if (findMissing(m, ['age', 'weightKg', 'heightCm'])) return skip('CUN_BAE', 'missingInput');
+  const bmi = calculateBMI(m.weightKg, m.heightCm);
+  if (bmi === null || bmi <= 0) return skip('CUN_BAE', 'nonPositiveInput');
+  const age = m.age, s = m.sex === 'male' ? 0 : 1, bmiSq = bmi * bmi;
+  const bf = -44.988 + (0.503 * age) + (10.689 * s) + (3.172 * bmi) - (0.026 * bmiSq) + (0.181 * bmi * s) - (0.02 * bmi * age) - (0.005 * bmiSq * s) + (0.00021 * bmiSq * age);
+  return ok('CUN_BAE', bf, { sex: m.sex, age, bmi }, METHOD_SEE.CUN_BAE[m.sex]);
+};
+
+/** ECORE-BF (Molina-Luque et al., 2019): age, sex (male = 0, female = 1) and ln(BMI). */
+export const ecoreBf = (m: BodyMeasurements): MethodResult => {
+  if (findMissing(m, ['age', 'weightKg', 'heightCm'])) return skip('ECORE', 'missingInput');
+  const bmi = calculateBMI(m.weightKg, m.heightCm);
+  if (bmi === null || bmi <= 0) return skip('ECORE', 'nonPositiveInput');
+  const s = m.sex === 'male' ? 0 : 1;
+  return ok('ECORE', -97.102 + (0.123 * m.age) + (11.900 * s) + (35.959 * Math.log(bmi)), { sex: m.sex, age: m.age, bmi }, METHOD_SEE.ECORE[m.sex]);
+};
+
+/** Skinfold density from the chosen caliper protocol, converted with `convert` (Siri or Brozek). */
+const skinfoldBf = (key: MethodKey, convert: (density: number) => number) => (m: BodyMeasurements): MethodResult => {
+  if (!m.skinfolds || !isPresent(m.age)) return skip(key, 'missingInput');
+  const bodyDensity = calculateBodyDensity(m.skinfolds, m.sex, m.age);
+  if (bodyDensity === null) return skip(key, 'missingInput');
+  if (bodyDensity <= 0) return skip(key, 'nonPositiveInput');
+  return ok(key, convert(bodyDensity), { sex: m.sex, age: m.age, skinfolds: m.skinfolds, bodyDensity }, SKINFOLD_SEE[m.skinfolds.protocol][m.sex]);
+};
+
+export const skinfoldSiriBf = skinfoldBf('SKF_SIRI', siriBf);
+export const skinfoldBrozekBf = skinfoldBf('SKF_BROZEK', brozekBf);
+
+/** Midpoint of the reference silhouette the user picked (see `VISUAL_LEVELS`). */
+export const visualBf = (m: BodyMeasurements): MethodResult => {
+  if (!m.visual) return skip('VISUAL', 'missingInput');
+  const value = visualLevelBf(m.visual.level, m.sex);
+  if (value === null) return skip('VISUAL', 'missingInput');
+  return ok('VISUAL', value, { sex: m.sex, visual: m.visual }, VISUAL_SEE[m.sex]);
+};
+
+/****************************
+ * Registry & aggregation
+ ***************************/
+export const METHOD_REGISTRY: Record<BuiltInMethodKey, MethodDefinition> = {
+  BMI_BF: { key: 'BMI_BF', family: 'bmi', requiredInputs: ['age', 'weightKg', 'heightCm'], calculate: deurenbergBf },
+  NAVY: { key: 'NAVY', family: 'tape', requiredInputs: ['heightCm', 'neckCm', 'waistCm'], requiredInputsBySex: { female: ['heightCm', 'neckCm', 'waistCm', 'hipCm'] }, calculate: navyBf },
+  RFM: { key: 'RFM', family: 'tape', requiredInputs: ['heightCm', 'waistCm'], calculate: rfmBf },
+  CUN_BAE: { key: 'CUN_BAE', family: 'bmi', requiredInputs: ['age', 'weightKg', 'heightCm'], calculate: cunBaeBf },
+  ECORE: { key: 'ECORE', family: 'bmi', requiredInputs: ['age', 'weightKg', 'heightCm'], calculate: ecoreBf },
+  SKF_SIRI: { key: 'SKF_SIRI', family: 'caliper', requiredInputs: ['age'], optional: true, calculate: skinfoldSiriBf },
+  SKF_BROZEK: { key: 'SKF_BROZEK', family: 'caliper', requiredInputs: ['age'], optional: true, countsTowardAverage: false, calculate: skinfoldBrozekBf },
+  VISUAL: { key: 'VISUAL', family: 'visual', requiredInputs: [], optional: true, countsTowardAverage: m => m.visual?.countsTowardAverage !== false, calculate: visualBf },
+};
+
+/** Methods added at runtime, in registration order, after the built-in ones. */
+const customRegistry = new Map<MethodKey, MethodDefinition>();
+
+/** Adds (or replaces) a method. Built-in keys cannot be overridden. */
+export const registerMethod = (definition: MethodDefinition): void => {
+  if (definition.key in METHOD_REGISTRY) throw new Error(`Method ${definition.key} is built in and cannot be re-registered`);
+  customRegistry.set(definition.key, definition);
+};
+
+export const unregisterMethod = (key: MethodKey): boolean => customRegistry.delete(key);
+
+/** Every method currently known: built-in first, then registered ones. */
+export const getMethodKeys = (): MethodKey[] => [...(Object.keys(METHOD_KEYS) as BuiltInMethodKey[]), ...customRegistry.keys()];
+
+export const getMethodDefinition = (key: MethodKey): MethodDefinition | undefined => (key in METHOD_REGISTRY ? METHOD_REGISTRY[key as BuiltInMethodKey] : customRegistry.get(key));
+
+export const getRequiredInputs = (key: MethodKey, sex: Sex): readonly MeasurementKey[] => {
+  const definition = getMethodDefinition(key);
+  return definition?.requiredInputsBySex?.[sex] ?? definition?.requiredInputs ?? [];
+};
+
+export const isMethodEnabled = (key: MethodKey, settings: MethodSettings = {}): boolean => settings[key]?.enabled ?? getMethodDefinition(key)?.enabledByDefault !== false;
+
+/** Whether a method's value feeds the average and the consensus for these measurements. */
+export const isCountedInAverage = (key: MethodKey, m: BodyMeasurements, settings: MethodSettings = {}): boolean => {
+  const rule = getMethodDefinition(key)?.countsTowardAverage;
+  const override = settings[key]?.countsTowardAverage;
+  if (typeof rule === 'function') return override !== false && rule(m);
+  return rule !== false && override !== false;
+};
+
+/** Whether a method's result should be shown: disabled methods never, optional ones only when their inputs were given. */
+export const isMethodVisible = (result: MethodResult): boolean => result.skippedReason !== 'disabled' && !(getMethodDefinition(result.key)?.optional && result.skippedReason === 'missingInput');
+
+/** Unweighted mean of all method values that are not `null`. */
+export const averageBodyFat = (results: readonly MethodResult[]): number | null => {
+  const values = results.map(r => r.value).filter(isPresent);
+  return values.length > 0 ? values.reduce((s, v) => s + v, 0) / values.length : null;
+};
+
+/** Runs every registered, enabled method against the given measurements; disabled ones are reported as skipped. */
+export const calculateBodyFat = (m: BodyMeasurements, settings: MethodSettings = {}): BodyFatResults => {
+  const methods = {} as Record<MethodKey, MethodResult>;
+  getMethodKeys().forEach(key => { methods[key] = isMethodEnabled(key, settings) ? (getMethodDefinition(key) as MethodDefinition).calculate(m) : skip(key, 'disabled'); });
+  const averaged = Object.values(methods).filter(r => isCountedInAverage(r.key, m, settings));
+  return { bmi: calculateBMI(m.weightKg, m.heightCm), methods, averageBf: averageBodyFat(averaged), consensus: calculateConsensus(averaged, key => getMethodDefinition(key)?.family ?? 'custom') };
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { bodyRoundnessIndex, calculateHealthRisk } from './healthRisk';
+import { REFERENCE_CASES } from './__fixtures__/referenceCases';
+
+const [male, female] = REFERENCE_CASES.map(c => c.measurements);
+
+describe('calculateHealthRisk', () => {
+  it('computes the ratios from waist, height and hip', () => {
+    const risk = calculateHealthRisk(female);
+    expect(risk.WHTR.value).toBeCloseTo(76 / 165, 10);
+    expect(risk.WHR.value).toBeCloseTo(0.76, 10);
+    expect(risk.WHTR.risk).toBe('healthy');
+    expect(risk.WHR.risk).toBe('healthy');
+  });
+
+  it('leaves WHR out when there is no hip measurement', () => {
+    expect(calculateHealthRisk(male).WHR).toEqual({ key: 'WHR', value: null, risk: null });
+  });
+
+  it('leaves every indicator out without a waist', () => {
+    const risk = calculateHealthRisk({ ...male, waistCm: null });
+    expect(Object.values(risk).every(r => r.value === null && r.risk === null)).toBe(true);
+  });
+
+  it.each([
+    [70, 'low'], [85, 'healthy'], [95, 'increased'], [110, 'high'],
+  ] as const)('classifies a %s cm waist at 180 cm by WHtR as %s', (waistCm, risk) => {
+    expect(calculateHealthRisk({ ...male, waistCm }).WHTR.risk).toBe(risk);
+  });
+
+  it('uses the WHO 2008 WHR cut-offs for each sex', () => {
+    expect(calculateHealthRisk({ ...male, waistCm: 88, hipCm: 100 }).WHR.risk).toBe('healthy');
+    expect(calculateHealthRisk({ ...male, waistCm: 90, hipCm: 100 }).WHR.risk).toBe('high');
+    expect(calculateHealthRisk({ ...female, waistCm: 84, hipCm: 100 }).WHR.risk).toBe('healthy');
+    expect(calculateHealthRisk({ ...female, waistCm: 85, hipCm: 100 }).WHR.risk).toBe('high');
+  });
+
+  it('flags a large waist as high risk on BRI', () => {
+    expect(calculateHealthRisk({ ...male, waistCm: 125 }).BRI.risk).toBe('high');
+  });
+});
+
+describe('index formulas', () => {
+  it('matches a hand-computed BRI value', () => {
+    expect(bodyRoundnessIndex(100, 175)).toBeCloseTo(4.80, 2);
+  });
+});
@@ -0,0 +1,59 @@
+import { BodyMeasurements, Sex } from './types';
+
+/****************************
+ * Health risk indicators (central adiposity)
+ ***************************/
+export type HealthIndicatorKey = 'WHTR' | 'WHR' | 'BRI';
+/** `low` sits below the healthy band, which for WHtR points to underweight rather than to no risk. */
+export type RiskLevel = 'low' | 'healthy' | 'increased' | 'high';
+
+export type HealthIndicator = {
+  key: HealthIndicatorKey;
+  /** `null` when a required measurement is missing (e.g. the hip for men). */
+  value: number | null;
+  risk: RiskLevel | null;
+};
+
+export type HealthRisk = Record<HealthIndicatorKey, HealthIndicator>;
+
+/** Lower bounds of the `healthy`, `increased` and `high` bands; anything below the first is `low`. */
+type Bands = [number, number, number];
+
+/** Waist-to-height ratio (NICE 2022): 0.4–0.49 healthy, 0.5–0.59 increased, ≥ 0.6 high. Same for both sexes. */
+export const WHTR_BANDS: Bands = [0.4, 0.5, 0.6];
+/**
+ * Waist-to-hip ratio (WHO 2008): substantially increased risk from 0.90 in men and 0.85 in women. The report gives a
+ * single cut-off per sex, so there is no `increased` band, and no `low` one either.
+ */
+export const WHR_BANDS: Record<Sex, Bands> = { male: [0, 0.9, 0.9], female: [0, 0.85, 0.85] };
+/** Body Roundness Index: the top two quintiles of Zhang et al. (2024), where all-cause mortality rises. */
+export const BRI_BANDS: Bands = [-Infinity, 5.46, 6.91];
+
+const classify = (value: number, [healthy, increased, high]: Bands): RiskLevel =>
+  value >= high ? 'high' : value >= increased ? 'increased' : value >= healthy ? 'healthy' : 'low';
+
+const unavailable = (key: HealthIndicatorKey): HealthIndicator => ({ key, value: null, risk: null });
+
+/** Thomas et al. (2013): eccentricity of the body modelled as an ellipse from waist and height. */
+export const bodyRoundnessIndex = (waistCm: number, heightCm: number): number => {
+  const ratio = (waistCm / (2 * Math.PI)) / (0.5 * heightCm);
+  return 364.2 - 365.5 * Math.sqrt(Math.max(0, 1 - ratio * ratio));
+};
+
+/** All indicators the given measurements allow; every one needs the waist, WHR also the hip. */
+export const calculateHealthRisk = (m: BodyMeasurements): HealthRisk => {
+  const { waistCm, hipCm, heightCm } = m;
+  if (typeof waistCm !== 'number' || waistCm <= 0 || heightCm <= 0) {
+    return { WHTR: unavailable('WHTR'), WHR: unavailable('WHR'), BRI: unavailable('BRI') };
+  }
+
+  const whtr = waistCm / heightCm;
+  const whr = typeof hipCm === 'number' && hipCm > 0 ? waistCm / hipCm : null;
+  const bri = bodyRoundnessIndex(waistCm, heightCm);
+
+  return {
+    WHTR: { key: 'WHTR', value: whtr, risk: classify(whtr, WHTR_BANDS) },
+    WHR: whr !== null ? { key: 'WHR', value: whr, risk: classify(whr, WHR_BANDS[m.sex]) } : unavailable('WHR'),
+    BRI: { key: 'BRI', value: bri, risk: classify(bri, BRI_BANDS) },
+  };
+};
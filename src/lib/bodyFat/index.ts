@@ -0,0 +1,12 @@
+export * from './types';
+export * from './formulas';
+export * from './skinfolds';
+export * from './categories';
+export * from './composition';
+export * from './consensus';
+export * from './plausibility';
+export * from './visual';
+export * from './healthRisk';
+export * from './nutrition';
+export * from './customMethods';
+export * from './norms';
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { BODY_FAT_NORMS, getAgeNorms, NORM_POPULATIONS, percentileInDistribution } from './norms';
+
+describe('bundled norms', () => {
+  it('has ordered ranges and ascending percentile values for every band', () => {
+    NORM_POPULATIONS.forEach(population => {
+      const { ranges, distribution } = BODY_FAT_NORMS.populations[population];
+      Object.values(ranges).flat().forEach(b => expect(b.healthyFrom < b.overweightFrom && b.overweightFrom < b.obeseFrom).toBe(true));
+      Object.values(distribution ?? {}).flat().forEach(b => {
+        expect(b.values).toHaveLength(BODY_FAT_NORMS.percentiles.length);
+        expect([...b.values].sort((x, y) => x - y)).toEqual(b.values);
+      });
+    });
+  });
+});
+
+describe('getAgeNorms', () => {
+  it('moves the healthy range up with age', () => {
+    expect(getAgeNorms(21, 'male', 30).range).toBe('overweight');
+    expect(getAgeNorms(21, 'male', 50).range).toBe('healthy');
+    expect(getAgeNorms(21, 'male', 50).rangeBand).toMatchObject({ minAge: 40, maxAge: 59 });
+  });
+
+  it('puts a value equal to a bound in the higher range', () => {
+    expect(getAgeNorms(33, 'female', 25).range).toBe('overweight');
+    expect(getAgeNorms(7.9, 'male', 25).range).toBe('underfat');
+  });
+
+  it('uses the population-specific ranges', () => {
+    expect(getAgeNorms(24, 'female', 30, 'general').range).toBe('healthy');
+    expect(getAgeNorms(24, 'female', 30, 'asian').range).toBe('underfat');
+  });
+
+  it('ranks within the age band and falls back to the general distribution', () => {
+    expect(getAgeNorms(16.6, 'male', 25).distribution?.percentile).toEqual({ percentile: 50, tail: null });
+    expect(getAgeNorms(16.6, 'male', 45).distribution?.percentile.percentile).toBe(17);
+    expect(getAgeNorms(20, 'male', 25, 'asian').distribution?.population).toBe('general');
+  });
+
+  it('uses the closest band for ages outside the tables', () => {
+    expect(getAgeNorms(15, 'male', 17)).toMatchObject({ outsideAgeRange: true, rangeBand: { minAge: 20 } });
+    expect(getAgeNorms(25, 'female', 85)).toMatchObject({ outsideAgeRange: true, rangeBand: { minAge: 60 } });
+    expect(getAgeNorms(25, 'female', 79.5).outsideAgeRange).toBe(false);
+  });
+});
+
+describe('percentileInDistribution', () => {
+  const values = [10, 12, 14, 16, 18, 20, 22, 24, 26];
+
+  it('interpolates between tabulated points', () => {
+    expect(percentileInDistribution(13, values)).toEqual({ percentile: 25, tail: null });
+    expect(percentileInDistribution(26, values)).toEqual({ percentile: 90, tail: null });
+  });
+
+  it('reports values beyond the table as a tail', () => {
+    expect(percentileInDistribution(8, values)).toEqual({ percentile: 10, tail: 'below' });
+    expect(percentileInDistribution(30, values)).toEqual({ percentile: 90, tail: 'above' });
+  });
+});
@@ -0,0 +1,80 @@
+import NORMS_DATA from './data/bodyFatNorms.json';
+import { Sex } from './types';
+
+/****************************
+ * Age- and population-specific norms
+ ***************************/
+export type NormPopulation = 'general' | 'asian' | 'africanAmerican';
+export type NormRange = 'underfat' | 'healthy' | 'overweight' | 'obese';
+
+export type AgeBand = { minAge: number; maxAge: number };
+/** Lower bound of each range above "underfat"; a value equal to a bound belongs to the higher range. */
+export type RangeBand = AgeBand & { healthyFrom: number; overweightFrom: number; obeseFrom: number };
+/** BF% at each of `NormsDataset.percentiles`, leanest first. */
+export type DistributionBand = AgeBand & { values: number[] };
+
+export type PopulationNorms = {
+  rangesSource: string;
+  ranges: Record<Sex, RangeBand[]>;
+  /** Populations without their own percentile table use the general one. */
+  distributionSource?: string;
+  distribution?: Record<Sex, DistributionBand[]>;
+};
+export type NormsDataset = { percentiles: number[]; populations: Record<NormPopulation, PopulationNorms> };
+
+/** Reference tables, kept as data in `data/bodyFatNorms.json` with their sources. */
+export const BODY_FAT_NORMS = NORMS_DATA as NormsDataset;
+export const NORM_POPULATIONS = Object.keys(BODY_FAT_NORMS.populations) as NormPopulation[];
+export const NORM_RANGES: readonly NormRange[] = ['underfat', 'healthy', 'overweight', 'obese'];
+
+/** Last band starting at or below `age`, so fractional ages and ages past the table still land somewhere; younger ages use the first band. */
+const findBand = <T extends AgeBand>(bands: readonly T[], age: number): T => [...bands].reverse().find(b => age >= b.minAge) ?? bands[0];
+const isOutside = (bands: readonly AgeBand[], age: number): boolean => age < bands[0].minAge || age >= bands[bands.length - 1].maxAge + 1;
+
+export const classifyNormRange = (bf: number, band: RangeBand): NormRange =>
+  bf < band.healthyFrom ? 'underfat' : bf < band.overweightFrom ? 'healthy' : bf < band.obeseFrom ? 'overweight' : 'obese';
+
+export type BfPercentile = {
+  /** Share of the reference group (same sex and age band) at or below this BF%. */
+  percentile: number;
+  /** Set when the value is beyond the table, i.e. the percentile is "at most" (`below`) or "at least" (`above`) the one given. */
+  tail: 'below' | 'above' | null;
+};
+
+/** Linear interpolation between the tabulated percentiles, rounded to whole percent. */
+export const percentileInDistribution = (bf: number, values: readonly number[], percentiles: readonly number[] = BODY_FAT_NORMS.percentiles): BfPercentile => {
+  const last = values.length - 1;
+  if (bf < values[0]) return { percentile: percentiles[0], tail: 'below' };
+  if (bf > values[last]) return { percentile: percentiles[last], tail: 'above' };
+  const i = Math.max(0, values.findIndex((v, j) => j < last && bf >= v && bf <= values[j + 1]));
+  const span = values[i + 1] - values[i];
+  const fraction = span > 0 ? (bf - values[i]) / span : 0;
+  return { percentile: Math.round(percentiles[i] + fraction * (percentiles[i + 1] - percentiles[i])), tail: null };
+};
+
+export type AgeNorms = {
+  population: NormPopulation;
+  rangeBand: RangeBand;
+  range: NormRange;
+  /** `null` when no population has a table for this sex. */
+  distribution: { population: NormPopulation; band: DistributionBand; percentile: BfPercentile } | null;
+  /** The age is outside the tables and the closest band was used. */
+  outsideAgeRange: boolean;
+};
+
+/** Where `bf` sits for the user's sex, age and reference population: the healthy-range band and the percentile. */
+export const getAgeNorms = (bf: number, sex: Sex, age: number, population: NormPopulation = 'general', dataset: NormsDataset = BODY_FAT_NORMS): AgeNorms => {
+  const norms = dataset.populations[population];
+  const rangeBands = norms.ranges[sex];
+  const rangeBand = findBand(rangeBands, age);
+  const distributionPopulation: NormPopulation = norms.distribution ? population : 'general';
+  const distributionBands = dataset.populations[distributionPopulation].distribution?.[sex];
+  const band = distributionBands ? findBand(distributionBands, age) : null;
+  return {
+    population,
+    rangeBand,
+    range: classifyNormRange(bf, rangeBand),
+    distribution: band && { population: distributionPopulation, band, percentile: percentileInDistribution(bf, band.values, dataset.percentiles) },
+    outsideAgeRange: isOutside(rangeBands, age) || (distributionBands ? isOutside(distributionBands, age) : false),
+  };
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { calculateMacros, calculateNutritionTargets, cunninghamBmr, katchMcArdleBmr, mifflinStJeorBmr, NutritionInput } from './nutrition';
+
+const base: NutritionInput = { sex: 'male', age: 30, weightKg: 80, heightCm: 180, bfPercentage: 20, activity: 'moderate', equation: 'KATCH_MCARDLE' };
+
+describe('BMR equations', () => {
+  it('uses lean mass for Katch-McArdle and Cunningham', () => {
+    expect(katchMcArdleBmr(64)).toBeCloseTo(1752.4, 6);
+    expect(cunninghamBmr(64)).toBeCloseTo(1908, 6);
+  });
+
+  it('uses the sex constant for Mifflin-St Jeor', () => {
+    expect(mifflinStJeorBmr(80, 180, 30, 'male')).toBeCloseTo(1780, 6);
+    expect(mifflinStJeorBmr(80, 180, 30, 'female')).toBeCloseTo(1614, 6);
+  });
+});
+
+describe('calculateMacros', () => {
+  it('fills the remaining calories with carbs', () => {
+    const macros = calculateMacros(2400, 0, 64, 80, 'maintain');
+    expect(macros.proteinG).toBeCloseTo(140.8, 6);
+    expect(macros.fatG).toBeCloseTo(2400 * 0.25 / 9, 6);
+    expect(macros.proteinG * 4 + macros.fatG * 9 + macros.carbsG * 4).toBeCloseTo(2400, 6);
+  });
+
+  it('keeps a fat floor and never returns negative carbs', () => {
+    const macros = calculateMacros(800, -0.25, 70, 120, 'cut');
+    expect(macros.fatG).toBe(60);
+    expect(macros.carbsG).toBe(0);
+  });
+});
+
+describe('calculateNutritionTargets', () => {
+  it('derives the TDEE from the chosen equation and activity level', () => {
+    const targets = calculateNutritionTargets(base)!;
+    expect(targets.leanMassKg).toBeCloseTo(64, 10);
+    expect(targets.tdee).toBeCloseTo(1752.4 * 1.55, 6);
+    expect(calculateNutritionTargets({ ...base, equation: 'CUNNINGHAM', activity: 'sedentary' })!.tdee).toBeCloseTo(1908 * 1.2, 6);
+  });
+
+  it('scales the goals to the body fat category', () => {
+    const average = calculateNutritionTargets(base)!;
+    expect(average.category).toBe('Average');
+    expect(average.recommendedGoal).toBe('cut');
+    expect(average.goals.maintain.kcal).toBeCloseTo(average.tdee, 10);
+    expect(average.goals.cut.adjustment).toBe(-0.2);
+
+    const athletic = calculateNutritionTargets({ ...base, bfPercentage: 12 })!;
+    expect(athletic.recommendedGoal).toBe('maintain');
+    expect(athletic.goals.cut.adjustment).toBe(-0.15);
+    expect(athletic.goals.cut.proteinG).toBeGreaterThan(athletic.goals.maintain.proteinG);
+  });
+
+  it('returns null for unusable input', () => {
+    expect(calculateNutritionTargets({ ...base, bfPercentage: 100 })).toBeNull();
+    expect(calculateNutritionTargets({ ...base, weightKg: 0 })).toBeNull();
+  });
+});
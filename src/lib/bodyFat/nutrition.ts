@@ -0,0 +1,111 @@
+import { BfCategory, getBfCategory } from './categories';
+import { calculateBodyComposition } from './composition';
+import { Sex } from './types';
+
+/****************************
+ * Energy & nutrition targets
+ ***************************/
+export type BmrEquation = 'KATCH_MCARDLE' | 'CUNNINGHAM' | 'MIFFLIN_ST_JEOR';
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'veryActive';
+export type NutritionGoal = 'cut' | 'maintain' | 'bulk';
+
+export const BMR_EQUATIONS: readonly BmrEquation[] = ['KATCH_MCARDLE', 'CUNNINGHAM', 'MIFFLIN_ST_JEOR'];
+export const NUTRITION_GOALS: readonly NutritionGoal[] = ['cut', 'maintain', 'bulk'];
+
+/** Physical activity multipliers applied to the BMR (McArdle, Katch & Katch). */
+export const ACTIVITY_FACTORS: Record<ActivityLevel, number> = { sedentary: 1.2, light: 1.375, moderate: 1.55, active: 1.725, veryActive: 1.9 };
+
+/**
+ * Calorie adjustment (fraction of TDEE) per goal and category. Leaner people cut more gently to spare lean mass;
+ * people already carrying more fat gain more slowly, since a surplus adds proportionally more fat.
+ */
+const GOAL_ADJUSTMENTS: Record<Exclude<BfCategory, 'Unknown'>, Record<NutritionGoal, number>> = {
+  'Contest Prep': { cut: -0.1, maintain: 0, bulk: 0.15 },
+  Athletic: { cut: -0.15, maintain: 0, bulk: 0.1 },
+  Average: { cut: -0.2, maintain: 0, bulk: 0.1 },
+  Overweight: { cut: -0.25, maintain: 0, bulk: 0.05 },
+  Obese: { cut: -0.25, maintain: 0, bulk: 0.05 },
+};
+
+/** The goal that moves each category toward the healthy middle. */
+export const RECOMMENDED_GOALS: Record<Exclude<BfCategory, 'Unknown'>, NutritionGoal> = {
+  'Contest Prep': 'bulk', Athletic: 'maintain', Average: 'cut', Overweight: 'cut', Obese: 'cut',
+};
+
+/** Protein per kg of lean mass; higher in a deficit to preserve muscle (Helms et al., 2014). */
+const PROTEIN_G_PER_KG_LEAN: Record<NutritionGoal, number> = { cut: 2.6, maintain: 2.2, bulk: 2.2 };
+/** Share of calories from fat, with a floor in g per kg of body weight for hormonal health. */
+const FAT_ENERGY_SHARE = 0.25;
+const MIN_FAT_G_PER_KG = 0.5;
+
+const KCAL_PER_G = { protein: 4, carbs: 4, fat: 9 };
+
+export type MacroTargets = {
+  kcal: number;
+  /** Fraction of TDEE added (positive) or removed (negative). */
+  adjustment: number;
+  proteinG: number;
+  fatG: number;
+  carbsG: number;
+};
+
+export type NutritionTargets = {
+  leanMassKg: number;
+  category: BfCategory;
+  bmr: Record<BmrEquation, number>;
+  /** TDEE from the BMR of the chosen equation. */
+  tdee: number;
+  recommendedGoal: NutritionGoal | null;
+  goals: Record<NutritionGoal, MacroTargets>;
+};
+
+export type NutritionInput = {
+  sex: Sex;
+  age: number;
+  weightKg: number;
+  heightCm: number;
+  bfPercentage: number;
+  activity: ActivityLevel;
+  equation: BmrEquation;
+};
+
+/** Katch-McArdle: 370 + 21.6 × lean mass (kg). */
+export const katchMcArdleBmr = (leanMassKg: number): number => 370 + 21.6 * leanMassKg;
+/** Cunningham (1980): 500 + 22 × lean mass (kg); tends to suit active, muscular people. */
+export const cunninghamBmr = (leanMassKg: number): number => 500 + 22 * leanMassKg;
+/** Mifflin-St Jeor (1990): weight, height and age only — a reference that ignores body composition. */
+export const mifflinStJeorBmr = (weightKg: number, heightCm: number, age: number, sex: Sex): number =>
+  10 * weightKg + 6.25 * heightCm - 5 * age + (sex === 'male' ? 5 : -161);
+
+export const calculateMacros = (kcal: number, adjustment: number, leanMassKg: number, weightKg: number, goal: NutritionGoal): MacroTargets => {
+  const proteinG = PROTEIN_G_PER_KG_LEAN[goal] * leanMassKg;
+  const fatG = Math.max(MIN_FAT_G_PER_KG * weightKg, (kcal * FAT_ENERGY_SHARE) / KCAL_PER_G.fat);
+  const carbsG = Math.max(0, (kcal - proteinG * KCAL_PER_G.protein - fatG * KCAL_PER_G.fat) / KCAL_PER_G.carbs);
+  return { kcal, adjustment, proteinG, fatG, carbsG };
+};
+
+/** BMR by every equation, TDEE for the activity level and calorie/macro targets per goal, scaled to the BF% category. */
+export const calculateNutritionTargets = ({ sex, age, weightKg, heightCm, bfPercentage, activity, equation }: NutritionInput): NutritionTargets | null => {
+  const composition = calculateBodyComposition(weightKg, heightCm, bfPercentage);
+  if (!composition || age <= 0) return null;
+
+  const { leanMassKg } = composition;
+  const bmr: Record<BmrEquation, number> = {
+    KATCH_MCARDLE: katchMcArdleBmr(leanMassKg),
+    CUNNINGHAM: cunninghamBmr(leanMassKg),
+    MIFFLIN_ST_JEOR: mifflinStJeorBmr(weightKg, heightCm, age, sex),
+  };
+  const tdee = bmr[equation] * ACTIVITY_FACTORS[activity];
+  const category = getBfCategory(bfPercentage, sex);
+  const adjustments = category === 'Unknown' ? GOAL_ADJUSTMENTS.Average : GOAL_ADJUSTMENTS[category];
+  const goalTargets = (goal: NutritionGoal) => calculateMacros(tdee * (1 + adjustments[goal]), adjustments[goal], leanMassKg, weightKg, goal);
+
+  return {
+    leanMassKg,
+    category,
+    bmr,
+    tdee,
+    recommendedGoal: category === 'Unknown' ? null : RECOMMENDED_GOALS[category],
+    goals: { cut: goalTargets('cut'), maintain: goalTargets('maintain'), bulk: goalTargets('bulk') },
+  };
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { checkPlausibility } from './plausibility';
+import { navyBf } from './formulas';
+import { BodyMeasurements } from './types';
+
+const male: BodyMeasurements = { sex: 'male', age: 30, weightKg: 81, heightCm: 180, neckCm: 38, waistCm: 85 };
+const female: BodyMeasurements = { sex: 'female', age: 40, weightKg: 64, heightCm: 165, neckCm: 32, waistCm: 76, hipCm: 100 };
+
+const issues = (m: Partial<BodyMeasurements>) => checkPlausibility(m).map(w => w.issue);
+
+describe('checkPlausibility', () => {
+  it('accepts typical measurements', () => {
+    expect(issues(male)).toEqual([]);
+    expect(issues(female)).toEqual([]);
+  });
+
+  it('flags waist ≤ neck, the case where the Navy method drops out', () => {
+    const m = { ...male, waistCm: 38 };
+    expect(issues(m)).toEqual(['waistNotAboveNeck']);
+    expect(navyBf(m).value).toBeNull();
+  });
+
+  it('flags a hip smaller than the waist for women only', () => {
+    expect(issues({ ...female, hipCm: 70 })).toEqual(['hipBelowWaist']);
+    expect(issues({ ...male, hipCm: 70 })).toEqual([]);
+  });
+
+  it('flags a BMI outside the plausible range', () => {
+    expect(issues({ ...male, weightKg: 180 })).toEqual(['bmiImplausible']);
+    expect(issues({ ...male, weightKg: 45 })).toEqual(['bmiImplausible']);
+  });
+
+  it('only checks pairs whose values are both known', () => {
+    expect(issues({ sex: 'male', neckCm: 40 })).toEqual([]);
+    expect(issues({ sex: 'female', waistCm: 90, hipCm: null })).toEqual([]);
+    expect(checkPlausibility({ neckCm: 40, waistCm: 39 })[0].fields).toEqual(['neckCm', 'waistCm']);
+  });
+});
@@ -0,0 +1,28 @@
+import { calculateBMI } from './formulas';
+import { BodyMeasurements, MeasurementKey } from './types';
+
+/****************************
+ * Cross-field plausibility checks
+ ***************************/
+export type PlausibilityIssue = 'waistNotAboveNeck' | 'hipBelowWaist' | 'bmiImplausible';
+export type PlausibilityWarning = { issue: PlausibilityIssue; fields: MeasurementKey[] };
+
+/** A BMI outside this range almost always means a typo or a unit mix-up (e.g. pounds typed as kilograms). */
+export const PLAUSIBLE_BMI: [number, number] = [15, 50];
+
+/**
+ * Combinations of individually in-range values that are physically unlikely or make a method drop out
+ * (waist ≤ neck leaves the men's Navy formula undefined). Accepts partial input so a form can warn on the
+ * step where the second value of a pair is entered; each warning lists the fields involved.
+ */
+export const checkPlausibility = (m: Partial<BodyMeasurements>): PlausibilityWarning[] => {
+  const warnings: PlausibilityWarning[] = [];
+  const { weightKg, heightCm, neckCm, waistCm, hipCm } = m;
+
+  const bmi = weightKg != null && heightCm != null ? calculateBMI(weightKg, heightCm) : null;
+  if (bmi !== null && (bmi < PLAUSIBLE_BMI[0] || bmi > PLAUSIBLE_BMI[1])) warnings.push({ issue: 'bmiImplausible', fields: ['weightKg', 'heightCm'] });
+  if (neckCm != null && waistCm != null && waistCm <= neckCm) warnings.push({ issue: 'waistNotAboveNeck', fields: ['neckCm', 'waistCm'] });
+  if (m.sex === 'female' && waistCm != null && hipCm != null && hipCm < waistCm) warnings.push({ issue: 'hipBelowWaist', fields: ['waistCm', 'hipCm'] });
+
+  return warnings;
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { brozekBf, calculateBodyDensity, siriBf, sumSkinfolds } from './skinfolds';
+import { DENSITY_CONVERSION_CASES, JP3_TABLE_CASES, SKINFOLD_CASES } from './__fixtures__/referenceCases';
+import { Skinfolds } from './types';
+
+describe.each(SKINFOLD_CASES)('$label', testCase => {
+  const density = calculateBodyDensity(testCase.skinfolds as Skinfolds, testCase.sex, testCase.age) as number;
+
+  it('computes the body density', () => {
+    expect(density).toBeCloseTo(testCase.density, 4);
+  });
+
+  it('converts with Siri', () => {
+    expect(siriBf(density)).toBeCloseTo(testCase.siri, 1);
+  });
+
+  if ('brozek' in testCase) {
+    it('converts with Brozek', () => {
+      expect(brozekBf(density)).toBeCloseTo(testCase.brozek, 1);
+    });
+  }
+});
+
+describe.each(JP3_TABLE_CASES)('$source: $label', ({ sex, age, sum, percentFat }) => {
+  it('matches the printed percent fat to its 0.1 % rounding', () => {
+    const density = calculateBodyDensity({ protocol: 'JP3', sites: { chest: sum / 3, abdomen: sum / 3, thigh: sum / 3 } }, sex, age) as number;
+    expect(Math.abs(siriBf(density) - percentFat)).toBeLessThanOrEqual(0.05);
+  });
+});
+
+describe.each(DENSITY_CONVERSION_CASES)('$source', ({ density, siri, brozek }) => {
+  it('converts the density to the published percent fat', () => {
+    if (siri !== undefined) expect(siriBf(density)).toBeCloseTo(siri, 1);
+    if (brozek !== undefined) expect(brozekBf(density)).toBeCloseTo(brozek, 1);
+  });
+});
+
+describe('sumSkinfolds', () => {
+  it('returns null when a site required by the protocol is missing', () => {
+    expect(sumSkinfolds({ protocol: 'JP3', sites: { chest: 10, abdomen: 20 } }, 'male')).toBeNull();
+  });
+
+  it('ignores sites the protocol does not use', () => {
+    expect(sumSkinfolds({ protocol: 'JP3', sites: { chest: 10, abdomen: 20, thigh: 15, biceps: 99 } }, 'male')).toBe(45);
+  });
+});
@@ -0,0 +1,59 @@
+import { Sex, SkinfoldProtocol, Skinfolds, SkinfoldSite } from './types';
+
+/****************************
+ * Skinfold (caliper) protocols
+ ***************************/
+
+/** Sites each protocol needs, per sex. All skinfolds are measured in mm. */
+export const SKINFOLD_SITES: Record<SkinfoldProtocol, Record<Sex, readonly SkinfoldSite[]>> = {
+  JP3: { male: ['chest', 'abdomen', 'thigh'], female: ['triceps', 'suprailiac', 'thigh'] },
+  JP7: {
+    male: ['chest', 'midaxillary', 'triceps', 'subscapular', 'abdomen', 'suprailiac', 'thigh'],
+    female: ['chest', 'midaxillary', 'triceps', 'subscapular', 'abdomen', 'suprailiac', 'thigh'],
+  },
+  DW: { male: ['biceps', 'triceps', 'subscapular', 'suprailiac'], female: ['biceps', 'triceps', 'subscapular', 'suprailiac'] },
+};
+
+/** Durnin & Womersley (1974) coefficients: density = c − m × log10(Σ4). Rows are [minAge, c, m]. */
+const DW_COEFFICIENTS: Record<Sex, readonly [number, number, number][]> = {
+  male: [[50, 1.1715, 0.0779], [40, 1.1620, 0.0700], [30, 1.1422, 0.0544], [20, 1.1631, 0.0632], [17, 1.1620, 0.0630], [0, 1.1533, 0.0643]],
+  female: [[50, 1.1339, 0.0645], [40, 1.1333, 0.0612], [30, 1.1423, 0.0632], [20, 1.1599, 0.0717], [17, 1.1549, 0.0678], [0, 1.1369, 0.0598]],
+};
+
+/** Standard error of estimate (BF% points) reported for each protocol's density equation, per sex. */
+export const SKINFOLD_SEE: Record<SkinfoldProtocol, Record<Sex, number>> = {
+  JP3: { male: 3.4, female: 3.9 },
+  JP7: { male: 3.5, female: 3.8 },
+  DW: { male: 3.5, female: 3.9 },
+};
+
+/** Sum of the protocol's sites, or `null` if any site is missing or not positive. */
+export const sumSkinfolds = (skinfolds: Skinfolds, sex: Sex): number | null => {
+  let sum = 0;
+  for (const site of SKINFOLD_SITES[skinfolds.protocol][sex]) {
+    const v = skinfolds.sites[site];
+    if (typeof v !== 'number' || isNaN(v) || v <= 0) return null;
+    sum += v;
+  }
+  return sum;
+};
+
+/** Body density (g/cm³) from the selected protocol. Jackson & Pollock (1978, 1980) and Durnin & Womersley (1974). */
+export const calculateBodyDensity = (skinfolds: Skinfolds, sex: Sex, age: number): number | null => {
+  const s = sumSkinfolds(skinfolds, sex);
+  if (s === null) return null;
+  const isMale = sex === 'male';
+  switch (skinfolds.protocol) {
+    case 'JP3': return isMale ? 1.10938 - 0.0008267 * s + 0.0000016 * s * s - 0.0002574 * age : 1.0994921 - 0.0009929 * s + 0.0000023 * s * s - 0.0001392 * age;
+    case 'JP7': return isMale ? 1.112 - 0.00043499 * s + 0.00000055 * s * s - 0.00028826 * age : 1.097 - 0.00046971 * s + 0.00000056 * s * s - 0.00012828 * age;
+    case 'DW': {
+      const [, c, m] = DW_COEFFICIENTS[sex].find(([minAge]) => age >= minAge) ?? DW_COEFFICIENTS[sex][DW_COEFFICIENTS[sex].length - 1];
+      return c - m * Math.log10(s);
+    }
+  }
+};
+
+/** Siri (1961) two-compartment conversion. */
+export const siriBf = (density: number): number => 495 / density - 450;
+/** Brozek et al. (1963) two-compartment conversion. */
+export const brozekBf = (density: number): number => 457 / density - 414.2;
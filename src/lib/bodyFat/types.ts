@@ -0,0 +1,114 @@
+/****************************
+ * Body fat calculation types
+ ***************************/
+export type Sex = 'male' | 'female';
+
+export type SkinfoldProtocol = 'JP3' | 'JP7' | 'DW';
+export type SkinfoldSite = 'chest' | 'abdomen' | 'thigh' | 'triceps' | 'suprailiac' | 'subscapular' | 'midaxillary' | 'biceps';
+/** Caliper readings in mm. Only the sites of the selected protocol are used. */
+export type Skinfolds = { protocol: SkinfoldProtocol; sites: Partial<Record<SkinfoldSite, number>> };
+
+/**
+ * The reference silhouette the user picked as closest to their own build (index into `VISUAL_LEVELS[sex]`).
+ * `countsTowardAverage: false` still shows the method but keeps it out of the consensus.
+ */
+export type VisualEstimate = { level: number; countsTowardAverage: boolean };
+
+/** Raw inputs for every formula. All lengths are in cm, weight in kg, age in years. */
+export type BodyMeasurements = {
+  sex: Sex;
+  age: number;
+  weightKg: number;
+  heightCm: number;
+  neckCm?: number | null;
+  waistCm?: number | null;
+  hipCm?: number | null;
+  skinfolds?: Skinfolds | null;
+  visual?: VisualEstimate | null;
+};
+
+export type MeasurementKey = Exclude<keyof BodyMeasurements, 'sex' | 'skinfolds' | 'visual'>;
+
+export const METHOD_KEYS = { BMI_BF: "BMI_BF", NAVY: "NAVY", RFM: "RFM", CUN_BAE: "CUN_BAE", ECORE: "ECORE", SKF_SIRI: "SKF_SIRI", SKF_BROZEK: "SKF_BROZEK", VISUAL: "VISUAL" } as const;
+export type BuiltInMethodKey = keyof typeof METHOD_KEYS;
+/** Methods registered at runtime from a declarative definition (see `customMethods.ts`). */
+export type CustomMethodKey = `CUSTOM_${string}`;
+export type MethodKey = BuiltInMethodKey | CustomMethodKey;
+
+/**
+ * Why a method produced no value.
+ * - `missingInput`: a required measurement was not provided.
+ * - `nonPositiveInput`: a measurement (or derived value such as BMI) was zero or negative.
+ * - `waistNotAboveNeck`: US Navy needs waist (+ hip for women) to exceed the neck circumference.
+ * - `disabled`: the user (or the method's defaults) turned the method off.
+ */
+export type SkipReason = 'missingInput' | 'nonPositiveInput' | 'waistNotAboveNeck' | 'disabled';
+
+/** The subset of inputs a method actually used, plus derived values such as BMI or body density. */
+export type MethodInputs = Partial<BodyMeasurements> & { bmi?: number; bodyDensity?: number };
+
+/**
+ * Methods in one family share their main inputs, so their errors are strongly correlated
+ * (e.g. the three BMI-based formulas). The consensus treats each family as one vote.
+ */
+export type MethodFamily = 'bmi' | 'tape' | 'caliper' | 'visual' | 'custom';
+
+export type MethodResult = {
+  key: MethodKey;
+  /** Body fat percentage, clamped at 0. `null` when the method was skipped. */
+  value: number | null;
+  /** Published standard error of estimate in BF% points; `null` when the method was skipped. */
+  standardError: number | null;
+  inputs: MethodInputs;
+  skippedReason: SkipReason | null;
+};
+
+/** Text in several languages keyed by locale code (`en`, `tr`); the first entry is the fallback. */
+export type LocalizedText = string | Readonly<Partial<Record<string, string>>>;
+
+export type MethodDefinition = {
+  key: MethodKey;
+  family: MethodFamily;
+  requiredInputs: readonly MeasurementKey[];
+  /** Overrides `requiredInputs` for one sex, e.g. US Navy needs the hip for women only. */
+  requiredInputsBySex?: Readonly<Partial<Record<Sex, readonly MeasurementKey[]>>>;
+  /** `false` registers the method switched off; users can enable it in the method settings. */
+  enabledByDefault?: boolean;
+  /** Display name and note for methods that have no entry in the translations (custom methods). */
+  labels?: { name: LocalizedText; note?: LocalizedText };
+  /** Optional methods (e.g. caliper) are hidden from results when the user did not provide their inputs. */
+  optional?: boolean;
+  /**
+   * `false` keeps a method out of the average, e.g. a second conversion of the same body density.
+   * A function decides per input, for methods the user can opt out of.
+   */
+  countsTowardAverage?: boolean | ((m: BodyMeasurements) => boolean);
+  calculate: (m: BodyMeasurements) => MethodResult;
+};
+
+export type ConsensusEstimate = {
+  /** Weighted consensus BF%. */
+  value: number;
+  standardError: number;
+  /** 95% confidence interval bounds. */
+  lower: number;
+  upper: number;
+  /** Methods whose value is more than `OUTLIER_Z` of their own standard errors away from the consensus. */
+  outliers: MethodKey[];
+};
+
+/**
+ * Per-user overrides of the method defaults. `countsTowardAverage` can only exclude: methods that never count
+ * (e.g. Brozek, which reuses the Siri density) stay out, and a per-input rule (the visual estimate's own toggle)
+ * still applies.
+ */
+export type MethodSettings = Readonly<Partial<Record<MethodKey, { enabled?: boolean; countsTowardAverage?: boolean }>>>;
+
+export type BodyFatResults = {
+  bmi: number | null;
+  methods: Record<MethodKey, MethodResult>;
+  /** Unweighted mean of all methods that produced a value and count toward the average. Kept for reference. */
+  averageBf: number | null;
+  /** Headline estimate: inverse-variance weighted consensus of the same methods. */
+  consensus: ConsensusEstimate | null;
+};
@@ -0,0 +1,27 @@
+import { Sex } from './types';
+
+/****************************
+ * Visual estimate (reference silhouettes)
+ ***************************/
+export type VisualLevel = { low: number; high: number };
+
+/** BF% range each reference silhouette stands for, leanest first. */
+export const VISUAL_LEVELS: Record<Sex, readonly VisualLevel[]> = {
+  male: [{ low: 6, high: 9 }, { low: 10, high: 13 }, { low: 14, high: 17 }, { low: 18, high: 22 }, { low: 23, high: 27 }, { low: 28, high: 33 }, { low: 34, high: 40 }],
+  female: [{ low: 12, high: 15 }, { low: 16, high: 19 }, { low: 20, high: 24 }, { low: 25, high: 29 }, { low: 30, high: 34 }, { low: 35, high: 39 }, { low: 40, high: 46 }],
+};
+
+/**
+ * Assumed error (BF% points) of picking the closest silhouette yourself. There is no validation study for
+ * these drawings; self-rating against photos is usually off by more than any formula, so it weighs least.
+ */
+export const VISUAL_SEE: Record<Sex, number> = { male: 5.0, female: 5.0 };
+
+export const isVisualLevel = (level: number, sex: Sex): boolean => Number.isInteger(level) && level >= 0 && level < VISUAL_LEVELS[sex].length;
+
+/** Midpoint of the silhouette's range, or `null` for an unknown level. */
+export const visualLevelBf = (level: number, sex: Sex): number | null => {
+  if (!isVisualLevel(level, sex)) return null;
+  const { low, high } = VISUAL_LEVELS[sex][level];
+  return (low + high) / 2;
+};
@@ -0,0 +1,43 @@
+import { HistoryEntry } from './history';
+
+/****************************
+ * Coach mode client profiles (browser storage)
+ ***************************/
+export type ClientProfile = {
+  id: string;
+  name: string;
+  /** ISO timestamp */
+  createdAt: string;
+  /** Oldest first, same shape as the personal measurement history. */
+  history: HistoryEntry[];
+};
+
+export const CLIENTS_STORAGE_KEY = 'bodyfat.clients.v1';
+
+const createId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createClientProfile = (name: string, date = new Date()): ClientProfile => ({ id: createId(), name: name.trim(), createdAt: date.toISOString(), history: [] });
+
+/** Case- and whitespace-insensitive name lookup, used to attach imported rows to existing clients. */
+export const findClientByName = (clients: ClientProfile[], name: string): ClientProfile | undefined => {
+  const key = name.trim().toLocaleLowerCase();
+  return clients.find(c => c.name.toLocaleLowerCase() === key);
+};
+
+export const loadClients = (storage: Storage = window.localStorage): ClientProfile[] => {
+  try {
+    const raw = storage.getItem(CLIENTS_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as ClientProfile[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveClients = (clients: ClientProfile[], storage: Storage = window.localStorage): void => {
+  try {
+    storage.setItem(CLIENTS_STORAGE_KEY, JSON.stringify(clients));
+  } catch {
+    // Storage full or disabled: profiles only live for this session.
+  }
+};
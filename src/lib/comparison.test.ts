@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { BodyMeasurements } from './bodyFat';
+import { compareSessions, toComparedSession } from './comparison';
+
+const before: BodyMeasurements = { sex: 'male', age: 30, weightKg: 90, heightCm: 180, neckCm: 38, waistCm: 100 };
+const after: BodyMeasurements = { ...before, weightKg: 84, waistCm: 88 };
+
+describe('compareSessions', () => {
+  const comparison = compareSessions(toComparedSession(before), toComparedSession(after));
+
+  it('gives the change of every method and of the consensus', () => {
+    const navy = comparison.methods.find(m => m.key === 'NAVY');
+    expect(navy?.delta).toBeCloseTo((navy?.after as number) - (navy?.before as number), 10);
+    expect(comparison.methods.some(m => m.key === 'SKF_SIRI')).toBe(false);
+    expect(comparison.consensus.delta).toBeLessThan(0);
+  });
+
+  it('splits the weight change into fat and lean mass', () => {
+    const { weightKg, fatKg, leanKg } = comparison.mass;
+    const fatBefore = 90 * (comparison.consensus.before as number) / 100;
+    const fatAfter = 84 * (comparison.consensus.after as number) / 100;
+    expect(weightKg).toBe(-6);
+    expect(fatKg).toBeCloseTo(fatAfter - fatBefore, 10);
+    expect((fatKg as number) + (leanKg as number)).toBeCloseTo(-6, 10);
+  });
+
+  it('reports the category transition with getBfCategory', () => {
+    expect(comparison.category).toEqual({ before: 'Obese', after: 'Overweight', direction: 'leaner' });
+    expect(compareSessions(toComparedSession(after), toComparedSession(after)).category.direction).toBe('same');
+  });
+
+  it('flags sessions for different sexes', () => {
+    expect(comparison.sexChanged).toBe(false);
+    expect(compareSessions(toComparedSession(before), toComparedSession({ ...after, sex: 'female', hipCm: 100 })).sexChanged).toBe(true);
+  });
+});
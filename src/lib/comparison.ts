@@ -0,0 +1,67 @@
+import { BF_CATEGORY_THRESHOLDS, BfCategory, BodyFatResults, BodyMeasurements, calculateBodyFat, getBfCategory, isMethodVisible, MethodKey, MethodSettings } from './bodyFat';
+
+/****************************
+ * Comparing two measurement sessions
+ ***************************/
+export type ComparedSession = { inputs: BodyMeasurements; results: BodyFatResults; category: BfCategory };
+
+export type ValueChange = { before: number | null; after: number | null; delta: number | null };
+export type MethodChange = ValueChange & { key: MethodKey };
+
+/** Change in body weight split into fat and lean mass using each session's consensus BF%. */
+export type MassChange = { weightKg: number; fatKg: number | null; leanKg: number | null };
+
+export type CategoryTransition = {
+  before: BfCategory;
+  after: BfCategory;
+  /** `null` when either side has no category (no consensus value). */
+  direction: 'leaner' | 'higher' | 'same' | null;
+};
+
+export type SessionComparison = {
+  /** Every method shown for either session, in method order. */
+  methods: MethodChange[];
+  consensus: ValueChange;
+  bmi: ValueChange;
+  mass: MassChange;
+  category: CategoryTransition;
+  /** The two sessions are for different sexes, so formulas and categories differ between them. */
+  sexChanged: boolean;
+};
+
+/** Recalculates stored inputs with the current method settings, so both sides use the same formulas. */
+export const toComparedSession = (inputs: BodyMeasurements, settings: MethodSettings = {}): ComparedSession => {
+  const results = calculateBodyFat(inputs, settings);
+  return { inputs, results, category: getBfCategory(results.consensus?.value ?? null, inputs.sex) };
+};
+
+const change = (before: number | null, after: number | null): ValueChange => ({ before, after, delta: before === null || after === null ? null : after - before });
+
+const fatMassKg = ({ inputs, results }: ComparedSession): number | null => (results.consensus ? inputs.weightKg * (results.consensus.value / 100) : null);
+
+/** Categories are ordered leanest first; "Unknown" has no place in the order. */
+const categoryRank = ({ category, inputs }: ComparedSession): number => BF_CATEGORY_THRESHOLDS[inputs.sex].findIndex(t => t.category === category);
+
+export const compareSessions = (before: ComparedSession, after: ComparedSession): SessionComparison => {
+  const methods = (Object.keys(after.results.methods) as MethodKey[])
+    .filter(key => [before.results.methods[key], after.results.methods[key]].some(r => r && isMethodVisible(r)))
+    .map(key => ({ key, ...change(before.results.methods[key]?.value ?? null, after.results.methods[key]?.value ?? null) }));
+
+  const weightKg = after.inputs.weightKg - before.inputs.weightKg;
+  const fatBefore = fatMassKg(before);
+  const fatAfter = fatMassKg(after);
+  const fatKg = fatBefore === null || fatAfter === null ? null : fatAfter - fatBefore;
+
+  const rankBefore = categoryRank(before);
+  const rankAfter = categoryRank(after);
+  const direction = rankBefore < 0 || rankAfter < 0 ? null : rankAfter < rankBefore ? 'leaner' : rankAfter > rankBefore ? 'higher' : 'same';
+
+  return {
+    methods,
+    consensus: change(before.results.consensus?.value ?? null, after.results.consensus?.value ?? null),
+    bmi: change(before.results.bmi, after.results.bmi),
+    mass: { weightKg, fatKg, leanKg: fatKg === null ? null : weightKg - fatKg },
+    category: { before: before.category, after: after.category, direction },
+    sexChanged: before.inputs.sex !== after.inputs.sex,
+  };
+};
@@ -0,0 +1,54 @@
+/****************************
+ * CSV reading & writing
+ ***************************/
+export type CsvCell = string | number | null | undefined;
+
+/**
+ * Picks the delimiter from the header line. Spreadsheet apps in comma-decimal locales (e.g. Turkish Excel)
+ * save with `;`, in which case numeric cells may also use `,` as the decimal separator.
+ */
+export const detectDelimiter = (text: string): ',' | ';' => {
+  const header = text.split(/\r?\n/, 1)[0] ?? '';
+  return (header.match(/;/g)?.length ?? 0) > (header.match(/,/g)?.length ?? 0) ? ';' : ',';
+};
+
+/** Splits CSV text into rows of cells. Handles quoted cells (with `""` escapes and embedded newlines) and CRLF; blank lines are dropped. */
+export const parseCsv = (text: string, delimiter: ',' | ';' = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const src = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"' && src[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else cell += ch;
+    } else if (ch === '"') inQuotes = true;
+    else if (ch === delimiter) { row.push(cell); cell = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(cell); cell = '';
+      if (row.some(c => c.trim() !== '')) rows.push(row);
+      row = [];
+    } else cell += ch;
+  }
+  row.push(cell);
+  if (row.some(c => c.trim() !== '')) rows.push(row);
+  return rows;
+};
+
+/**
+ * Text starting with `=`, `+`, `-`, `@`, tab or CR would run as a formula in a spreadsheet, so it gets a leading `'`.
+ * Numbers are left alone: a negative value must stay a number.
+ */
+const csvCell = (v: CsvCell): string => {
+  if (v === null || v === undefined) return '';
+  const s = typeof v === 'string' && /^[=+\-@\t\r]/.test(v) ? `'${v}` : String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+/** Comma-separated, dot decimals, trailing newline. */
+export const toCsv = (rows: CsvCell[][]): string => rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
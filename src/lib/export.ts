@@ -0,0 +1,72 @@
+import { BodyFatResults, BodyMeasurements, MethodKey } from './bodyFat';
+import { UnitSystem } from './units';
+import { CsvCell, toCsv } from './csv';
+
+/****************************
+ * Raw result export (CSV / JSON)
+ ***************************/
+export type ResultsExport = {
+  date: string;
+  unitSystem: UnitSystem;
+  inputs: BodyMeasurements;
+  bmi: number | null;
+  consensus: BodyFatResults['consensus'];
+  methods: { key: MethodKey; value: number | null; standardError: number | null; skippedReason: string | null }[];
+};
+
+const round = (v: number | null, d = 2): number | null => (v === null ? null : Math.round(v * 10 ** d) / 10 ** d);
+
+/** Plain, unit-stable snapshot of a calculation. Inputs stay metric regardless of the display units. */
+export const buildResultsExport = (inputs: BodyMeasurements, results: BodyFatResults, unitSystem: UnitSystem, date = new Date()): ResultsExport => ({
+  date: date.toISOString(),
+  unitSystem,
+  inputs,
+  bmi: round(results.bmi),
+  consensus: results.consensus && { ...results.consensus, value: round(results.consensus.value) as number, standardError: round(results.consensus.standardError) as number, lower: round(results.consensus.lower) as number, upper: round(results.consensus.upper) as number },
+  methods: (Object.keys(results.methods) as MethodKey[]).map(key => {
+    const r = results.methods[key];
+    return { key, value: round(r.value), standardError: r.standardError, skippedReason: r.skippedReason };
+  }),
+});
+
+export const resultsToJson = (data: ResultsExport): string => JSON.stringify(data, null, 2);
+
+/** Long format (`section,key,value[,standard_error]`) so inputs, methods and the consensus share one sheet. Always dot decimals. */
+export const resultsToCsv = (data: ResultsExport): string => {
+  const rows: CsvCell[][] = [['section', 'key', 'value', 'standard_error']];
+  rows.push(['meta', 'date', data.date], ['meta', 'unit_system', data.unitSystem]);
+  const { skinfolds, visual, ...measurements } = data.inputs;
+  Object.entries(measurements).forEach(([key, value]) => rows.push(['input', key, value]));
+  if (skinfolds) {
+    rows.push(['input', 'skinfold_protocol', skinfolds.protocol]);
+    Object.entries(skinfolds.sites).forEach(([site, value]) => rows.push(['input', `skinfold_${site}_mm`, value]));
+  }
+  if (visual) rows.push(['input', 'visual_level', visual.level], ['input', 'visual_counts_toward_average', String(visual.countsTowardAverage)]);
+  rows.push(['result', 'BMI', data.bmi]);
+  data.methods.forEach(m => rows.push(['method', m.key, m.value, m.standardError]));
+  if (data.consensus) {
+    rows.push(['consensus', 'value', data.consensus.value, data.consensus.standardError]);
+    rows.push(['consensus', 'ci95_lower', data.consensus.lower], ['consensus', 'ci95_upper', data.consensus.upper]);
+    rows.push(['consensus', 'outliers', data.consensus.outliers.join(' ')]);
+  }
+  return toCsv(rows);
+};
+
+/** Triggers a browser download for in-memory content. */
+export const downloadFile = (content: Blob | string, filename: string, type = 'text/plain'): void => {
+  const blob = typeof content === 'string' ? new Blob([content], { type }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/** `bodyfat-report-2024-05-01` style base name (local date). */
+export const exportFileName = (prefix: string, date = new Date()): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${prefix}-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
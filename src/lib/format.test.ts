@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { formatForInput, formatValue, parseState } from './format';
+import { validateRange } from './validation';
+import { en } from '../i18n/en';
+import { tr } from '../i18n/tr';
+
+describe('formatValue', () => {
+  it('uses the locale decimal separator and fixed decimals', () => {
+    expect(formatValue(12.345, 1, 'tr')).toBe('12,3');
+    expect(formatValue(12.345, 2, 'en')).toBe('12.35');
+    expect(formatValue(1234.5, 1, 'en')).toBe('1,234.5');
+  });
+
+  it('renders missing values as a dash', () => {
+    expect(formatValue(null)).toBe('-');
+    expect(formatValue(NaN)).toBe('-');
+  });
+});
+
+describe('parseState', () => {
+  it('reads comma decimals in Turkish and still accepts a lone dot', () => {
+    expect(parseState('72,5', 'tr')).toBe(72.5);
+    expect(parseState('72.5', 'tr')).toBe(72.5);
+    expect(parseState('1.234,5', 'tr')).toBe(1234.5);
+  });
+
+  it('treats commas as grouping in English', () => {
+    expect(parseState('1,234.5', 'en')).toBe(1234.5);
+  });
+
+  it('returns null for empty or non-numeric input', () => {
+    expect(parseState('', 'en')).toBeNull();
+    expect(parseState('abc', 'en')).toBeNull();
+  });
+
+  it('round-trips formatForInput for one-decimal values in both locales', () => {
+    fc.assert(fc.property(fc.integer({ min: 0, max: 30000 }), fc.constantFrom('tr' as const, 'en' as const), (tenths, locale) => {
+      const v = tenths / 10;
+      return parseState(formatForInput(v, 1, locale), locale) === v;
+    }));
+  });
+});
+
+describe('formatForInput', () => {
+  it('drops trailing zeros and uses the locale separator', () => {
+    expect(formatForInput(80, 1, 'tr')).toBe('80');
+    expect(formatForInput(80.25, 1, 'tr')).toBe('80,3');
+    expect(formatForInput(null)).toBe('');
+  });
+});
+
+describe('validateRange', () => {
+  it('accepts empty input and values inside the range', () => {
+    expect(validateRange(15, 100, '', en, 'en')).toBe('');
+    expect(validateRange(15, 100, '30', en, 'en')).toBe('');
+  });
+
+  it('reports invalid numbers and out-of-range values in the active language', () => {
+    expect(validateRange(15, 100, 'x', en, 'en')).toBe(en.errorInvalidNumber);
+    expect(validateRange(15, 100, '101', en, 'en')).toBe(en.errorRange('15', '100'));
+    expect(validateRange(0, 11.9, '12', tr, 'tr')).toBe(tr.errorRange('0', '11,9'));
+  });
+});
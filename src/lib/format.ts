@@ -0,0 +1,16 @@
+import { DEFAULT_LOCALE, Locale, LOCALES } from '../i18n';
+
+/****************************
+ * Number formatting & parsing
+ ***************************/
+
+/**
+ * Normalizes user input to a JS number string. For comma-decimal locales a comma is the decimal separator
+ * (dots are then grouping), but a lone dot is still accepted since numeric keypads often only offer `.`.
+ * For dot-decimal locales commas are treated as grouping separators.
+ */
+const normalizeNumberInput = (strValue: string, locale: Locale): string => { const trimmed = strValue.replace(/\s/g, ''); if (LOCALES[locale].decimalSeparator === ',') return trimmed.includes(',') ? trimmed.replace(/\./g, '').replace(',', '.') : trimmed; return trimmed.replace(/,/g, ''); };
+
+export const formatValue = (v: number | null | undefined, d = 1, locale: Locale = DEFAULT_LOCALE): string => { if (typeof v !== 'number' || isNaN(v)) return '-'; return v.toLocaleString(LOCALES[locale].intl, { maximumFractionDigits: d, minimumFractionDigits: d }); };
+export const parseState = (strValue: string, locale: Locale = DEFAULT_LOCALE): number | null => { const normalized = normalizeNumberInput(strValue, locale); if (normalized === "") return null; const parsed = Number(normalized); return isNaN(parsed) ? null : parsed; };
+export const formatForInput = (num: number | null, decimals = 1, locale: Locale = DEFAULT_LOCALE): string => { if (num === null || isNaN(num)) return ''; const value = parseFloat(num.toFixed(decimals)); return value === 0 ? '0' : value.toString().replace('.', LOCALES[locale].decimalSeparator); };
@@ -0,0 +1,27 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { calculateBodyFat, getBfCategory } from './bodyFat';
+import { REFERENCE_CASES } from './bodyFat/__fixtures__/referenceCases';
+import { createHistoryEntry, HISTORY_STORAGE_KEY, loadHistory } from './history';
+
+const measurements = REFERENCE_CASES[0].measurements;
+const results = calculateBodyFat(measurements);
+const entry = (date: string) => createHistoryEntry(measurements, results, getBfCategory(results.consensus?.value ?? null, 'male'), 'metric', new Date(date));
+
+afterEach(() => window.localStorage.clear());
+
+describe('loadHistory', () => {
+  it('drops entries that do not have the shape of a saved calculation and sorts the rest', () => {
+    const later = entry('2024-03-01T10:00:00Z');
+    const earlier = entry('2024-01-01T10:00:00Z');
+    const stored = [later, null, { id: 'x', date: 'yesterday' }, { ...earlier, inputs: { ...earlier.inputs, weightKg: '80' } }, { ...earlier, averageBf: undefined }, earlier];
+    window.localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(stored));
+    expect(loadHistory().map(e => e.id)).toEqual([earlier.id, later.id]);
+  });
+
+  it('returns an empty list for anything but a JSON array', () => {
+    window.localStorage.setItem(HISTORY_STORAGE_KEY, '{"id":1}');
+    expect(loadHistory()).toEqual([]);
+    window.localStorage.setItem(HISTORY_STORAGE_KEY, 'not json');
+    expect(loadHistory()).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { BfCategory, BodyFatResults, BodyMeasurements, MethodKey } from './bodyFat';
+import { UnitSystem } from './units';
+
+/****************************
+ * Measurement history (browser storage)
+ ***************************/
+export type HistoryEntry = {
+  id: string;
+  /** ISO timestamp of when the calculation was first completed. */
+  date: string;
+  inputs: BodyMeasurements;
+  /** Unit system the user entered the values in, so an edit reopens in the same units. */
+  unitSystem: UnitSystem;
+  methods: Record<MethodKey, number | null>;
+  bmi: number | null;
+  /** Headline BF% of the calculation: the weighted consensus, `null` when no method produced a value. */
+  averageBf: number | null;
+  category: BfCategory;
+};
+
+export const HISTORY_STORAGE_KEY = 'bodyfat.history.v1';
+
+const createId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Lean body mass in kg derived from the entry's weight and average BF%. */
+export const getLeanMassKg = (entry: HistoryEntry): number | null => entry.averageBf === null ? null : entry.inputs.weightKg * (1 - entry.averageBf / 100);
+
+export const createHistoryEntry = (inputs: BodyMeasurements, results: BodyFatResults, category: BfCategory, unitSystem: UnitSystem, date = new Date()): HistoryEntry => ({
+  id: createId(),
+  date: date.toISOString(),
+  inputs,
+  unitSystem,
+  methods: Object.fromEntries(Object.values(results.methods).map(r => [r.key, r.value])) as Record<MethodKey, number | null>,
+  bmi: results.bmi,
+  averageBf: results.consensus?.value ?? null,
+  category,
+});
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumberOrNull = (v: unknown): boolean => v === null || (typeof v === 'number' && Number.isFinite(v));
+
+/** The fields the history views read; entries edited by hand or written by an old build may lack them. */
+const isHistoryEntry = (v: unknown): v is HistoryEntry => {
+  if (!isRecord(v) || !isRecord(v.inputs) || !isRecord(v.methods)) return false;
+  const { inputs } = v;
+  return typeof v.id === 'string'
+    && typeof v.date === 'string' && !Number.isNaN(Date.parse(v.date))
+    && (inputs.sex === 'male' || inputs.sex === 'female')
+    && [inputs.age, inputs.weightKg, inputs.heightCm].every(n => typeof n === 'number' && Number.isFinite(n))
+    && (v.unitSystem === 'metric' || v.unitSystem === 'imperial')
+    && isNumberOrNull(v.bmi) && isNumberOrNull(v.averageBf)
+    && typeof v.category === 'string';
+};
+
+/** Reads all saved entries, oldest first, dropping any that fail the shape check. Corrupt or missing storage yields an empty list. */
+export const loadHistory = (storage: Storage = window.localStorage): HistoryEntry[] => {
+  try {
+    const raw = storage.getItem(HISTORY_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(isHistoryEntry).sort((a, b) => a.date.localeCompare(b.date));
+  } catch {
+    return [];
+  }
+};
+
+export const saveHistory = (entries: HistoryEntry[], storage: Storage = window.localStorage): void => {
+  try {
+    storage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // Storage full or disabled (e.g. private mode): history simply isn't persisted.
+  }
+};
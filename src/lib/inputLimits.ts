@@ -0,0 +1,11 @@
+import { MeasurementKey } from './bodyFat';
+
+/****************************
+ * Accepted input ranges (metric)
+ ***************************/
+
+/** Bounds the wizard enforces on each measurement. Anything that accepts inputs from outside the form should apply the same ones. */
+export const INPUT_LIMITS: Record<MeasurementKey, [number, number]> = { age: [15, 100], weightKg: [30, 300], heightCm: [100, 250], neckCm: [20, 70], waistCm: [40, 200], hipCm: [50, 200] };
+export const SKINFOLD_LIMITS: [number, number] = [2, 80];
+
+export const isWithinLimits = (v: number, [min, max]: [number, number]): boolean => v >= min && v <= max;
@@ -0,0 +1,33 @@
+/****************************
+ * PDF export (client-side)
+ ***************************/
+
+const PAGE_MARGIN_MM = 10;
+
+/**
+ * Renders `element` to an A4 PDF and downloads it. The capture is sliced into page-height strips,
+ * so long reports continue on further pages instead of being shrunk to fit. The libraries are loaded
+ * on demand to keep them out of the main bundle.
+ */
+export const downloadElementAsPdf = async (element: HTMLElement, filename: string): Promise<void> => {
+  const [{ default: html2canvas }, { jsPDF }] = await Promise.all([import('html2canvas'), import('jspdf')]);
+  const canvas = await html2canvas(element, { scale: 2, backgroundColor: '#ffffff', logging: false });
+
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+  const contentWidth = pdf.internal.pageSize.getWidth() - PAGE_MARGIN_MM * 2;
+  const contentHeight = pdf.internal.pageSize.getHeight() - PAGE_MARGIN_MM * 2;
+  const pxPerMm = canvas.width / contentWidth;
+  const pageHeightPx = Math.floor(contentHeight * pxPerMm);
+
+  for (let offset = 0, page = 0; offset < canvas.height; offset += pageHeightPx, page++) {
+    const sliceHeight = Math.min(pageHeightPx, canvas.height - offset);
+    const slice = document.createElement('canvas');
+    slice.width = canvas.width;
+    slice.height = sliceHeight;
+    slice.getContext('2d')?.drawImage(canvas, 0, offset, canvas.width, sliceHeight, 0, 0, canvas.width, sliceHeight);
+    if (page > 0) pdf.addPage();
+    pdf.addImage(slice.toDataURL('image/png'), 'PNG', PAGE_MARGIN_MM, PAGE_MARGIN_MM, contentWidth, sliceHeight / pxPerMm);
+  }
+
+  pdf.save(filename);
+};
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { ROUTE_PATHS, routeFromLocation } from './routes';
+
+const at = (pathname: string, search = '') => routeFromLocation({ pathname, search });
+
+describe('routes', () => {
+  it('maps every route path back to its route, with or without a trailing slash', () => {
+    (Object.keys(ROUTE_PATHS) as (keyof typeof ROUTE_PATHS)[]).forEach(route => expect(at(ROUTE_PATHS[route])).toBe(route));
+    expect(at('/methods/')).toBe('methods');
+  });
+
+  it('falls back to the landing page for unknown paths', () => {
+    expect(at('/pricing')).toBe('landing');
+    expect(at('')).toBe('landing');
+  });
+
+  it('opens the calculator for a shared result on the root path', () => {
+    expect(at('/', '?s=m&a=30&w=80&h=180&n=38&wa=85')).toBe('calculator');
+    expect(at('/', '?s=m&a=30')).toBe('landing');
+  });
+});
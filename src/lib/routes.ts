@@ -0,0 +1,25 @@
+import { decodeShareState } from './shareLink';
+
+/****************************
+ * Client-side routes (path based; the service worker serves the app shell for every navigation)
+ ***************************/
+export type RouteId = 'landing' | 'calculator' | 'methods' | 'history';
+
+export const ROUTE_PATHS: Record<RouteId, string> = { landing: '/', calculator: '/calculator', methods: '/methods', history: '/history' };
+
+/** Order of the links in the site navigation. */
+export const NAV_ROUTES: readonly RouteId[] = ['landing', 'calculator', 'methods', 'history'];
+
+/** Routes that render the wizard; switching between them keeps it mounted (history is its history panel). */
+export const WIZARD_ROUTES: readonly RouteId[] = ['calculator', 'history'];
+
+/**
+ * Unknown paths fall back to the landing page. A root URL carrying a shared result (links copied before the
+ * calculator had its own path) opens the calculator, which restores the result from the query string.
+ */
+export const routeFromLocation = ({ pathname, search }: Pick<Location, 'pathname' | 'search'>): RouteId => {
+  const path = pathname.replace(/\/+$/, '') || '/';
+  const route = (Object.keys(ROUTE_PATHS) as RouteId[]).find(id => ROUTE_PATHS[id] === path);
+  if (route && route !== 'landing') return route;
+  return decodeShareState(search) ? 'calculator' : 'landing';
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { buildShareUrl, decodeShareState, encodeShareState } from './shareLink';
+import { BodyMeasurements } from './bodyFat';
+
+const female: BodyMeasurements = { sex: 'female', age: 40, weightKg: 64.25, heightCm: 165, neckCm: 32, waistCm: 76, hipCm: 100, skinfolds: { protocol: 'JP3', sites: { triceps: 20, suprailiac: 18, thigh: 25 } }, visual: { level: 2, countsTowardAverage: false } };
+
+describe('share links', () => {
+  it('round-trips inputs (to 0.1) and the unit system', () => {
+    const decoded = decodeShareState(encodeShareState({ inputs: female, unitSystem: 'imperial' }));
+    expect(decoded).toEqual({ inputs: { ...female, weightKg: 64.3 }, unitSystem: 'imperial' });
+  });
+
+  it('rejects links with missing or out-of-range required inputs', () => {
+    expect(decodeShareState('s=m&a=30&w=80&h=180&n=38')).toBeNull();
+    expect(decodeShareState('s=m&a=30&w=800&h=180&n=38&wa=85')).toBeNull();
+    expect(decodeShareState('s=f&a=30&w=60&h=165&n=32&wa=75')).toBeNull();
+  });
+
+  it('accepts results without tape measurements only when a silhouette or caliper protocol stands in', () => {
+    expect(decodeShareState('s=f&a=30&w=60&h=165&v=2')?.inputs).toMatchObject({ neckCm: null, waistCm: null, hipCm: null, visual: { level: 2 } });
+    expect(decodeShareState('s=m&a=30&w=80&h=180')).toBeNull();
+    expect(decodeShareState('s=m&a=30&w=80&h=180&n=38&v=2')).toBeNull();
+  });
+
+  it('drops an incomplete caliper protocol but keeps the rest', () => {
+    expect(decodeShareState('s=m&a=30&w=80&h=180&n=38&wa=85&p=JP3&k_chest=10')?.inputs.skinfolds).toBeNull();
+  });
+
+  it('keeps a valid silhouette level and drops an unknown one', () => {
+    expect(decodeShareState('s=m&a=30&w=80&h=180&n=38&wa=85&v=3')?.inputs.visual).toEqual({ level: 3, countsTowardAverage: true });
+    expect(decodeShareState('s=m&a=30&w=80&h=180&n=38&wa=85&v=9')?.inputs.visual).toBeNull();
+    expect(decodeShareState('s=m&a=30&w=80&h=180&n=38&wa=85&v=1.5')?.inputs.visual).toBeNull();
+  });
+
+  it('points at the site root whatever page the link was copied from', () => {
+    const url = new URL(buildShareUrl({ inputs: female, unitSystem: 'metric' }, { origin: 'https://example.com' }));
+    expect(url.pathname).toBe('/');
+    expect(decodeShareState(url.search)?.inputs.sex).toBe('female');
+  });
+});
@@ -0,0 +1,83 @@
+import { BodyMeasurements, isVisualLevel, MeasurementKey, Sex, SKINFOLD_SITES, SkinfoldProtocol, SkinfoldSite } from './bodyFat';
+import { UnitSystem } from './units';
+import { INPUT_LIMITS, isWithinLimits, SKINFOLD_LIMITS } from './inputLimits';
+
+/****************************
+ * Shareable result links (query string)
+ ***************************/
+export type SharedState = { inputs: BodyMeasurements; unitSystem: UnitSystem };
+
+/** Short query keys keep links readable. Values are always metric; `u` only records the display units. */
+const PARAM_KEYS: Record<MeasurementKey, string> = { age: 'a', weightKg: 'w', heightCm: 'h', neckCm: 'n', waistCm: 'wa', hipCm: 'hi' };
+const PROTOCOLS: readonly SkinfoldProtocol[] = ['JP3', 'JP7', 'DW'];
+
+const round1 = (v: number): string => String(Math.round(v * 10) / 10);
+
+/** Out-of-range values are dropped, so a hand-edited link can't produce results the form would reject. */
+const readNumber = (params: URLSearchParams, key: string, limits: [number, number]): number | null => {
+  const raw = params.get(key);
+  if (raw === null || raw.trim() === '') return null;
+  const v = Number(raw);
+  return isNaN(v) || !isWithinLimits(v, limits) ? null : v;
+};
+
+export const encodeShareState = ({ inputs, unitSystem }: SharedState): string => {
+  const params = new URLSearchParams();
+  params.set('s', inputs.sex === 'male' ? 'm' : 'f');
+  (Object.keys(PARAM_KEYS) as MeasurementKey[]).forEach(key => {
+    const v = inputs[key];
+    if (typeof v === 'number') params.set(PARAM_KEYS[key], round1(v));
+  });
+  if (unitSystem === 'imperial') params.set('u', 'i');
+  if (inputs.skinfolds) {
+    params.set('p', inputs.skinfolds.protocol);
+    Object.entries(inputs.skinfolds.sites).forEach(([site, v]) => { if (typeof v === 'number') params.set(`k_${site}`, round1(v)); });
+  }
+  if (inputs.visual) {
+    params.set('v', String(inputs.visual.level));
+    if (!inputs.visual.countsTowardAverage) params.set('vx', '1');
+  }
+  return params.toString();
+};
+
+/** Parses a query string produced by `encodeShareState`. Returns `null` unless every required input is present and in range. */
+export const decodeShareState = (search: string): SharedState | null => {
+  const params = new URLSearchParams(search);
+  const sexParam = params.get('s');
+  if (sexParam !== 'm' && sexParam !== 'f') return null;
+  const sex: Sex = sexParam === 'm' ? 'male' : 'female';
+
+  const values = {} as Record<MeasurementKey, number | null>;
+  (Object.keys(PARAM_KEYS) as MeasurementKey[]).forEach(key => { values[key] = readNumber(params, PARAM_KEYS[key], INPUT_LIMITS[key]); });
+  const { age, weightKg, heightCm, neckCm, waistCm, hipCm } = values;
+  if (age === null || weightKg === null || heightCm === null) return null;
+
+  const protocol = params.get('p') as SkinfoldProtocol | null;
+  let skinfolds: BodyMeasurements['skinfolds'] = null;
+  if (protocol && PROTOCOLS.includes(protocol)) {
+    const sites: Partial<Record<SkinfoldSite, number>> = {};
+    const complete = SKINFOLD_SITES[protocol][sex].every(site => {
+      const v = readNumber(params, `k_${site}`, SKINFOLD_LIMITS);
+      if (v !== null) sites[site] = v;
+      return v !== null;
+    });
+    if (complete) skinfolds = { protocol, sites };
+  }
+  const visualLevel = Number(params.get('v') ?? NaN);
+  const visual: BodyMeasurements['visual'] = isVisualLevel(visualLevel, sex) ? { level: visualLevel, countsTowardAverage: params.get('vx') !== '1' } : null;
+
+  // Results from the no-tape path carry no circumferences at all; they rest on the silhouette or caliper instead.
+  const hasTape = neckCm !== null && waistCm !== null && (sex === 'male' || hipCm !== null);
+  if (!hasTape && (neckCm !== null || waistCm !== null || (!visual && !skinfolds))) return null;
+
+  return {
+    inputs: hasTape ? { sex, age, weightKg, heightCm, neckCm, waistCm, hipCm: sex === 'female' ? hipCm : null, skinfolds, visual } : { sex, age, weightKg, heightCm, neckCm: null, waistCm: null, hipCm: null, skinfolds, visual },
+    unitSystem: params.get('u') === 'i' ? 'imperial' : 'metric',
+  };
+};
+
+/**
+ * Absolute link to the results for these inputs. It always points at the site root, which exists on any static host
+ * and opens the calculator when the query carries a result (see routeFromLocation).
+ */
+export const buildShareUrl = (state: SharedState, location: Pick<Location, 'origin'> = window.location): string => `${location.origin}${import.meta.env.BASE_URL}?${encodeShareState(state)}`;
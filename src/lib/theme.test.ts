@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { themeOverridesCss, toColorChannels } from './theme';
+
+describe('toColorChannels', () => {
+  it('reads short and long hex and passes channel triplets through', () => {
+    expect(toColorChannels('#0a8')).toBe('0 170 136');
+    expect(toColorChannels('#C2A57A')).toBe('194 165 122');
+    expect(toColorChannels(' 12 34 56 ')).toBe('12 34 56');
+    expect(toColorChannels('teal')).toBeNull();
+  });
+});
+
+describe('themeOverridesCss', () => {
+  it('scopes overrides per theme, the dark one also being the default', () => {
+    expect(themeOverridesCss({ dark: { accent: '#ff0000' }, light: { accent: '#00ff00', fg: 'nope' } })).toBe(
+      `:root, [data-theme='dark'] { --color-accent: 255 0 0; }\n[data-theme='light'] { --color-accent: 0 255 0; }`,
+    );
+    expect(themeOverridesCss({ light: {} })).toBe('');
+  });
+});
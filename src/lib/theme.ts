@@ -0,0 +1,49 @@
+/****************************
+ * Theme tokens
+ ***************************/
+export type Theme = 'light' | 'dark';
+export const THEMES: readonly Theme[] = ['dark', 'light'];
+
+/** Colour tokens defined as `--color-<token>` in src/index.css. */
+export type ThemeToken = 'page' | 'background' | 'card' | 'card-hover' | 'fg' | 'muted' | 'accent' | 'accent-hover' | 'on-accent' | 'line' | 'grid' | 'error' | 'success' | 'warning';
+export type ThemeColors = Partial<Record<ThemeToken, string>>;
+
+export const THEME_STORAGE_KEY = 'bodyfat.theme.v1';
+
+export const isTheme = (value: unknown): value is Theme => value === 'light' || value === 'dark';
+
+/** Usable anywhere a colour string is (inline styles, SVG attributes); follows the active theme. */
+export const themeColor = (token: ThemeToken): string => `rgb(var(--color-${token}))`;
+
+/** `#rgb`/`#rrggbb` or already-split `"r g b"` to the channel form the variables hold. `null` when unreadable. */
+export const toColorChannels = (color: string): string | null => {
+  const value = color.trim();
+  if (/^\d{1,3} \d{1,3} \d{1,3}$/.test(value)) return value;
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value)?.[1];
+  if (!hex) return null;
+  const full = hex.length === 3 ? [...hex].map(c => c + c).join('') : hex;
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16)).join(' ');
+};
+
+/** Stylesheet overriding the default tokens per theme; unreadable colours are dropped. */
+export const themeOverridesCss = (overrides: Partial<Record<Theme, ThemeColors>>): string =>
+  THEMES.flatMap(theme => {
+    const declarations = Object.entries(overrides[theme] ?? {})
+      .map(([token, color]) => [token, color && toColorChannels(color)])
+      .filter(([, channels]) => channels)
+      .map(([token, channels]) => `--color-${token}: ${channels};`);
+    if (declarations.length === 0) return [];
+    // The dark theme is also the default, used before `data-theme` is set.
+    const selector = theme === 'dark' ? `:root, [data-theme='dark']` : `[data-theme='light']`;
+    return [`${selector} { ${declarations.join(' ')} }`];
+  }).join('\n');
+
+/** Adds the brand's colour overrides after the default tokens. Nothing to do without overrides. */
+export const applyThemeOverrides = (overrides: Partial<Record<Theme, ThemeColors>> | undefined): void => {
+  const css = overrides ? themeOverridesCss(overrides) : '';
+  if (!css) return;
+  const style = document.createElement('style');
+  style.dataset.brandTheme = '';
+  style.textContent = css;
+  document.head.appendChild(style);
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { cmToFtIn, cmToIn, ftInToCm, inToCm, kgToLbs, lbsToKg } from './units';
+
+describe('unit conversions', () => {
+  it('converts known values', () => {
+    expect(kgToLbs(100)).toBeCloseTo(220.462, 3);
+    expect(inToCm(12)).toBeCloseTo(30.48, 10);
+    expect(ftInToCm(5, 10)).toBeCloseTo(177.8, 10);
+    expect(ftInToCm(null, 10)).toBeNull();
+  });
+
+  it('splits heights into feet and inches', () => {
+    expect(cmToFtIn(177.8)).toEqual({ ft: 5, inches: 10 });
+    expect(cmToFtIn(152.4)).toEqual({ ft: 5, inches: 0 });
+  });
+
+  it('rolls 11.95+ inches over to the next foot instead of showing 12 in', () => {
+    expect(cmToFtIn(182.8)).toEqual({ ft: 6, inches: 0 });
+  });
+
+  it('round-trips kg ↔ lbs', () => {
+    fc.assert(fc.property(fc.double({ min: 1, max: 500, noNaN: true }), kg => Math.abs(lbsToKg(kgToLbs(kg)) - kg) < 1e-9));
+  });
+
+  it('round-trips cm ↔ in', () => {
+    fc.assert(fc.property(fc.double({ min: 1, max: 300, noNaN: true }), cm => Math.abs(inToCm(cmToIn(cm)) - cm) < 1e-9));
+  });
+
+  it('keeps inches in [0, 12) and drifts at most half a display step through ft/in', () => {
+    fc.assert(fc.property(fc.double({ min: 50, max: 250, noNaN: true }), cm => {
+      const { ft, inches } = cmToFtIn(cm);
+      const back = ftInToCm(ft, inches) as number;
+      return Number.isInteger(ft) && inches >= 0 && inches < 12 && Math.abs(back - cm) <= inToCm(0.05) + 1e-9;
+    }));
+  });
+});
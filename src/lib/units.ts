@@ -0,0 +1,9 @@
+/****************************
+ * Unit conversions
+ ***************************/
+export type UnitSystem = 'metric' | 'imperial';
+
+export const kgToLbs = (kg: number): number => kg * 2.20462; export const lbsToKg = (lbs: number): number => lbs / 2.20462; export const cmToIn = (cm: number): number => cm / 2.54; export const inToCm = (inches: number): number => inches * 2.54;
+/* Rounds the total to 0.1 in before splitting, so e.g. 71.97 in becomes 6 ft 0 in rather than 5 ft 12 in */
+export const cmToFtIn = (cm: number): { ft: number, inches: number } => { const totalInches = Math.round(cmToIn(cm) * 10) / 10; const ft = Math.floor(totalInches / 12); const inches = Math.round((totalInches - ft * 12) * 10) / 10; return { ft, inches }; };
+export const ftInToCm = (ft: number | null, inches: number | null): number | null => { if (ft === null || inches === null) return null; const totalInches = (ft * 12) + inches; return inToCm(totalInches); };
@@ -0,0 +1,9 @@
+import { Locale, Translations } from '../i18n';
+import { formatForInput, parseState } from './format';
+
+/****************************
+ * Input validation
+ ***************************/
+
+/** Error message for a typed value outside `[min, max]`, or `""` when it is valid or still empty. */
+export const validateRange = (min: number, max: number, vStr: string, t: Translations, locale: Locale): string => { if (vStr.trim() === "" || vStr === "-") return ""; const v = parseState(vStr, locale); if (v === null) return t.errorInvalidNumber; if (v < min || v > max) return t.errorRange(formatForInput(min, min % 1 !== 0 ? 1: 0, locale), formatForInput(max, max % 1 !== 0 ? 1: 0, locale)); return ""; };
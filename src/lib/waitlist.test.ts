@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from 'vitest';
+import { en } from '../i18n/en';
+import { BodyMeasurements, calculateBodyFat } from './bodyFat';
+import { buildWaitlistSubmission, submitWaitlist, validateWaitlistForm, WaitlistSubmitError } from './waitlist';
+
+const male: BodyMeasurements = { sex: 'male', age: 30, weightKg: 81, heightCm: 180, neckCm: 38, waistCm: 85 };
+const submission = buildWaitlistSubmission({ name: ' Ada ', email: 'ada@example.com ', consent: true }, 'Average', male, calculateBodyFat(male), 'metric', 'en', new Date('2024-05-01T10:00:00Z'));
+
+const respond = (status: number) => new Response(null, { status });
+const noWait = () => Promise.resolve();
+
+describe('validateWaitlistForm', () => {
+  it('requires a name, a valid email and consent', () => {
+    expect(validateWaitlistForm({ name: ' ', email: 'ada@', consent: false }, en)).toEqual({ name: en.waitlistNameRequired, email: en.waitlistEmailInvalid, consent: en.waitlistConsentRequired });
+    expect(validateWaitlistForm({ name: 'Ada', email: 'ada@example.com', consent: true }, en)).toEqual({});
+  });
+});
+
+describe('buildWaitlistSubmission', () => {
+  it('sends the trimmed contact details with the calculation', () => {
+    expect(submission).toMatchObject({ name: 'Ada', email: 'ada@example.com', consent: true, locale: 'en', category: 'Average', submittedAt: '2024-05-01T10:00:00.000Z' });
+    expect(submission.results.inputs).toEqual(male);
+    expect(submission.results.consensus?.value).toBeGreaterThan(0);
+  });
+});
+
+describe('submitWaitlist', () => {
+  it('POSTs the submission as JSON', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(respond(201));
+    await submitWaitlist('/api/waitlist', submission, { fetchImpl });
+    expect(fetchImpl).toHaveBeenCalledWith('/api/waitlist', expect.objectContaining({ method: 'POST', body: JSON.stringify(submission) }));
+  });
+
+  it('retries network and server errors with a growing delay', async () => {
+    const fetchImpl = vi.fn().mockRejectedValueOnce(new TypeError('offline')).mockResolvedValueOnce(respond(503)).mockResolvedValueOnce(respond(200));
+    const wait = vi.fn(noWait);
+    await submitWaitlist('/api/waitlist', submission, { fetchImpl, wait, retryDelayMs: 100 });
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+    expect(wait.mock.calls).toEqual([[100], [200]]);
+  });
+
+  it('gives up at once on a rejected submission and after the last attempt otherwise', async () => {
+    const rejected = vi.fn().mockResolvedValue(respond(400));
+    await expect(submitWaitlist('/api/waitlist', submission, { fetchImpl: rejected, wait: noWait })).rejects.toEqual(new WaitlistSubmitError(400));
+    expect(rejected).toHaveBeenCalledTimes(1);
+
+    const offline = vi.fn().mockRejectedValue(new TypeError('offline'));
+    await expect(submitWaitlist('/api/waitlist', submission, { fetchImpl: offline, wait: noWait, attempts: 2 })).rejects.toMatchObject({ status: null });
+    expect(offline).toHaveBeenCalledTimes(2);
+  });
+});
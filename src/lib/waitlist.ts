@@ -0,0 +1,91 @@
+import type { Locale, Translations } from '../i18n';
+import { BfCategory, BodyFatResults, BodyMeasurements } from './bodyFat';
+import { buildResultsExport, ResultsExport } from './export';
+import { UnitSystem } from './units';
+
+/****************************
+ * Waitlist sign-up (lead capture)
+ ***************************/
+export type WaitlistForm = { name: string; email: string; consent: boolean };
+export type WaitlistErrors = Partial<Record<keyof WaitlistForm, string>>;
+
+/** Body POSTed to the waitlist endpoint; `server/waitlist.mjs` is the reference receiver. */
+export type WaitlistSubmission = {
+  name: string;
+  email: string;
+  /** Always `true`: the form can't be sent without it, but the receiver should still check. */
+  consent: true;
+  locale: Locale;
+  submittedAt: string;
+  category: BfCategory;
+  results: ResultsExport;
+};
+
+export const WAITLIST_NAME_MAX_LENGTH = 100;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const isValidEmail = (email: string): boolean => EMAIL_PATTERN.test(email.trim());
+
+/** Field errors for the form; empty when it can be sent. */
+export const validateWaitlistForm = ({ name, email, consent }: WaitlistForm, t: Translations): WaitlistErrors => {
+  const errors: WaitlistErrors = {};
+  if (!name.trim()) errors.name = t.waitlistNameRequired;
+  else if (name.trim().length > WAITLIST_NAME_MAX_LENGTH) errors.name = t.waitlistNameTooLong(WAITLIST_NAME_MAX_LENGTH);
+  if (!email.trim()) errors.email = t.waitlistEmailRequired;
+  else if (!isValidEmail(email)) errors.email = t.waitlistEmailInvalid;
+  if (!consent) errors.consent = t.waitlistConsentRequired;
+  return errors;
+};
+
+/** The sign-up together with the calculation it was made from. */
+export const buildWaitlistSubmission = (form: WaitlistForm, category: BfCategory, inputs: BodyMeasurements, results: BodyFatResults, unitSystem: UnitSystem, locale: Locale, date = new Date()): WaitlistSubmission => ({
+  name: form.name.trim(),
+  email: form.email.trim(),
+  consent: true,
+  locale,
+  submittedAt: date.toISOString(),
+  category,
+  results: buildResultsExport(inputs, results, unitSystem, date),
+});
+
+export class WaitlistSubmitError extends Error {
+  /** HTTP status of the last attempt, or `null` when the request never got a response. */
+  readonly status: number | null;
+
+  constructor(status: number | null) {
+    super(status === null ? 'Waitlist endpoint unreachable' : `Waitlist endpoint answered ${status}`);
+    this.name = 'WaitlistSubmitError';
+    this.status = status;
+  }
+}
+
+/** Network failures, rate limiting and server errors may pass on a later attempt; other rejections won't. */
+const isRetryable = (status: number | null): boolean => status === null || status === 408 || status === 429 || status >= 500;
+
+export type SubmitWaitlistOptions = {
+  /** Total tries, including the first. */
+  attempts?: number;
+  /** Wait before the first retry; doubles after each one. */
+  retryDelayMs?: number;
+  fetchImpl?: typeof fetch;
+  wait?: (ms: number) => Promise<void>;
+};
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/** POSTs the sign-up as JSON, retrying transient failures. Rejects with a `WaitlistSubmitError` once it gives up. */
+export const submitWaitlist = async (endpoint: string, submission: WaitlistSubmission, { attempts = 3, retryDelayMs = 1000, fetchImpl = fetch, wait = sleep }: SubmitWaitlistOptions = {}): Promise<void> => {
+  let status: number | null = null;
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      const response = await fetchImpl(endpoint, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(submission) });
+      if (response.ok) return;
+      status = response.status;
+    } catch {
+      status = null;
+    }
+    if (!isRetryable(status) || attempt === attempts) break;
+    await wait(retryDelayMs * 2 ** (attempt - 1));
+  }
+  throw new WaitlistSubmitError(status);
+};
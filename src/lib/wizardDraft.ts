@@ -0,0 +1,64 @@
+import { Sex, Skinfolds, SkinfoldProtocol, SkinfoldSite, VisualEstimate } from './bodyFat';
+import { UnitSystem } from './units';
+import { isInputStep, isWizardStepId, WizardStepId } from './wizardFlow';
+
+/****************************
+ * In-progress wizard session (browser storage)
+ ***************************/
+export type WizardFormData = { sex: Sex | null; age: number | null; weightKg: number | null; heightCm: number | null; neckCm: number | null; waistCm: number | null; hipCm: number | null; skinfolds: Skinfolds | null; visual: VisualEstimate | null };
+export type WizardTempInputs = { weight: string; heightCm: string; heightFt: string; heightIn: string; neck: string; waist: string; hip: string };
+
+/** Everything typed so far, exactly as shown in the inputs, so a reload resumes on the same step with the same text. */
+export type WizardDraft = {
+  /** Input step the user was on; the loading and results steps are never saved. */
+  step: WizardStepId;
+  /** ISO timestamp of the last change. */
+  savedAt: string;
+  unitSystem: UnitSystem;
+  formData: WizardFormData;
+  tempInputs: WizardTempInputs;
+  ageStr: string;
+  caliperProtocol: SkinfoldProtocol | null;
+  skinfoldInputs: Partial<Record<SkinfoldSite, string>>;
+  /** The user chose to go on without a tape measure. Missing in drafts saved before that option existed. */
+  tapeSkipped?: boolean;
+  /** History entry being edited, if the session started from "edit". */
+  editingEntryId: string | null;
+};
+
+export const WIZARD_DRAFT_STORAGE_KEY = 'bodyfat.wizardDraft.v2';
+/** Older drafts are dropped rather than resumed: the measurements are likely out of date. */
+export const WIZARD_DRAFT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const isResumableStep = (step: unknown): step is WizardStepId => isWizardStepId(step) && isInputStep(step);
+
+/** The saved draft if there is a recent one on an input step. Corrupt or missing storage yields `null`. */
+export const loadWizardDraft = (storage: Storage = window.localStorage, now = new Date()): WizardDraft | null => {
+  try {
+    const raw = storage.getItem(WIZARD_DRAFT_STORAGE_KEY);
+    if (!raw) return null;
+    const draft = JSON.parse(raw) as Partial<WizardDraft> | null;
+    if (!draft || !isResumableStep(draft.step) || !draft.formData || !draft.tempInputs || typeof draft.savedAt !== 'string') return null;
+    const age = now.getTime() - new Date(draft.savedAt).getTime();
+    if (!(age >= 0 && age <= WIZARD_DRAFT_MAX_AGE_MS)) return null;
+    return draft as WizardDraft;
+  } catch {
+    return null;
+  }
+};
+
+export const saveWizardDraft = (draft: WizardDraft, storage: Storage = window.localStorage): void => {
+  try {
+    storage.setItem(WIZARD_DRAFT_STORAGE_KEY, JSON.stringify(draft));
+  } catch {
+    // Storage full or disabled: an interrupted session just starts over.
+  }
+};
+
+export const clearWizardDraft = (storage: Storage = window.localStorage): void => {
+  try {
+    storage.removeItem(WIZARD_DRAFT_STORAGE_KEY);
+  } catch {
+    // Nothing to clear.
+  }
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { en } from '../i18n/en';
+import { parseState } from './format';
+import { getStepDefinition, inputRange, INITIAL_WIZARD_FLOW, WizardFlowContext, wizardFlowReducer, WizardStepId, WizardValues } from './wizardFlow';
+
+const male: WizardFlowContext = { hipRequired: false, skipLoading: false, tapeSkipped: false };
+const values: WizardValues = {
+  unitSystem: 'metric',
+  formData: { sex: 'male', age: null, weightKg: null, heightCm: null, neckCm: null, waistCm: null, hipCm: null, skinfolds: null, visual: null },
+  tempInputs: { weight: '', heightCm: '', heightFt: '', heightIn: '', neck: '', waist: '', hip: '' },
+  ageStr: '',
+  caliperProtocol: null,
+  skinfoldInputs: {},
+  tapeSkipped: false,
+};
+const helpers = { t: en, parseState: (v: string) => parseState(v), liveErrors: {} };
+
+/** Steps visited pressing Next from the welcome screen until the flow stops moving. */
+const walk = (context: WizardFlowContext): WizardStepId[] => {
+  const steps: WizardStepId[] = [INITIAL_WIZARD_FLOW.step];
+  for (let state = wizardFlowReducer(INITIAL_WIZARD_FLOW, { type: 'next', context }); state.step !== steps[steps.length - 1]; state = wizardFlowReducer(state, { type: 'next', context })) steps.push(state.step);
+  return steps;
+};
+
+describe('wizard flow', () => {
+  it('visits the hip step only when it is required and the loading step unless skipped', () => {
+    expect(walk(male)).toEqual(['welcome', 'sex', 'age', 'weight', 'height', 'neck', 'waist', 'skinfolds', 'loading', 'results']);
+    expect(walk({ hipRequired: true, skipLoading: true, tapeSkipped: false })).toEqual(['welcome', 'sex', 'age', 'weight', 'height', 'neck', 'waist', 'hip', 'skinfolds', 'results']);
+  });
+
+  it('skips inactive steps going back too, and resets to the welcome screen', () => {
+    expect(wizardFlowReducer({ step: 'skinfolds' }, { type: 'back', context: male })).toEqual({ step: 'waist' });
+    expect(wizardFlowReducer({ step: 'skinfolds' }, { type: 'back', context: { ...male, hipRequired: true } })).toEqual({ step: 'hip' });
+    expect(wizardFlowReducer({ step: 'height' }, { type: 'reset' })).toBe(INITIAL_WIZARD_FLOW);
+  });
+
+  it('requires the typed value and stores it in metric', () => {
+    const weight = getStepDefinition('weight');
+    expect(weight.validate?.(values, helpers)).toEqual({ errors: { weight: en.errorWeightRequired }, patch: {} });
+    expect(weight.validate?.({ ...values, unitSystem: 'imperial', tempInputs: { ...values.tempInputs, weight: '176.4' } }, helpers).patch.weightKg).toBeCloseTo(80, 1);
+  });
+
+  it('keeps the range error shown while typing instead of the required message', () => {
+    const liveErrors = { age: en.errorRange('15', '100') };
+    expect(getStepDefinition('age').validate?.({ ...values, ageStr: '150' }, { ...helpers, liveErrors }).errors).toEqual(liveErrors);
+  });
+
+  it('asks for both feet and inches in imperial', () => {
+    const height = getStepDefinition('height');
+    expect(height.validate?.({ ...values, unitSystem: 'imperial', tempInputs: { ...values.tempInputs, heightFt: '5' } }, helpers).errors).toEqual({ heightIn: en.errorHeightInRequired });
+  });
+
+  it('needs every site of the chosen caliper protocol', () => {
+    const skinfolds = getStepDefinition('skinfolds');
+    expect(skinfolds.validate?.(values, helpers)).toEqual({ errors: {}, patch: { skinfolds: null } });
+    const partial = skinfolds.validate?.({ ...values, caliperProtocol: 'JP3', skinfoldInputs: { chest: '10', abdomen: '20' } }, helpers);
+    expect(partial?.errors).toEqual({ skf_thigh: en.errorSkinfoldRequired });
+  });
+
+  it('leaves out the tape steps without a tape measure and then asks for a silhouette', () => {
+    const noTape = { ...male, hipRequired: true, tapeSkipped: true };
+    expect(walk(noTape)).toEqual(['welcome', 'sex', 'age', 'weight', 'height', 'skinfolds', 'loading', 'results']);
+    expect(wizardFlowReducer({ step: 'skinfolds' }, { type: 'back', context: noTape })).toEqual({ step: 'height' });
+    const skinfolds = getStepDefinition('skinfolds');
+    expect(skinfolds.validate?.({ ...values, tapeSkipped: true }, helpers).errors).toEqual({ visual: en.errorVisualRequired });
+    expect(skinfolds.validate?.({ ...values, tapeSkipped: true, formData: { ...values.formData, visual: { level: 2, countsTowardAverage: true } } }, helpers).errors).toEqual({});
+  });
+
+  it('gives input ranges in the unit they are typed in', () => {
+    expect(inputRange('neck', 'metric')).toEqual([20, 70]);
+    expect(inputRange('weight', 'imperial')?.[1]).toBeCloseTo(661.4, 1);
+    expect(inputRange('skf_chest', 'metric')).toEqual([2, 80]);
+    expect(inputRange('visual', 'metric')).toBeNull();
+  });
+});
@@ -0,0 +1,184 @@
+import type { Translations } from '../i18n';
+import { MeasurementKey, SKINFOLD_SITES, SkinfoldProtocol, SkinfoldSite } from './bodyFat';
+import { INPUT_LIMITS, SKINFOLD_LIMITS } from './inputLimits';
+import { cmToIn, ftInToCm, inToCm, kgToLbs, lbsToKg, UnitSystem } from './units';
+import type { WizardFormData, WizardTempInputs } from './wizardDraft';
+
+/****************************
+ * Wizard flow (steps, transitions, validation)
+ ***************************/
+export type WizardStepId = 'welcome' | 'sex' | 'age' | 'weight' | 'height' | 'neck' | 'waist' | 'hip' | 'skinfolds' | 'loading' | 'results';
+
+/**
+ * What decides whether an optional step is part of the current run. `tapeSkipped`: the user has no tape measure, so
+ * the circumference steps are left out and the result rests on the silhouette (or caliper) and the BMI formulas.
+ */
+export type WizardFlowContext = { hipRequired: boolean; skipLoading: boolean; tapeSkipped: boolean };
+
+/** Everything typed so far, as the step validators see it. */
+export type WizardValues = {
+  unitSystem: UnitSystem;
+  formData: WizardFormData;
+  tempInputs: WizardTempInputs;
+  ageStr: string;
+  caliperProtocol: SkinfoldProtocol | null;
+  skinfoldInputs: Partial<Record<SkinfoldSite, string>>;
+  tapeSkipped: boolean;
+};
+
+export type StepValidationHelpers = {
+  t: Translations;
+  parseState: (v: string) => number | null;
+  /** Range errors already shown while typing, keyed by input name. */
+  liveErrors: Record<string, string>;
+};
+
+/** Errors keyed by input name (empty when the step is complete) and the measurements to store on leaving it. */
+export type StepValidation = { errors: Record<string, string>; patch: Partial<WizardFormData> };
+
+export type WizardStepDefinition = {
+  id: WizardStepId;
+  /** Input steps get Back/Next, submit on Enter and are kept in the saved draft. */
+  kind: 'intro' | 'input' | 'loading' | 'results';
+  /** Measurement checked against the others for plausibility when leaving the step. */
+  field?: MeasurementKey;
+  /** Steps that do not apply are skipped in both directions. Always active when omitted. */
+  isActive?: (context: WizardFlowContext) => boolean;
+  /** Next stays disabled until this holds. */
+  isComplete?: (values: WizardValues) => boolean;
+  validate?: (values: WizardValues, helpers: StepValidationHelpers) => StepValidation;
+};
+
+/** Required-field message, or the range error already shown for it. `''` when the input is usable. */
+const requireInput = (name: string, value: string | undefined, message: string, liveErrors: Record<string, string>): string =>
+  !value || liveErrors[name] ? liveErrors[name] || message : '';
+
+const invalid = (errors: Record<string, string>): StepValidation => ({ errors, patch: {} });
+const valid = (patch: Partial<WizardFormData>): StepValidation => ({ errors: {}, patch });
+
+/** Single typed value converted to the metric measurement it stores. */
+const measurementStep = (id: 'weight' | 'neck' | 'waist' | 'hip', field: MeasurementKey, message: (t: Translations) => string, toMetric: (v: number) => number): WizardStepDefinition => ({
+  id,
+  kind: 'input',
+  field,
+  validate: ({ unitSystem, tempInputs }, { t, parseState, liveErrors }) => {
+    const error = requireInput(id, tempInputs[id], message(t), liveErrors);
+    if (error) return invalid({ [id]: error });
+    const value = parseState(tempInputs[id]);
+    return valid({ [field]: value !== null && unitSystem === 'imperial' ? toMetric(value) : value });
+  },
+});
+
+/** Declared order of the wizard. Adding, removing or reordering a step only touches this list (and its rendering). */
+export const WIZARD_STEPS: readonly WizardStepDefinition[] = [
+  { id: 'welcome', kind: 'intro' },
+  {
+    id: 'sex',
+    kind: 'input',
+    isComplete: ({ formData }) => formData.sex !== null,
+    validate: ({ formData }, { t }) => (formData.sex ? valid({}) : invalid({ sex: t.errorSelectGender })),
+  },
+  {
+    id: 'age',
+    kind: 'input',
+    validate: ({ ageStr }, { t, parseState, liveErrors }) => {
+      const error = requireInput('age', ageStr, t.errorAgeRequired, liveErrors);
+      return error ? invalid({ age: error }) : valid({ age: parseState(ageStr) });
+    },
+  },
+  measurementStep('weight', 'weightKg', t => t.errorWeightRequired, lbsToKg),
+  {
+    id: 'height',
+    kind: 'input',
+    field: 'heightCm',
+    validate: ({ unitSystem, tempInputs }, { t, parseState, liveErrors }) => {
+      if (unitSystem === 'metric') {
+        const error = requireInput('heightCm', tempInputs.heightCm, t.errorHeightCmRequired, liveErrors);
+        return error ? invalid({ heightCm: error }) : valid({ heightCm: parseState(tempInputs.heightCm) });
+      }
+      const errors = Object.fromEntries(Object.entries({
+        heightFt: requireInput('heightFt', tempInputs.heightFt, t.errorHeightFtRequired, liveErrors),
+        heightIn: requireInput('heightIn', tempInputs.heightIn, t.errorHeightInRequired, liveErrors),
+      }).filter(([, error]) => error));
+      return Object.keys(errors).length > 0 ? invalid(errors) : valid({ heightCm: ftInToCm(parseState(tempInputs.heightFt), parseState(tempInputs.heightIn)) });
+    },
+  },
+  { ...measurementStep('neck', 'neckCm', t => t.errorNeckRequired, inToCm), isActive: ({ tapeSkipped }) => !tapeSkipped },
+  { ...measurementStep('waist', 'waistCm', t => t.errorWaistRequired, inToCm), isActive: ({ tapeSkipped }) => !tapeSkipped },
+  { ...measurementStep('hip', 'hipCm', t => t.errorHipRequired, inToCm), isActive: ({ hipRequired, tapeSkipped }) => hipRequired && !tapeSkipped },
+  {
+    id: 'skinfolds',
+    kind: 'input',
+    validate: ({ formData, caliperProtocol, skinfoldInputs, tapeSkipped }, { t, parseState, liveErrors }) => {
+      // Without tape measurements a silhouette or a caliper protocol has to stand in for them.
+      if (!caliperProtocol || !formData.sex) return tapeSkipped && !formData.visual ? invalid({ visual: t.errorVisualRequired }) : valid({ skinfolds: null });
+      const errors: Record<string, string> = {};
+      const sites: Partial<Record<SkinfoldSite, number>> = {};
+      SKINFOLD_SITES[caliperProtocol][formData.sex].forEach(site => {
+        const name = `skf_${site}`;
+        const error = requireInput(name, skinfoldInputs[site], t.errorSkinfoldRequired, liveErrors);
+        if (error) errors[name] = error; else sites[site] = parseState(skinfoldInputs[site] as string) as number;
+      });
+      return Object.keys(errors).length > 0 ? invalid(errors) : valid({ skinfolds: { protocol: caliperProtocol, sites } });
+    },
+  },
+  { id: 'loading', kind: 'loading', isActive: ({ skipLoading }) => !skipLoading },
+  { id: 'results', kind: 'results' },
+];
+
+const STEP_IDS = WIZARD_STEPS.map(step => step.id);
+
+export const isWizardStepId = (value: unknown): value is WizardStepId => typeof value === 'string' && (STEP_IDS as string[]).includes(value);
+
+export const getStepDefinition = (id: WizardStepId): WizardStepDefinition => WIZARD_STEPS[STEP_IDS.indexOf(id)];
+
+export const isInputStep = (id: WizardStepId): boolean => getStepDefinition(id).kind === 'input';
+
+const isActive = (step: WizardStepDefinition, context: WizardFlowContext): boolean => step.isActive?.(context) ?? true;
+
+/** Closest active step in `direction`; stays put at either end of the flow. */
+const stepFrom = (id: WizardStepId, direction: 1 | -1, context: WizardFlowContext): WizardStepId => {
+  for (let i = STEP_IDS.indexOf(id) + direction; i >= 0 && i < WIZARD_STEPS.length; i += direction) {
+    if (isActive(WIZARD_STEPS[i], context)) return WIZARD_STEPS[i].id;
+  }
+  return id;
+};
+
+export const nextStepId = (id: WizardStepId, context: WizardFlowContext): WizardStepId => stepFrom(id, 1, context);
+export const previousStepId = (id: WizardStepId, context: WizardFlowContext): WizardStepId => stepFrom(id, -1, context);
+
+export type WizardFlowState = { step: WizardStepId };
+export type WizardFlowAction =
+  | { type: 'next'; context: WizardFlowContext }
+  | { type: 'back'; context: WizardFlowContext }
+  | { type: 'goTo'; step: WizardStepId }
+  | { type: 'reset' };
+
+export const INITIAL_WIZARD_FLOW: WizardFlowState = { step: 'welcome' };
+
+/** The only way the wizard changes step. Validation happens before `next` is dispatched. */
+export const wizardFlowReducer = (state: WizardFlowState, action: WizardFlowAction): WizardFlowState => {
+  switch (action.type) {
+    case 'next': return { step: nextStepId(state.step, action.context) };
+    case 'back': return { step: previousStepId(state.step, action.context) };
+    case 'goTo': return { step: action.step };
+    case 'reset': return INITIAL_WIZARD_FLOW;
+  }
+};
+
+/** Accepted range of a typed input, in the unit it is typed in. `null` for inputs without one. */
+export const inputRange = (name: string, unitSystem: UnitSystem): [number, number] | null => {
+  const imperial = unitSystem === 'imperial';
+  const convert = ([min, max]: [number, number], fn: (v: number) => number): [number, number] => (imperial ? [fn(min), fn(max)] : [min, max]);
+  switch (name) {
+    case 'age': return INPUT_LIMITS.age;
+    case 'weight': return convert(INPUT_LIMITS.weightKg, kgToLbs);
+    case 'heightCm': return INPUT_LIMITS.heightCm;
+    case 'heightFt': return [3, 8];
+    case 'heightIn': return [0, 11.9];
+    case 'neck': return convert(INPUT_LIMITS.neckCm, cmToIn);
+    case 'waist': return convert(INPUT_LIMITS.waistCm, cmToIn);
+    case 'hip': return convert(INPUT_LIMITS.hipCm, cmToIn);
+    default: return name.startsWith('skf_') ? SKINFOLD_LIMITS : null;
+  }
+};
@@ -2,6 +2,17 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
+import { registerCustomMethods } from './lib/bodyFat';
+import { CUSTOM_METHODS } from './config/customMethods';
+import { applyThemeOverrides } from './lib/theme';
+import { BRAND } from './config/brand';
+import { analytics, loadAnalyticsConsent } from './lib/analytics';
+import { ANALYTICS_SINK } from './config/analytics';
+
+registerCustomMethods(CUSTOM_METHODS);
+applyThemeOverrides(BRAND.colors);
+analytics.configure(ANALYTICS_SINK);
+analytics.setConsent(loadAnalyticsConsent());
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,10 @@
+import { createContext } from 'react';
+import { RouteId } from '../lib/routes';
+
+export type RouteContextValue = {
+  route: RouteId;
+  navigate: (route: RouteId) => void;
+};
+
+/** Outside a RouterProvider (e.g. the wizard rendered on its own) everything is the calculator. */
+export const RouteContext = createContext<RouteContextValue>({ route: 'calculator', navigate: () => {} });
@@ -0,0 +1,36 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ROUTE_PATHS, RouteId, routeFromLocation } from '../lib/routes';
+import { RouteContext } from './RouteContext';
+
+/**
+ * Keeps the current route in sync with the address bar. Navigating pushes a history entry; back/forward (including
+ * the entries the wizard pushes for its steps) re-read the route from the URL.
+ */
+const RouterProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [route, setRoute] = useState<RouteId>(() => routeFromLocation(window.location));
+
+  /* Unknown paths and old root-level share links are rewritten to the route they resolved to, keeping the query */
+  useEffect(() => {
+    const path = ROUTE_PATHS[routeFromLocation(window.location)];
+    if (window.location.pathname !== path) window.history.replaceState(window.history.state, '', `${path}${window.location.search}`);
+  }, []);
+
+  useEffect(() => {
+    const onPopState = () => setRoute(routeFromLocation(window.location));
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  const navigate = useCallback((next: RouteId) => {
+    setRoute(next);
+    if (window.location.pathname === ROUTE_PATHS[next]) return;
+    window.history.pushState({ route: next }, '', ROUTE_PATHS[next]);
+    document.documentElement.scrollTop = 0;
+  }, []);
+
+  const value = useMemo(() => ({ route, navigate }), [route, navigate]);
+
+  return <RouteContext.Provider value={value}>{children}</RouteContext.Provider>;
+};
+
+export default RouterProvider;
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Waitlist endpoint overriding the one in src/config/brand.ts. */
+  readonly VITE_WAITLIST_ENDPOINT?: string;
+  /** `true` logs analytics events to the console (see src/config/analytics.ts). */
+  readonly VITE_ANALYTICS_DEBUG?: string;
+}
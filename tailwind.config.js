@@ -1,8 +1,26 @@
+/** Colour utilities (bg-card, text-muted, border-line, …) backed by the theme variables in src/index.css. */
+const token = name => `rgb(var(--color-${name}) / <alpha-value>)`;
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
   theme: {
-    extend: {},
+    extend: {
+      colors: {
+        page: token('page'),
+        background: token('background'),
+        card: { DEFAULT: token('card'), hover: token('card-hover') },
+        fg: token('fg'),
+        muted: token('muted'),
+        accent: { DEFAULT: token('accent'), hover: token('accent-hover') },
+        'on-accent': token('on-accent'),
+        line: token('line'),
+        grid: token('grid'),
+        error: token('error'),
+        success: token('success'),
+        warning: token('warning'),
+      },
+    },
   },
   plugins: [],
 };
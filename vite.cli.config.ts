@@ -0,0 +1,13 @@
+import { defineConfig } from 'vite'
+
+/** Node build of the command-line calculator: `npm run build:cli`, then `node dist-cli/bodyfat.js --help`. */
+export default defineConfig({
+  build: {
+    ssr: 'cli/bodyfat.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    rollupOptions: {
+      output: { entryFileNames: 'bodyfat.js', banner: '#!/usr/bin/env node' },
+    },
+  },
+})
@@ -1,12 +1,21 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { serviceWorkerPlugin } from './vite/serviceWorkerPlugin'
+import { spaFallbackPlugin } from './vite/spaFallbackPlugin'
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorkerPlugin(), spaFallbackPlugin()],
   base: '/', // 👈 Doğru ayar bu olmalı
+  server: {
+    // Waitlist sign-ups go to the reference server (`npm run waitlist-server`) during development.
+    proxy: { '/api': 'http://localhost:8787' },
+  },
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./src/test/setup.ts'],
+  },
 })
-
-
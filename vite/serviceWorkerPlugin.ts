@@ -0,0 +1,93 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { Plugin } from 'vite';
+
+/****************************
+ * Service worker (offline app shell)
+ ***************************/
+
+/** Files from `public/` the app needs offline. Everything Vite emits is added automatically. */
+const PUBLIC_PRECACHE = ['manifest.webmanifest', 'icons/icon.svg', 'icons/icon-192.png', 'icons/icon-512.png', 'icons/icon-maskable-512.png', 'icons/apple-touch-icon.png'];
+
+/** FNV-1a, enough to tell one build from the next without pulling in Node's crypto. */
+const hash = (text: string): string => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  return (h >>> 0).toString(36);
+};
+
+/**
+ * Precache-first worker. A new build installs alongside the old one and waits until the page posts `SKIP_WAITING`
+ * (the update prompt), so a running session never switches assets halfway through the wizard.
+ */
+const renderServiceWorker = (cacheName: string, base: string, urls: string[]): string => `/* Generated at build time by vite/serviceWorkerPlugin.ts */
+const CACHE_NAME = ${JSON.stringify(cacheName)};
+const PRECACHE_URLS = ${JSON.stringify(urls)};
+const APP_SHELL = ${JSON.stringify(`${base}index.html`)};
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('bodyfat-precache-') && key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+  // Navigations (including shared ?links) get the app shell when the network is unavailable, and when a static host
+  // without rewrites answers a client-side route such as /calculator with 404.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => (response.status === 404 ? caches.match(APP_SHELL).then(shell => shell || response) : response))
+        .catch(() => caches.match(APP_SHELL))
+    );
+    return;
+  }
+  event.respondWith(caches.match(request).then(cached => cached || fetch(request)));
+});
+`;
+
+/**
+ * Emits `sw.js` next to `index.html` with every file of the build in its precache list. Build only; dev has no worker.
+ * The cache version covers the precached `public/` files too, so replacing an icon alone still ships a new cache.
+ */
+export const serviceWorkerPlugin = (): Plugin => {
+  let base = '/';
+  let publicDir = '';
+  return {
+    name: 'bodyfat-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      base = config.base;
+      publicDir = config.publicDir;
+    },
+    generateBundle(_options, bundle) {
+      const files = Object.values(bundle);
+      // index.html is emitted by Vite's own HTML plugin and may not be in the bundle yet; its asset links are covered by the hash.
+      const fileNames = new Set(['index.html', ...files.map(file => file.fileName), ...PUBLIC_PRECACHE]);
+      const urls = [...fileNames].map(fileName => `${base}${fileName}`);
+      const publicFiles = PUBLIC_PRECACHE.map(fileName => {
+        try {
+          return readFileSync(join(publicDir, fileName)).toString('latin1');
+        } catch {
+          this.warn(`public/${fileName} is in the precache list but could not be read`);
+          return fileName;
+        }
+      });
+      const version = hash([...files.map(file => (file.type === 'chunk' ? file.code : typeof file.source === 'string' ? file.source : file.fileName)), ...publicFiles].join('\n'));
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source: renderServiceWorker(`bodyfat-precache-${version}`, base, urls) });
+    },
+  };
+};
@@ -0,0 +1,23 @@
+import type { Plugin } from 'vite';
+
+/****************************
+ * 404 fallback (static hosting)
+ ***************************/
+
+/**
+ * GitHub Pages has no rewrites: a direct visit to `/calculator`, `/methods` or `/history` is answered with `404.html`.
+ * Emitting a copy of `index.html` under that name boots the app there too, and the router reads the route from the URL.
+ */
+export const spaFallbackPlugin = (): Plugin => ({
+  name: 'bodyfat-spa-fallback',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const index = bundle['index.html'];
+    if (!index || index.type !== 'asset') {
+      this.warn('index.html is not in the bundle; no 404.html fallback was written');
+      return;
+    }
+    this.emitFile({ type: 'asset', fileName: '404.html', source: index.source });
+  },
+});